@@ -0,0 +1,153 @@
+import {
+  glitchById,
+  getDefaultParams,
+  normalizeParams,
+  paramValuesEqual,
+  parseParamValue,
+  splitRecipe,
+} from '../src/glitches';
+import type { GlitchDefinition, ParamDefinition, ParamValue, RecipeStep } from '../src/glitches';
+
+/** A user-facing error: printed without a stack trace. */
+export class CliError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliError';
+  }
+}
+
+export interface CliOptions {
+  steps: RecipeStep[];
+  inputs: string[];
+  outDir: string | null;
+  raw: boolean;
+  list: boolean;
+  help: boolean;
+}
+
+function lookupGlitch(id: string): GlitchDefinition {
+  const glitch = glitchById.get(id);
+  if (!glitch) {
+    throw new CliError(`Unknown glitch "${id}". Run with --list to see available glitches.`);
+  }
+  return glitch;
+}
+
+export function describeAllowed(param: ParamDefinition): string {
+  switch (param.type) {
+    case 'range':
+      return `a number between ${param.min} and ${param.max}`;
+    case 'integer':
+      return `a whole number between ${param.min} and ${param.max}${param.unit ? ` (${param.unit})` : ''}`;
+    case 'boolean':
+      return 'true, false, 1 or 0';
+    case 'color':
+      return 'a color as #rrggbb';
+    case 'vec2':
+      return `x,y with both between ${param.min} and ${param.max}`;
+    case 'select':
+      return `one of: ${param.options.map(o => `${o.value} (${o.label})`).join(', ')}`;
+  }
+}
+
+/**
+ * Validates a raw `name=value` pair against the glitch's ParamDefinition.
+ * Unlike permalinks, which fall back to defaults, the CLI rejects bad input.
+ */
+function parseParam(glitch: GlitchDefinition, name: string, raw: string): ParamValue {
+  const param = glitch.params.find(p => p.name === name);
+  if (!param) {
+    const known = glitch.params.map(p => p.name).join(', ') || '(none)';
+    throw new CliError(`Glitch "${glitch.id}" has no param "${name}". Known params: ${known}`);
+  }
+
+  const value = param.type === 'boolean' && !['true', 'false', '1', '0'].includes(raw)
+    ? undefined
+    : parseParamValue(param, raw);
+  // Normalizing clamps out-of-range values; any change means the input was invalid
+  const outOfRange = value !== undefined &&
+    !paramValuesEqual(value, normalizeParams(glitch, { [name]: value })[name]);
+
+  if (value === undefined || outOfRange) {
+    throw new CliError(`Invalid value "${raw}" for ${glitch.id}.${name}: expected ${describeAllowed(param)}`);
+  }
+  return value;
+}
+
+/** Parses a `--recipe`, rejecting unknown glitches and bad values where permalinks would use defaults. */
+function parseRecipeArg(recipe: string): RecipeStep[] {
+  return splitRecipe(recipe).map(({ id, enabled, params: pairs }) => {
+    const glitch = lookupGlitch(id);
+    const params = getDefaultParams(glitch);
+    for (const [name, raw] of pairs) {
+      params[name] = parseParam(glitch, name, raw);
+    }
+    return { glitch, params, enabled };
+  });
+}
+
+export function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { steps: [], inputs: [], outDir: null, raw: false, list: false, help: false };
+
+  const takeValue = (flag: string, index: number): string => {
+    const value = argv[index];
+    if (value === undefined) {
+      throw new CliError(`Missing value for ${flag}`);
+    }
+    return value;
+  };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+
+    switch (arg) {
+      case '-g':
+      case '--glitch': {
+        const glitch = lookupGlitch(takeValue(arg, ++i));
+        options.steps.push({ glitch, params: getDefaultParams(glitch), enabled: true });
+        break;
+      }
+      case '-p':
+      case '--param': {
+        const pair = takeValue(arg, ++i);
+        const step = options.steps[options.steps.length - 1];
+        if (!step) {
+          throw new CliError(`${arg} ${pair} must follow a --glitch`);
+        }
+        const eq = pair.indexOf('=');
+        if (eq <= 0) {
+          throw new CliError(`Expected name=value for ${arg}, got "${pair}"`);
+        }
+        const name = pair.slice(0, eq);
+        step.params[name] = parseParam(step.glitch, name, pair.slice(eq + 1));
+        break;
+      }
+      case '-r':
+      case '--recipe':
+        options.steps.push(...parseRecipeArg(takeValue(arg, ++i)));
+        break;
+      case '-o':
+      case '--out-dir':
+        options.outDir = takeValue(arg, ++i);
+        break;
+      case '--raw':
+        options.raw = true;
+        break;
+      case '-l':
+      case '--list':
+        options.list = true;
+        break;
+      case '-h':
+      case '--help':
+        options.help = true;
+        break;
+      default:
+        if (arg.startsWith('-')) {
+          throw new CliError(`Unknown option ${arg}`);
+        }
+        options.inputs.push(arg);
+    }
+  }
+
+  return options;
+}
@@ -0,0 +1,28 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { PNG } from 'pngjs';
+import jpeg from 'jpeg-js';
+import type { PixelBuffer } from '../src/glitches';
+
+export async function readImage(path: string): Promise<PixelBuffer> {
+  const bytes = await readFile(path);
+  const ext = extname(path).toLowerCase();
+
+  if (ext === '.png') {
+    const png = PNG.sync.read(bytes);
+    return { width: png.width, height: png.height, data: new Uint8ClampedArray(png.data) };
+  }
+
+  if (ext === '.jpg' || ext === '.jpeg') {
+    const decoded = jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true });
+    return { width: decoded.width, height: decoded.height, data: new Uint8ClampedArray(decoded.data) };
+  }
+
+  throw new Error(`Unsupported image type "${ext}" (expected .png, .jpg or .jpeg): ${path}`);
+}
+
+export async function writePng(path: string, image: PixelBuffer): Promise<void> {
+  const png = new PNG({ width: image.width, height: image.height });
+  png.data = Buffer.from(image.data.buffer, image.data.byteOffset, image.data.byteLength);
+  await writeFile(path, PNG.sync.write(png));
+}
@@ -0,0 +1,97 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import { basename, dirname, extname, join } from 'node:path';
+import { glitches, formatRecipe, GlitchPipeline } from '../src/glitches';
+import type { PixelBuffer, RecipeStep } from '../src/glitches';
+import { exportRaw, packedRgba8Layout, stepRawLayout } from '../src/raw';
+import { CliError, describeAllowed, parseArgs } from './args';
+import { readImage, writePng } from './image-io';
+
+const USAGE = `Usage: glitchbook [options] <input.png|input.jpg...>
+
+Applies one or more glitches to each input image and writes PNGs.
+
+Options:
+  -g, --glitch <id>          Add a glitch step (repeatable, runs in order)
+  -p, --param <name=value>   Set a param on the preceding --glitch
+  -r, --recipe <recipe>      Add steps from a Sandbox permalink recipe,
+                             e.g. 'wrong-stride?strideError=-7/bgr-swap'
+  -o, --out-dir <dir>        Output directory (default: next to each input)
+      --raw                  Write a .bin laid out as the last glitch's buggy
+                             producer wrote it, plus a .json sidecar, instead
+                             of a PNG
+  -l, --list                 List glitches and their params
+  -h, --help                 Show this help`;
+
+function printGlitchList(): void {
+  for (const glitch of glitches) {
+    console.log(`${glitch.id}  (${glitch.category}) ${glitch.name}`);
+    for (const param of glitch.params) {
+      console.log(`    ${param.name}=${String(param.default)}  ${describeAllowed(param)}`);
+    }
+  }
+}
+
+function outputPath(input: string, outDir: string | null, steps: RecipeStep[], extension: string): string {
+  const name = basename(input, extname(input));
+  const suffix = steps.filter(s => s.enabled).map(s => s.glitch.id).join('+') || 'original';
+  return join(outDir ?? dirname(input), `${name}.${suffix}.${extension}`);
+}
+
+/** Writes the .bin/.json pair for the last enabled step's memory layout. */
+async function writeRaw(output: string, image: PixelBuffer, pipeline: GlitchPipeline, steps: RecipeStep[]): Promise<void> {
+  const lastIndex = steps.map(s => s.enabled).lastIndexOf(true);
+  const layout = lastIndex === -1 ? null : stepRawLayout(steps[lastIndex], image.width, image.height);
+  const { bytes, sidecar } = layout
+    ? exportRaw(pipeline.run(image, lastIndex - 1), layout, formatRecipe(steps))
+    : exportRaw(pipeline.run(image), packedRgba8Layout(image.width, image.height), formatRecipe(steps));
+
+  await writeFile(output, bytes);
+  await writeFile(output.replace(/\.bin$/, '.json'), `${JSON.stringify(sidecar, null, 2)}\n`);
+}
+
+async function main(argv: string[]): Promise<void> {
+  const options = parseArgs(argv);
+
+  if (options.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (options.list) {
+    printGlitchList();
+    return;
+  }
+  if (options.steps.length === 0) {
+    throw new CliError('No glitch given. Use --glitch <id> or --recipe <recipe>.');
+  }
+  if (options.inputs.length === 0) {
+    throw new CliError('No input images given.');
+  }
+
+  const pipeline = new GlitchPipeline();
+  pipeline.load(options.steps);
+
+  if (options.outDir) {
+    await mkdir(options.outDir, { recursive: true });
+  }
+
+  for (const input of options.inputs) {
+    const image = await readImage(input);
+    const output = outputPath(input, options.outDir, options.steps, options.raw ? 'bin' : 'png');
+    if (options.raw) {
+      await writeRaw(output, image, pipeline, options.steps);
+    } else {
+      await writePng(output, pipeline.run(image));
+    }
+    console.log(`${input} -> ${output}`);
+  }
+}
+
+main(process.argv.slice(2)).catch((error: unknown) => {
+  if (error instanceof CliError) {
+    console.error(`glitchbook: ${error.message}`);
+    console.error('Run with --help for usage.');
+  } else {
+    console.error(error);
+  }
+  process.exitCode = 1;
+});
@@ -0,0 +1,13 @@
+import { glitches, lintRegistry } from '../src/glitches';
+
+const issues = lintRegistry(glitches);
+
+if (issues.length > 0) {
+  console.error(`Found ${issues.length} problem(s) in glitch definitions:`);
+  for (const issue of issues) {
+    console.error(`  ${issue}`);
+  }
+  process.exitCode = 1;
+} else {
+  console.log(`${glitches.length} glitch definitions OK`);
+}
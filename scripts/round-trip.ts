@@ -0,0 +1,13 @@
+import { glitches, reportRoundTrip } from '../src/glitches';
+import { createSyntheticInput } from '../tests/golden/harness';
+
+// Odd dimensions, so layouts that only invert cleanly on whole tiles show up as lossy
+const image = createSyntheticInput(67, 45);
+
+for (const glitch of glitches) {
+  const report = reportRoundTrip(glitch, image);
+  const worst = report.reversibility === 'exact'
+    ? ''
+    : `  worst: ${(report.changedPixels * 100).toFixed(1)}% of pixels differ at ${JSON.stringify(report.params)}`;
+  console.log(`${glitch.id.padEnd(20)} ${report.reversibility.padEnd(12)} (${report.cases} settings)${worst}`);
+}
@@ -0,0 +1,129 @@
+import type { PixelBuffer } from '../glitches/pixel-buffer';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+/** PNG row filter 4: predict each byte from its left, upper and upper-left neighbours. */
+const FILTER_PAETH = 4;
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  }
+  return c >>> 0;
+});
+
+export function crc32(bytes: Uint8Array, crc = 0xffffffff): number {
+  for (let i = 0; i < bytes.length; i++) {
+    crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return crc;
+}
+
+function chunk(type: string, data: Uint8Array): Uint8Array {
+  const bytes = new Uint8Array(12 + data.length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) bytes[4 + i] = type.charCodeAt(i);
+  bytes.set(data, 8);
+  view.setUint32(8 + data.length, (crc32(bytes.subarray(4, 8 + data.length)) ^ 0xffffffff) >>> 0);
+  return bytes;
+}
+
+function uint32s(...values: number[]): Uint8Array {
+  const bytes = new Uint8Array(values.length * 4);
+  const view = new DataView(bytes.buffer);
+  values.forEach((value, i) => view.setUint32(i * 4, value));
+  return bytes;
+}
+
+function paeth(left: number, up: number, upLeft: number): number {
+  const p = left + up - upLeft;
+  const pa = Math.abs(p - left);
+  const pb = Math.abs(p - up);
+  const pc = Math.abs(p - upLeft);
+  return pa <= pb && pa <= pc ? left : pb <= pc ? up : upLeft;
+}
+
+/** Scanlines as PNG stores them: a filter byte, then the row Paeth-filtered. */
+function filterRows(image: PixelBuffer): Uint8Array<ArrayBuffer> {
+  const { width, height, data } = image;
+  const rowBytes = width * 4;
+  const out = new Uint8Array((rowBytes + 1) * height);
+
+  for (let y = 0; y < height; y++) {
+    const row = y * rowBytes;
+    const target = y * (rowBytes + 1);
+    out[target] = FILTER_PAETH;
+    for (let i = 0; i < rowBytes; i++) {
+      const left = i >= 4 ? data[row + i - 4] : 0;
+      const up = y > 0 ? data[row - rowBytes + i] : 0;
+      const upLeft = y > 0 && i >= 4 ? data[row - rowBytes + i - 4] : 0;
+      out[target + 1 + i] = data[row + i] - paeth(left, up, upLeft);
+    }
+  }
+  return out;
+}
+
+async function deflate(bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Encodes same-sized RGBA frames as a looping animated PNG. Every frame is
+ * stored whole and replaces the previous one, so translucent pixels stay
+ * exact. Viewers without APNG support show the first frame.
+ */
+export async function encodeApng(frames: readonly PixelBuffer[], delayMs: number): Promise<Uint8Array<ArrayBuffer>> {
+  if (frames.length === 0) {
+    throw new Error('An animation needs at least one frame');
+  }
+  const { width, height } = frames[0];
+  if (frames.some(frame => frame.width !== width || frame.height !== height)) {
+    throw new Error('Animation frames must all be the same size');
+  }
+
+  const delay = Math.max(0, Math.min(0xffff, Math.round(delayMs)));
+  const header = new Uint8Array(13);
+  header.set(uint32s(width, height));
+  // 8 bits per channel, RGBA, deflate, adaptive filtering, no interlace
+  header.set([8, 6, 0, 0, 0], 8);
+
+  const chunks: Uint8Array[] = [
+    Uint8Array.from(PNG_SIGNATURE),
+    chunk('IHDR', header),
+    // Frame count, then 0 plays meaning loop forever
+    chunk('acTL', uint32s(frames.length, 0)),
+  ];
+
+  let sequence = 0;
+  for (const [i, frame] of frames.entries()) {
+    const control = new Uint8Array(26);
+    const view = new DataView(control.buffer);
+    control.set(uint32s(sequence++, width, height, 0, 0));
+    view.setUint16(20, delay);
+    view.setUint16(22, 1000);
+    // Dispose: none; blend: source, replacing the previous frame outright
+    control.set([0, 0], 24);
+    chunks.push(chunk('fcTL', control));
+
+    const compressed = await deflate(filterRows(frame));
+    if (i === 0) {
+      chunks.push(chunk('IDAT', compressed));
+    } else {
+      const data = new Uint8Array(4 + compressed.length);
+      data.set(uint32s(sequence++));
+      data.set(compressed, 4);
+      chunks.push(chunk('fdAT', data));
+    }
+  }
+  chunks.push(chunk('IEND', new Uint8Array(0)));
+
+  const output = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0));
+  let offset = 0;
+  for (const c of chunks) {
+    output.set(c, offset);
+    offset += c.length;
+  }
+  return output;
+}
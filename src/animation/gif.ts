@@ -0,0 +1,226 @@
+import type { PixelBuffer } from '../glitches/pixel-buffer';
+
+/** One global palette for every frame; the last entry stands for transparency. */
+const PALETTE_COLORS = 255;
+const TRANSPARENT_INDEX = 255;
+/** Pixels at least this opaque are drawn; GIF has no partial transparency. */
+const ALPHA_THRESHOLD = 128;
+/** Palette building looks at no more pixels than this, spread over all frames. */
+const MAX_PALETTE_SAMPLES = 1 << 16;
+const MIN_CODE_SIZE = 8;
+const MAX_CODE_BITS = 12;
+
+type Color = readonly [number, number, number];
+
+/**
+ * Median cut: keeps splitting the box of colors with the widest channel
+ * range at its median until there are `count` boxes, then averages each.
+ */
+function medianCut(colors: Color[], count: number): Color[] {
+  if (colors.length === 0) return [[0, 0, 0]];
+  const boxes: Color[][] = [colors];
+
+  while (boxes.length < count) {
+    let widest = -1;
+    let widestRange = 0;
+    let widestChannel = 0;
+    for (const [i, box] of boxes.entries()) {
+      if (box.length < 2) continue;
+      for (let c = 0; c < 3; c++) {
+        let min = 255;
+        let max = 0;
+        for (const color of box) {
+          min = Math.min(min, color[c]);
+          max = Math.max(max, color[c]);
+        }
+        if (max - min > widestRange) {
+          widest = i;
+          widestRange = max - min;
+          widestChannel = c;
+        }
+      }
+    }
+    if (widest < 0) break;
+
+    const box = boxes[widest].sort((a, b) => a[widestChannel] - b[widestChannel]);
+    const middle = box.length >> 1;
+    boxes.splice(widest, 1, box.slice(0, middle), box.slice(middle));
+  }
+
+  return boxes.map(box => {
+    const sum = [0, 0, 0];
+    for (const color of box) {
+      sum[0] += color[0];
+      sum[1] += color[1];
+      sum[2] += color[2];
+    }
+    return [Math.round(sum[0] / box.length), Math.round(sum[1] / box.length), Math.round(sum[2] / box.length)] as const;
+  });
+}
+
+function buildPalette(frames: readonly PixelBuffer[]): Color[] {
+  const total = frames.reduce((sum, frame) => sum + frame.width * frame.height, 0);
+  const step = Math.max(1, Math.floor(total / MAX_PALETTE_SAMPLES));
+  const colors: Color[] = [];
+  let n = 0;
+  for (const { data } of frames) {
+    for (let i = 0; i < data.length; i += 4, n++) {
+      if (n % step === 0 && data[i + 3] >= ALPHA_THRESHOLD) {
+        colors.push([data[i], data[i + 1], data[i + 2]]);
+      }
+    }
+  }
+  return medianCut(colors, PALETTE_COLORS);
+}
+
+/**
+ * Maps each frame's pixels to palette indices, nearest color by squared RGB
+ * distance. Lookups are cached per 15-bit color, which is plenty for a
+ * 255-color palette.
+ */
+function indexFrames(frames: readonly PixelBuffer[], palette: readonly Color[]): Uint8Array[] {
+  const cache = new Int16Array(1 << 15).fill(-1);
+  return frames.map(({ data }) => {
+    const indices = new Uint8Array(data.length / 4);
+    for (let p = 0; p < indices.length; p++) {
+      const i = p * 4;
+      if (data[i + 3] < ALPHA_THRESHOLD) {
+        indices[p] = TRANSPARENT_INDEX;
+        continue;
+      }
+      const key = (data[i] >> 3) << 10 | (data[i + 1] >> 3) << 5 | data[i + 2] >> 3;
+      if (cache[key] < 0) {
+        let best = 0;
+        let bestDistance = Infinity;
+        for (const [j, [r, g, b]] of palette.entries()) {
+          const distance = (r - data[i]) ** 2 + (g - data[i + 1]) ** 2 + (b - data[i + 2]) ** 2;
+          if (distance < bestDistance) {
+            best = j;
+            bestDistance = distance;
+          }
+        }
+        cache[key] = best;
+      }
+      indices[p] = cache[key];
+    }
+    return indices;
+  });
+}
+
+/** GIF's variable-width LZW, packed least significant bit first. */
+function lzwEncode(indices: Uint8Array): number[] {
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+  const bytes: number[] = [];
+  let buffer = 0;
+  let bufferBits = 0;
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+
+  const write = (code: number) => {
+    buffer |= code << bufferBits;
+    bufferBits += codeSize;
+    while (bufferBits >= 8) {
+      bytes.push(buffer & 0xff);
+      buffer >>>= 8;
+      bufferBits -= 8;
+    }
+  };
+
+  write(clearCode);
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const key = prefix << 8 | indices[i];
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+
+    write(prefix);
+    if (nextCode < 1 << MAX_CODE_BITS) {
+      table.set(key, nextCode++);
+      // Decoders widen codes as soon as the table reaches the next power of two
+      if (nextCode > 1 << codeSize) codeSize++;
+    } else {
+      write(clearCode);
+      table = new Map();
+      codeSize = MIN_CODE_SIZE + 1;
+      nextCode = endCode + 1;
+    }
+    prefix = indices[i];
+  }
+  write(prefix);
+  write(endCode);
+  if (bufferBits > 0) bytes.push(buffer & 0xff);
+  return bytes;
+}
+
+/** Image data goes out in sub-blocks of at most 255 bytes, ended by an empty one. */
+function subBlocks(bytes: readonly number[]): Uint8Array {
+  const out = new Uint8Array(bytes.length + Math.ceil(bytes.length / 255) + 1);
+  let offset = 0;
+  for (let i = 0; i < bytes.length; i += 255) {
+    const block = bytes.slice(i, i + 255);
+    out[offset++] = block.length;
+    out.set(block, offset);
+    offset += block.length;
+  }
+  return out;
+}
+
+function uint16(value: number): number[] {
+  return [value & 0xff, value >> 8];
+}
+
+/**
+ * Encodes same-sized RGBA frames as a looping GIF with one shared 255-color
+ * palette. Pixels under half opacity become transparent; GIF can't store
+ * anything in between, and delays round to hundredths of a second.
+ */
+export function encodeGif(frames: readonly PixelBuffer[], delayMs: number): Uint8Array<ArrayBuffer> {
+  if (frames.length === 0) {
+    throw new Error('An animation needs at least one frame');
+  }
+  const { width, height } = frames[0];
+  if (frames.some(frame => frame.width !== width || frame.height !== height)) {
+    throw new Error('Animation frames must all be the same size');
+  }
+
+  const palette = buildPalette(frames);
+  const paletteBytes = new Array<number>(256 * 3).fill(0);
+  palette.forEach((color, i) => paletteBytes.splice(i * 3, 3, ...color));
+  const delay = Math.max(0, Math.min(0xffff, Math.round(delayMs / 10)));
+
+  const parts: (number[] | Uint8Array)[] = [[
+    ...'GIF89a'.split('').map(c => c.charCodeAt(0)),
+    ...uint16(width), ...uint16(height),
+    // Global color table of 2^(7+1) entries, 8 bits per primary
+    0xf7, 0, 0,
+    ...paletteBytes,
+    // NETSCAPE2.0 application extension: loop forever
+    0x21, 0xff, 11, ...'NETSCAPE2.0'.split('').map(c => c.charCodeAt(0)), 3, 1, ...uint16(0), 0,
+  ]];
+
+  for (const indices of indexFrames(frames, palette)) {
+    parts.push([
+      // Graphic control: restore to background before the next frame so
+      // transparent pixels don't show the previous one, transparency on
+      0x21, 0xf9, 4, 0x09, ...uint16(delay), TRANSPARENT_INDEX, 0,
+      // Image descriptor covering the whole canvas, no local palette
+      0x2c, ...uint16(0), ...uint16(0), ...uint16(width), ...uint16(height), 0,
+      MIN_CODE_SIZE,
+    ]);
+    parts.push(subBlocks(lzwEncode(indices)));
+  }
+  parts.push([0x3b]);
+
+  const output = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    output.set(part, offset);
+    offset += part.length;
+  }
+  return output;
+}
@@ -0,0 +1,3 @@
+export * from './keyframes';
+export * from './gif';
+export * from './apng';
@@ -0,0 +1,70 @@
+import type { RecipeStep } from '../glitches/recipe';
+
+export interface Keyframe {
+  /** Position in the animation, 0 at the first frame and 1 at the last. */
+  time: number;
+  value: number;
+}
+
+/** A numeric param of one pipeline step, moving through its keyframes over the animation. */
+export interface ParamTrack {
+  stepIndex: number;
+  param: string;
+  keyframes: readonly Keyframe[];
+}
+
+/**
+ * Keyframes spread evenly over the animation, e.g. `[-20, 20]` for a plain
+ * sweep or `[0, 8, -8, 0]` to swing there and back.
+ */
+export function evenKeyframes(values: readonly number[]): Keyframe[] {
+  if (values.length === 1) return [{ time: 0, value: values[0] }];
+  return values.map((value, i) => ({ time: i / (values.length - 1), value }));
+}
+
+/** The track's value at `time`, linear between keyframes and held before the first and after the last. */
+export function sampleTrack(track: ParamTrack, time: number): number {
+  const keyframes = [...track.keyframes].sort((a, b) => a.time - b.time);
+  if (keyframes.length === 0) {
+    throw new Error(`Track for ${track.param} has no keyframes`);
+  }
+  if (time <= keyframes[0].time) return keyframes[0].value;
+
+  for (let i = 1; i < keyframes.length; i++) {
+    const from = keyframes[i - 1];
+    const to = keyframes[i];
+    if (time <= to.time) {
+      const t = to.time === from.time ? 1 : (time - from.time) / (to.time - from.time);
+      return from.value + (to.value - from.value) * t;
+    }
+  }
+  return keyframes[keyframes.length - 1].value;
+}
+
+/**
+ * The recipe with every track's value at `time` written into its step.
+ * Values are left unrounded; `normalizeParams` rounds integers and clamps
+ * when the pipeline runs.
+ */
+export function recipeAt(recipe: readonly RecipeStep[], tracks: readonly ParamTrack[], time: number): RecipeStep[] {
+  const frame = recipe.map(step => ({ ...step, params: { ...step.params } }));
+  for (const track of tracks) {
+    const step = frame[track.stepIndex];
+    if (!step) {
+      throw new Error(`Track for ${track.param} points at missing step ${track.stepIndex + 1}`);
+    }
+    step.params[track.param] = sampleTrack(track, time);
+  }
+  return frame;
+}
+
+/**
+ * Evenly spaced animation times for `frameCount` frames. Ping-pong appends
+ * the way back, without repeating either end, so the loop has no seam.
+ */
+export function frameTimes(frameCount: number, pingPong = false): number[] {
+  const forward = frameCount <= 1
+    ? [0]
+    : Array.from({ length: frameCount }, (_, i) => i / (frameCount - 1));
+  return pingPong ? [...forward, ...forward.slice(1, -1).reverse()] : forward;
+}
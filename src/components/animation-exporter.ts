@@ -0,0 +1,257 @@
+import type { IntegerParamDefinition, PixelBuffer, RangeParamDefinition, RecipeStep } from '../glitches';
+import { encodeApng, encodeGif, evenKeyframes, frameTimes, recipeAt } from '../animation';
+import type { ParamTrack } from '../animation';
+import { resizeImageData } from '../utils/canvas';
+import { downloadBlob } from '../utils/download';
+import { getGlitchRunner } from '../workers/glitch-pool';
+
+const SIZES = [200, 400, 800] as const;
+const DEFAULT_SIZE = 400;
+const DEFAULT_FRAMES = 24;
+const MAX_FRAMES = 120;
+const DEFAULT_DELAY_MS = 80;
+/** Browsers play GIF delays under 20 ms at 100 ms, so nothing shorter is offered. */
+const MIN_DELAY_MS = 20;
+
+type AnimationFormat = 'gif' | 'apng';
+type NumericParamDefinition = RangeParamDefinition | IntegerParamDefinition;
+
+/** A track as edited: which param it moves and its keyframe values as typed. */
+interface TrackRow {
+  stepIndex: number;
+  /** The step's glitch when the track was made, so reordering the stack can't retarget it. */
+  glitchId: string;
+  param: string;
+  values: string;
+}
+
+function numericParams(step: RecipeStep): NumericParamDefinition[] {
+  return step.glitch.params.filter((p): p is NumericParamDefinition => p.type === 'range' || p.type === 'integer');
+}
+
+function parseValues(text: string): number[] | null {
+  const values = text.split(',').map(part => part.trim()).filter(part => part !== '').map(Number);
+  return values.length > 0 && values.every(Number.isFinite) ? values : null;
+}
+
+/**
+ * Exports the Sandbox stack as an animation, each track sweeping one numeric
+ * param through evenly spaced keyframe values, e.g. `strideError` from -20 to
+ * 20. Frames run in the worker pool and are encoded in the browser.
+ */
+export class AnimationExporter {
+  private container: HTMLElement;
+  private trackList!: HTMLElement;
+  private status!: HTMLElement;
+  private exportBtn!: HTMLButtonElement;
+  private recipe: RecipeStep[] = [];
+  private source: ImageData | null = null;
+  private tracks: TrackRow[] = [];
+  private busy = false;
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+    this.render();
+    this.setupEventListeners();
+  }
+
+  /** Follows the Sandbox's stack and image; tracks whose step went away are dropped. */
+  load(recipe: RecipeStep[], source: ImageData | null): void {
+    this.recipe = recipe;
+    this.source = source;
+    this.tracks = this.tracks.filter(track => {
+      const step = recipe[track.stepIndex];
+      return step?.glitch.id === track.glitchId && numericParams(step).some(p => p.name === track.param);
+    });
+    this.renderTracks();
+  }
+
+  private render(): void {
+    this.container.innerHTML = `
+      <div class="animation-header">
+        <h3>Animate Parameters</h3>
+        <button class="btn btn-small btn-secondary" data-action="add-track">Add Track</button>
+      </div>
+      <p class="animation-hint">Each track moves one param through its comma-separated values, spaced evenly over the animation.</p>
+      <ul class="animation-tracks"></ul>
+      <div class="animation-options">
+        <label>
+          Frames
+          <input type="number" class="animation-frames" min="2" max="${MAX_FRAMES}" value="${DEFAULT_FRAMES}" />
+        </label>
+        <label>
+          Delay (ms)
+          <input type="number" class="animation-delay" min="${MIN_DELAY_MS}" max="5000" step="10" value="${DEFAULT_DELAY_MS}" />
+        </label>
+        <label>
+          Size
+          <select class="animation-size">
+            ${SIZES.map(size => `<option value="${size}"${size === DEFAULT_SIZE ? ' selected' : ''}>${size} px</option>`).join('')}
+          </select>
+        </label>
+        <label>
+          Format
+          <select class="animation-format">
+            <option value="gif">GIF (256 colors)</option>
+            <option value="apng">APNG (lossless)</option>
+          </select>
+        </label>
+        <label class="animation-checkbox">
+          <input type="checkbox" class="animation-ping-pong" />
+          Ping-pong
+        </label>
+        <button class="btn btn-small btn-primary" data-action="export">Export Animation</button>
+      </div>
+      <p class="animation-status"></p>
+    `;
+    this.trackList = this.container.querySelector('.animation-tracks')!;
+    this.status = this.container.querySelector('.animation-status')!;
+    this.exportBtn = this.container.querySelector('[data-action="export"]')!;
+  }
+
+  private renderTracks(): void {
+    const choices = this.recipe.flatMap((step, stepIndex) =>
+      numericParams(step).map(param => ({ stepIndex, step, param }))
+    );
+
+    this.trackList.innerHTML = this.tracks.map((track, i) => `
+      <li class="animation-track" data-index="${i}">
+        <select class="track-param" aria-label="Param">
+          ${choices.map(({ stepIndex, step, param }) => `
+            <option value="${stepIndex}:${param.name}"${stepIndex === track.stepIndex && param.name === track.param ? ' selected' : ''}>
+              ${stepIndex + 1}. ${step.glitch.name}: ${param.name}
+            </option>
+          `).join('')}
+        </select>
+        <input type="text" class="track-values" aria-label="Keyframe values" spellcheck="false" />
+        <button class="step-remove" data-action="remove-track" title="Remove track">&times;</button>
+      </li>
+    `).join('');
+
+    // Typed text goes in as a property so it needs no escaping
+    this.trackList.querySelectorAll<HTMLInputElement>('.track-values').forEach((input, i) => {
+      input.value = this.tracks[i].values;
+    });
+
+    const addBtn = this.container.querySelector<HTMLButtonElement>('[data-action="add-track"]')!;
+    addBtn.disabled = choices.length === 0;
+    this.exportBtn.disabled = this.busy || this.tracks.length === 0 || !this.source;
+    if (!this.busy) {
+      this.status.textContent = choices.length === 0
+        ? 'Add a glitch with a numeric param to the stack to animate it.'
+        : this.tracks.length === 0 ? 'Add a track to choose what moves.' : '';
+    }
+  }
+
+  private setupEventListeners(): void {
+    this.container.addEventListener('click', (e) => {
+      const target = (e.target as HTMLElement).closest<HTMLElement>('[data-action]');
+      const action = target?.dataset.action;
+
+      if (action === 'add-track') {
+        this.addTrack();
+      } else if (action === 'remove-track') {
+        const index = parseInt(target!.closest<HTMLElement>('.animation-track')!.dataset.index!, 10);
+        this.tracks.splice(index, 1);
+        this.renderTracks();
+      } else if (action === 'export') {
+        this.exportAnimation();
+      }
+    });
+
+    this.trackList.addEventListener('change', (e) => {
+      const select = e.target as HTMLElement;
+      if (!select.classList.contains('track-param')) return;
+      const index = parseInt(select.closest<HTMLElement>('.animation-track')!.dataset.index!, 10);
+      const [stepIndex, param] = (select as HTMLSelectElement).value.split(':');
+      this.tracks[index] = this.newTrack(parseInt(stepIndex, 10), param);
+      this.renderTracks();
+    });
+
+    this.trackList.addEventListener('input', (e) => {
+      const input = e.target as HTMLInputElement;
+      if (!input.classList.contains('track-values')) return;
+      const index = parseInt(input.closest<HTMLElement>('.animation-track')!.dataset.index!, 10);
+      this.tracks[index].values = input.value;
+    });
+  }
+
+  /** Starts on the first numeric param not animated yet, sweeping its whole range. */
+  private addTrack(): void {
+    for (const [stepIndex, step] of this.recipe.entries()) {
+      const param = numericParams(step).find(p =>
+        !this.tracks.some(t => t.stepIndex === stepIndex && t.param === p.name)
+      );
+      if (param) {
+        this.tracks.push(this.newTrack(stepIndex, param.name));
+        this.renderTracks();
+        return;
+      }
+    }
+  }
+
+  private newTrack(stepIndex: number, paramName: string): TrackRow {
+    const step = this.recipe[stepIndex];
+    const param = numericParams(step).find(p => p.name === paramName)!;
+    return { stepIndex, glitchId: step.glitch.id, param: paramName, values: `${param.min}, ${param.max}` };
+  }
+
+  private async exportAnimation(): Promise<void> {
+    if (!this.source || this.busy) return;
+
+    const tracks: ParamTrack[] = [];
+    for (const track of this.tracks) {
+      const values = parseValues(track.values);
+      if (!values) {
+        alert(`Keyframe values for ${track.param} should be numbers separated by commas, e.g. "-20, 20".`);
+        return;
+      }
+      tracks.push({ stepIndex: track.stepIndex, param: track.param, keyframes: evenKeyframes(values) });
+    }
+
+    const frameCount = Math.max(2, Math.min(MAX_FRAMES, parseInt(this.container.querySelector<HTMLInputElement>('.animation-frames')!.value, 10) || DEFAULT_FRAMES));
+    const delay = Math.max(MIN_DELAY_MS, parseInt(this.container.querySelector<HTMLInputElement>('.animation-delay')!.value, 10) || DEFAULT_DELAY_MS);
+    const size = parseInt(this.container.querySelector<HTMLSelectElement>('.animation-size')!.value, 10);
+    const format = this.container.querySelector<HTMLSelectElement>('.animation-format')!.value as AnimationFormat;
+    const pingPong = this.container.querySelector<HTMLInputElement>('.animation-ping-pong')!.checked;
+
+    this.busy = true;
+    this.exportBtn.disabled = true;
+    try {
+      const source = resizeImageData(this.source, size, size);
+      const times = frameTimes(frameCount, pingPong);
+      const runner = getGlitchRunner();
+      let done = 0;
+      this.status.textContent = `Rendering ${times.length} frames...`;
+
+      // Ping-pong frames on the way back repeat earlier ones, so each time renders once
+      const unique = [...new Set(times)];
+      const rendered = await Promise.all(unique.map(async time => {
+        const frame = await runner.run(source, recipeAt(this.recipe, tracks, time));
+        this.status.textContent = `Rendered ${++done} of ${unique.length} frames...`;
+        return frame;
+      }));
+      const frameAt = new Map(unique.map((time, i) => [time, rendered[i]]));
+      const frames: PixelBuffer[] = times.map(time => frameAt.get(time)!);
+
+      this.status.textContent = `Encoding ${format === 'gif' ? 'GIF' : 'APNG'}...`;
+      // Let the status paint before encoding takes over the main thread
+      await new Promise(resolve => setTimeout(resolve, 0));
+      const bytes = format === 'gif' ? encodeGif(frames, delay) : await encodeApng(frames, delay);
+
+      const baseName = [...new Set(tracks.map(t => this.recipe[t.stepIndex].glitch.id))].join('+');
+      downloadBlob(
+        new Blob([bytes], { type: format === 'gif' ? 'image/gif' : 'image/apng' }),
+        `${baseName}-animation.${format === 'gif' ? 'gif' : 'png'}`
+      );
+      this.status.textContent = `Exported ${frames.length} frames at ${source.width}x${source.height}, ${(bytes.length / 1024).toFixed(0)} KB.`;
+    } catch (error) {
+      console.error('Failed to export animation:', error);
+      alert(`Failed to export animation: ${error instanceof Error ? error.message : error}`);
+      this.status.textContent = '';
+    } finally {
+      this.busy = false;
+      this.exportBtn.disabled = this.tracks.length === 0;
+    }
+  }
+}
@@ -0,0 +1,223 @@
+import { getDefaultParams, formatGridValue, isGridParam, paramGrid } from '../glitches';
+import type { GlitchDefinition, ParamGrid } from '../glitches';
+import { downloadCanvas, imageDataToCanvas } from '../utils/canvas';
+import { getGlitchRunner } from '../workers/glitch-pool';
+
+const STEP_COUNTS = [3, 4, 5, 6, 8] as const;
+const DEFAULT_STEPS = 5;
+const ROW_LABEL_WIDTH = 120;
+const HEADER_HEIGHT = 44;
+const CELL_GAP = 6;
+const FONT = '12px sans-serif';
+const BACKGROUND = '#1a1a22';
+const TEXT_COLOR = '#e0e0e8';
+const MUTED_COLOR = '#9898a8';
+
+/** Shortens `text` with an ellipsis until it fits `width`. */
+function fitText(ctx: CanvasRenderingContext2D, text: string, width: number): string {
+  if (ctx.measureText(text).width <= width) return text;
+  let end = text.length;
+  while (end > 1 && ctx.measureText(`${text.slice(0, end)}…`).width > width) end--;
+  return `${text.slice(0, end)}…`;
+}
+
+/**
+ * One glitch over a grid of param values, e.g. every swizzle pattern with
+ * and without `inverse`, drawn as a single labelled canvas that exports as
+ * one PNG. Params not on an axis keep their defaults.
+ */
+export class ContactSheet {
+  private container: HTMLElement;
+  private canvas!: HTMLCanvasElement;
+  private status!: HTMLElement;
+  private rowSelect!: HTMLSelectElement;
+  private columnSelect!: HTMLSelectElement;
+  private stepsSelect!: HTMLSelectElement;
+  private exportBtn!: HTMLButtonElement;
+  private imageFor: (glitch: GlitchDefinition) => ImageData | null;
+  private glitch: GlitchDefinition | null = null;
+  /** Bumped per render so cells from a superseded grid are dropped. */
+  private generation = 0;
+
+  /** `imageFor` supplies the input for each glitch, e.g. one shared photo or its own test pattern. */
+  constructor(container: HTMLElement, imageFor: (glitch: GlitchDefinition) => ImageData | null) {
+    this.container = container;
+    this.imageFor = imageFor;
+    this.render();
+    this.setupEventListeners();
+  }
+
+  /** Shows `glitch` over its first two params, or the first alone if it has one. */
+  open(glitch: GlitchDefinition): void {
+    this.glitch = glitch;
+    this.container.style.display = '';
+    this.container.querySelector('.contact-sheet-title')!.textContent = `${glitch.name}: Parameter Grid`;
+
+    const params = glitch.params.filter(isGridParam);
+    const options = `<option value="">None</option>` +
+      params.map(p => `<option value="${p.name}">${p.name}</option>`).join('');
+    this.columnSelect.innerHTML = options;
+    this.rowSelect.innerHTML = options;
+    this.columnSelect.value = params[0]?.name ?? '';
+    this.rowSelect.value = params[1]?.name ?? '';
+
+    this.renderSheet();
+    this.container.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  }
+
+  /** Renders again with the current input, e.g. after the gallery image changed. */
+  refresh(): void {
+    if (this.glitch) {
+      this.renderSheet();
+    }
+  }
+
+  hide(): void {
+    this.generation++;
+    this.glitch = null;
+    this.container.style.display = 'none';
+  }
+
+  private render(): void {
+    this.container.innerHTML = `
+      <div class="contact-sheet-header">
+        <h3 class="contact-sheet-title"></h3>
+        <div class="contact-sheet-actions">
+          <button class="btn btn-small btn-primary" data-action="export" disabled>Export PNG</button>
+          <button class="btn btn-small btn-secondary" data-action="close">Close</button>
+        </div>
+      </div>
+      <div class="contact-sheet-controls">
+        <label>
+          Columns
+          <select class="contact-sheet-columns"></select>
+        </label>
+        <label>
+          Rows
+          <select class="contact-sheet-rows"></select>
+        </label>
+        <label>
+          Steps per range
+          <select class="contact-sheet-steps">
+            ${STEP_COUNTS.map(n => `<option value="${n}"${n === DEFAULT_STEPS ? ' selected' : ''}>${n}</option>`).join('')}
+          </select>
+        </label>
+      </div>
+      <p class="contact-sheet-status"></p>
+      <div class="contact-sheet-frame">
+        <canvas class="contact-sheet-canvas"></canvas>
+      </div>
+    `;
+    this.canvas = this.container.querySelector('.contact-sheet-canvas')!;
+    this.status = this.container.querySelector('.contact-sheet-status')!;
+    this.columnSelect = this.container.querySelector('.contact-sheet-columns')!;
+    this.rowSelect = this.container.querySelector('.contact-sheet-rows')!;
+    this.stepsSelect = this.container.querySelector('.contact-sheet-steps')!;
+    this.exportBtn = this.container.querySelector('[data-action="export"]')!;
+  }
+
+  private setupEventListeners(): void {
+    this.container.addEventListener('click', (e) => {
+      const action = (e.target as HTMLElement).closest<HTMLElement>('[data-action]')?.dataset.action;
+      if (action === 'close') {
+        this.hide();
+      } else if (action === 'export' && this.glitch) {
+        const axes = [this.rowSelect.value, this.columnSelect.value].filter(Boolean).join('-x-');
+        downloadCanvas(this.canvas, `${this.glitch.id}${axes ? `-${axes}` : ''}-grid.png`);
+      }
+    });
+
+    for (const select of [this.columnSelect, this.rowSelect, this.stepsSelect]) {
+      select.addEventListener('change', () => this.renderSheet());
+    }
+  }
+
+  private async renderSheet(): Promise<void> {
+    const { glitch } = this;
+    const generation = ++this.generation;
+    this.exportBtn.disabled = true;
+    if (!glitch) return;
+
+    const imageData = this.imageFor(glitch);
+    if (!imageData) {
+      this.canvas.width = 0;
+      this.canvas.height = 0;
+      this.status.textContent = 'Load an image above to render the grid.';
+      return;
+    }
+
+    const grid = paramGrid(
+      glitch,
+      this.rowSelect.value || null,
+      this.columnSelect.value || null,
+      parseInt(this.stepsSelect.value, 10),
+      getDefaultParams(glitch)
+    );
+    const cellCount = grid.cells.length * grid.cells[0].length;
+    this.status.textContent = `Rendering ${cellCount} cells...`;
+    this.drawFrame(grid, imageData.width, imageData.height);
+
+    const runner = getGlitchRunner();
+    let done = 0;
+    try {
+      await Promise.all(grid.cells.flatMap((row, r) => row.map(async (params, c) => {
+        const result = await runner.run(imageData, [{ glitch, params, enabled: true }]);
+        if (generation !== this.generation) return;
+        const [x, y] = this.cellOrigin(r, c, imageData.width, imageData.height);
+        this.canvas.getContext('2d')!.drawImage(imageDataToCanvas(result), x, y);
+        this.status.textContent = `Rendered ${++done} of ${cellCount} cells.`;
+      })));
+    } catch (error) {
+      console.error(`Failed to render grid for ${glitch.id}:`, error);
+      this.status.textContent = 'Some cells failed to render.';
+      return;
+    }
+    if (generation !== this.generation) return;
+
+    const others = glitch.params.filter(p => p !== grid.rowParam && p !== grid.columnParam);
+    this.status.textContent = others.length > 0
+      ? `Other params at their defaults: ${others.map(p => p.name).join(', ')}.`
+      : '';
+    this.exportBtn.disabled = false;
+  }
+
+  private cellOrigin(row: number, column: number, width: number, height: number): [number, number] {
+    return [ROW_LABEL_WIDTH + column * (width + CELL_GAP), HEADER_HEIGHT + row * (height + CELL_GAP)];
+  }
+
+  /** Sizes the canvas and draws the background, axis names and value labels. */
+  private drawFrame(grid: ParamGrid, width: number, height: number): void {
+    const rows = grid.cells.length;
+    const columns = grid.cells[0].length;
+    this.canvas.width = ROW_LABEL_WIDTH + columns * (width + CELL_GAP) - CELL_GAP;
+    this.canvas.height = HEADER_HEIGHT + rows * (height + CELL_GAP) - CELL_GAP;
+
+    const ctx = this.canvas.getContext('2d')!;
+    ctx.fillStyle = BACKGROUND;
+    ctx.fillRect(0, 0, this.canvas.width, this.canvas.height);
+    ctx.font = FONT;
+    ctx.textBaseline = 'middle';
+
+    // Top left: the glitch, then which param runs which way
+    ctx.fillStyle = TEXT_COLOR;
+    ctx.fillText(fitText(ctx, this.glitch!.name, ROW_LABEL_WIDTH - 8), 0, 12);
+    ctx.fillStyle = MUTED_COLOR;
+    const axes = [
+      grid.columnParam && `→ ${grid.columnParam.name}`,
+      grid.rowParam && `↓ ${grid.rowParam.name}`,
+    ].filter((label): label is string => Boolean(label)).join('  ');
+    ctx.fillText(fitText(ctx, axes, ROW_LABEL_WIDTH - 8), 0, 32);
+
+    ctx.fillStyle = TEXT_COLOR;
+    ctx.textAlign = 'center';
+    grid.columns.forEach((value, c) => {
+      const [x] = this.cellOrigin(0, c, width, height);
+      ctx.fillText(fitText(ctx, formatGridValue(grid.columnParam!, value), width), x + width / 2, HEADER_HEIGHT - 12);
+    });
+    ctx.textAlign = 'left';
+    grid.rows.forEach((value, r) => {
+      const [, y] = this.cellOrigin(r, 0, width, height);
+      ctx.fillText(fitText(ctx, formatGridValue(grid.rowParam!, value), ROW_LABEL_WIDTH - 8), 0, y + height / 2);
+    });
+  }
+}
@@ -0,0 +1,192 @@
+import { findSelectOption, formatRecipe, isParamVisible } from '../glitches';
+import type { GlitchParams, GlitchDefinition, RecipeStep, Vec2 } from '../glitches';
+import { loadImageDataFromFile, setupDropZone, createFileInput } from '../utils/image-loader';
+import { imageDataToCanvas, resizeImageData, scaleImageData } from '../utils/canvas';
+import { CancelledError } from '../workers/glitch-pool';
+import { DiagnosisRunner } from '../workers/diagnose-pool';
+import type { DiagnosisResult } from '../workers/diagnose-pool';
+
+/**
+ * Both images are compared at this size. Every glitch is re-run dozens of
+ * times per diagnosis, so this bounds the total cost.
+ */
+const ANALYSIS_SIZE = 256;
+const MAX_RESULTS = 8;
+
+type Slot = 'reference' | 'capture';
+
+function summarizeParams(glitch: GlitchDefinition, params: GlitchParams): string {
+  return glitch.params
+    .filter(param => isParamVisible(param, params))
+    .map(param => {
+      const value = params[param.name];
+      let text = String(value);
+      if (param.type === 'select') {
+        text = findSelectOption(param, value)?.label ?? text;
+      } else if (param.type === 'vec2') {
+        text = (value as Vec2).join(', ');
+      } else if (param.type === 'integer' && param.unit) {
+        text = `${value} ${param.unit}`;
+      }
+      return `${param.name}: ${text}`;
+    })
+    .join(' · ');
+}
+
+/**
+ * Ranks which glitch most likely turned a known-good reference into a
+ * broken capture, by fitting every glitch's params to the pair.
+ */
+export class Diagnosis {
+  private container: HTMLElement;
+  private onOpen: (reference: ImageData, recipe: RecipeStep[]) => void;
+  private images: Record<Slot, ImageData | null> = { reference: null, capture: null };
+  private reference: ImageData | null = null;
+  private results: DiagnosisResult[] = [];
+  private runner = new DiagnosisRunner();
+
+  private runBtn!: HTMLButtonElement;
+  private status!: HTMLElement;
+  private resultsList!: HTMLOListElement;
+
+  constructor(containerId: string, onOpen: (reference: ImageData, recipe: RecipeStep[]) => void) {
+    const container = document.getElementById(containerId);
+    if (!container) {
+      throw new Error(`Container ${containerId} not found`);
+    }
+    this.container = container;
+    this.onOpen = onOpen;
+    this.render();
+    this.setupEventListeners();
+  }
+
+  private render(): void {
+    this.container.innerHTML = `
+      <div class="diagnose">
+        <div class="sandbox-header">
+          <h2>Diagnose a Capture</h2>
+          <p>Upload a known-good reference and the broken output; every glitch is fitted to the pair and ranked</p>
+        </div>
+
+        <div class="diagnose-inputs">
+          ${(['reference', 'capture'] as const).map(slot => `
+            <div class="gallery-upload diagnose-slot" data-slot="${slot}">
+              <h3>${slot === 'reference' ? 'Reference (correct)' : 'Capture (broken)'}</h3>
+              <div class="canvas-wrapper"><canvas></canvas></div>
+              <p>Drop an image here or <button class="upload-btn" data-action="browse">browse</button></p>
+            </div>
+          `).join('')}
+        </div>
+
+        <div class="diagnose-actions">
+          <button class="btn btn-primary" id="diagnose-run-btn" disabled>Diagnose</button>
+          <span class="diagnose-status" id="diagnose-status"></span>
+        </div>
+
+        <ol class="diagnose-results" id="diagnose-results"></ol>
+      </div>
+    `;
+
+    this.runBtn = document.getElementById('diagnose-run-btn') as HTMLButtonElement;
+    this.status = document.getElementById('diagnose-status')!;
+    this.resultsList = document.getElementById('diagnose-results') as HTMLOListElement;
+  }
+
+  private setupEventListeners(): void {
+    this.container.querySelectorAll<HTMLElement>('.diagnose-slot').forEach(zone => {
+      const slot = zone.dataset.slot as Slot;
+      const input = createFileInput(file => this.handleFile(slot, file));
+      zone.appendChild(input);
+      setupDropZone(zone, file => this.handleFile(slot, file));
+      zone.querySelector('[data-action="browse"]')!.addEventListener('click', () => input.click());
+    });
+
+    this.runBtn.addEventListener('click', () => this.run());
+
+    this.resultsList.addEventListener('click', (e) => {
+      const link = (e.target as HTMLElement).closest<HTMLElement>('[data-action="open"]');
+      if (!link || !this.reference) return;
+      e.preventDefault();
+      const result = this.results[parseInt(link.dataset.index!, 10)];
+      this.onOpen(this.reference, [this.toStep(result)]);
+    });
+  }
+
+  private async handleFile(slot: Slot, file: File): Promise<void> {
+    try {
+      const imageData = await loadImageDataFromFile(file);
+      this.images[slot] = imageData;
+
+      const zone = this.container.querySelector(`.diagnose-slot[data-slot="${slot}"]`)!;
+      const source = imageDataToCanvas(resizeImageData(imageData, ANALYSIS_SIZE, ANALYSIS_SIZE));
+      const canvas = zone.querySelector('canvas')!;
+      canvas.width = source.width;
+      canvas.height = source.height;
+      canvas.getContext('2d')!.drawImage(source, 0, 0);
+
+      this.runBtn.disabled = !this.images.reference || !this.images.capture;
+    } catch (error) {
+      console.error('Failed to load image:', error);
+      alert('Failed to load image. Please try another file.');
+    }
+  }
+
+  private async run(): Promise<void> {
+    const { reference, capture } = this.images;
+    if (!reference || !capture) return;
+
+    // The capture is brought to the reference's analysis size; glitches keep
+    // dimensions, so a differently sized capture was only scaled on the way
+    const scaledReference = resizeImageData(reference, ANALYSIS_SIZE, ANALYSIS_SIZE);
+    const scaledCapture = scaleImageData(capture, scaledReference.width, scaledReference.height);
+    const note = capture.width * reference.height !== capture.height * reference.width
+      ? 'Aspect ratios differ; the capture was stretched to match. '
+      : '';
+
+    this.runBtn.disabled = true;
+    this.resultsList.innerHTML = '';
+    this.status.textContent = `${note}Fitting glitches...`;
+
+    try {
+      this.results = await this.runner.run(scaledReference, scaledCapture, (done, total) => {
+        this.status.textContent = `${note}Fitting glitches... ${done}/${total}`;
+      });
+      this.reference = scaledReference;
+      this.status.textContent = `${note}Closest matches, best first.`;
+      this.renderResults();
+    } catch (error) {
+      if (error instanceof CancelledError) return;
+      console.error('Diagnosis failed:', error);
+      this.status.textContent = `Diagnosis failed: ${error instanceof Error ? error.message : error}`;
+    } finally {
+      this.runBtn.disabled = false;
+    }
+  }
+
+  private toStep(result: DiagnosisResult): RecipeStep {
+    return { glitch: result.glitch, params: result.params, enabled: true };
+  }
+
+  private renderResults(): void {
+    const shown = this.results.slice(0, MAX_RESULTS).filter(r => Number.isFinite(r.error));
+
+    this.resultsList.innerHTML = shown.map((result, index) => `
+      <li class="diagnose-result">
+        <div class="diagnose-result-thumb"></div>
+        <div class="diagnose-result-info">
+          <div class="diagnose-result-title">
+            <strong>${result.glitch.name}</strong>
+            <span class="diagnose-result-score">${((1 - result.error) * 100).toFixed(1)}% similar</span>
+          </div>
+          <p class="diagnose-result-params">${summarizeParams(result.glitch, result.params) || 'No params'}</p>
+          <a class="btn btn-small btn-secondary" data-action="open" data-index="${index}"
+            href="#sandbox/${formatRecipe([this.toStep(result)])}">Open in Sandbox</a>
+        </div>
+      </li>
+    `).join('');
+
+    this.resultsList.querySelectorAll('.diagnose-result-thumb').forEach((thumb, index) => {
+      thumb.appendChild(imageDataToCanvas(shown[index].output));
+    });
+  }
+}
@@ -1,8 +1,10 @@
-import { glitches, glitchesByCategory } from '../glitches';
-import type { GlitchDefinition, GlitchCategory } from '../glitches';
+import { generateTestPattern, glitches, glitchesByCategory } from '../glitches';
+import type { GlitchDefinition, GlitchCategory, TestPatternId } from '../glitches';
 import { GlitchCard } from './glitch-card';
+import { SymptomWizard } from './symptom-wizard';
+import { ContactSheet } from './contact-sheet';
 import { loadImageDataFromFile, loadImageDataFromURL, setupDropZone, createFileInput } from '../utils/image-loader';
-import { resizeImageData } from '../utils/canvas';
+import { resizeImageData, toImageData } from '../utils/canvas';
 
 const PREVIEW_SIZE = 200;
 const DEFAULT_IMAGE = './costarica.jpg';
@@ -12,7 +14,15 @@ export class Gallery {
   private onGlitchSelect: (glitch: GlitchDefinition) => void;
   private currentFilter: GlitchCategory | 'all' = 'all';
   private imageData: ImageData | null = null;
+  /** When set, each glitch previews on its own recommended test pattern instead. */
+  private usePatterns = false;
+  private patternImages = new Map<TestPatternId, ImageData>();
   private cards: GlitchCard[] = [];
+  /** Set while the symptom wizard is open; restricts the grid to these. */
+  private symptomMatches: GlitchDefinition[] | null = null;
+  private symptomsFinished = false;
+  private symptomWizard!: SymptomWizard;
+  private contactSheet!: ContactSheet;
   private fileInput!: HTMLInputElement;
 
   constructor(containerId: string, onGlitchSelect: (glitch: GlitchDefinition) => void) {
@@ -30,20 +40,7 @@ export class Gallery {
     try {
       let imageData = await loadImageDataFromURL(DEFAULT_IMAGE);
       imageData = resizeImageData(imageData, PREVIEW_SIZE, PREVIEW_SIZE);
-      this.imageData = imageData;
-
-      const preview = document.getElementById('gallery-preview')!;
-      const content = document.querySelector('.gallery-upload-content') as HTMLElement;
-      const canvas = document.getElementById('gallery-preview-canvas') as HTMLCanvasElement;
-
-      canvas.width = imageData.width;
-      canvas.height = imageData.height;
-      canvas.getContext('2d')!.putImageData(imageData, 0, 0);
-
-      preview.style.display = 'flex';
-      content.style.display = 'none';
-
-      this.renderCards();
+      this.showImage(imageData);
     } catch (error) {
       console.log('Default image not loaded, user can upload their own');
     }
@@ -64,10 +61,11 @@ export class Gallery {
               <polyline points="17 8 12 3 7 8"/>
               <line x1="12" y1="3" x2="12" y2="15"/>
             </svg>
-            <p>Drop an image to preview all glitches, or <button class="upload-btn" id="gallery-upload-btn">browse</button></p>
+            <p>Drop an image to preview all glitches, or <button class="upload-btn" id="gallery-upload-btn">browse</button>, or <button class="upload-btn" id="gallery-patterns-btn">use test patterns</button></p>
           </div>
           <div class="gallery-upload-preview" id="gallery-preview" style="display: none;">
             <canvas id="gallery-preview-canvas"></canvas>
+            <p class="gallery-preview-note" id="gallery-preview-note" style="display: none;">Each glitch is shown on the test pattern it shows up best on</p>
             <button class="btn btn-small btn-secondary" id="gallery-clear-btn">Clear</button>
           </div>
         </div>
@@ -77,8 +75,11 @@ export class Gallery {
           <button class="filter-btn" data-filter="pixel-format">Pixel Format</button>
           <button class="filter-btn" data-filter="memory-layout">Memory Layout</button>
           <button class="filter-btn" data-filter="coordinates">Coordinates</button>
+          <button class="filter-btn symptom-btn" id="symptom-wizard-btn">Find by Symptom</button>
         </div>
 
+        <div class="symptom-wizard" id="symptom-wizard" style="display: none;"></div>
+
         <div class="gallery-stats">
           <span class="stat"><strong>${glitches.length}</strong> glitches documented</span>
           <span class="stat"><strong>${glitchesByCategory['pixel-format'].length}</strong> pixel format bugs</span>
@@ -86,13 +87,17 @@ export class Gallery {
           <span class="stat"><strong>${glitchesByCategory['coordinates'].length}</strong> coordinate bugs</span>
         </div>
 
+        <div class="contact-sheet" id="contact-sheet" style="display: none;"></div>
+
         <div class="gallery-grid" id="gallery-grid"></div>
       </div>
     `;
 
+    this.contactSheet = new ContactSheet(document.getElementById('contact-sheet')!, g => this.imageFor(g));
     this.renderCards();
     this.setupFilters();
     this.setupUpload();
+    this.setupSymptomWizard();
   }
 
   private renderCards(): void {
@@ -100,30 +105,72 @@ export class Gallery {
     grid.innerHTML = '';
     this.cards = [];
 
-    const filteredGlitches = this.currentFilter === 'all'
+    const filteredGlitches = this.symptomMatches ?? (this.currentFilter === 'all'
       ? glitches
-      : glitchesByCategory[this.currentFilter];
+      : glitchesByCategory[this.currentFilter]);
 
     for (const glitch of filteredGlitches) {
-      const card = new GlitchCard(glitch, this.onGlitchSelect, this.imageData);
+      const card = new GlitchCard(
+        glitch,
+        this.onGlitchSelect,
+        this.imageFor(glitch),
+        g => this.contactSheet.open(g)
+      );
       this.cards.push(card);
       grid.appendChild(card.getElement());
+      // Once the wizard has narrowed things down, lead with the bug and its fix
+      if (this.symptomsFinished) {
+        card.showDetails();
+      }
     }
   }
 
   private setupFilters(): void {
-    const buttons = this.container.querySelectorAll('.filter-btn');
+    const buttons = this.container.querySelectorAll('.filter-btn[data-filter]');
 
     buttons.forEach(btn => {
       btn.addEventListener('click', () => {
         buttons.forEach(b => b.classList.remove('active'));
         btn.classList.add('active');
         this.currentFilter = btn.getAttribute('data-filter') as GlitchCategory | 'all';
+        // Picking a category leaves symptom mode
+        this.symptomWizard.hide();
+        this.clearSymptoms();
+      });
+    });
+  }
+
+  private setupSymptomWizard(): void {
+    const button = document.getElementById('symptom-wizard-btn')!;
+
+    this.symptomWizard = new SymptomWizard(
+      document.getElementById('symptom-wizard')!,
+      (matches, finished) => {
+        this.symptomMatches = matches;
+        this.symptomsFinished = finished;
         this.renderCards();
+      },
+      () => this.clearSymptoms()
+    );
+
+    button.addEventListener('click', () => {
+      // The wizard narrows down all glitches, so drop any category filter
+      this.container.querySelectorAll('.filter-btn[data-filter]').forEach(b => {
+        b.classList.toggle('active', b.getAttribute('data-filter') === 'all');
       });
+      this.currentFilter = 'all';
+      button.classList.add('active');
+      this.symptomWizard.start();
     });
   }
 
+  private clearSymptoms(): void {
+    document.getElementById('symptom-wizard-btn')!.classList.remove('active');
+    this.symptomMatches = null;
+    this.symptomsFinished = false;
+    this.renderCards();
+  }
+
   private setupUpload(): void {
     const dropZone = document.getElementById('gallery-drop-zone')!;
 
@@ -136,6 +183,10 @@ export class Gallery {
       this.fileInput.click();
     });
 
+    document.getElementById('gallery-patterns-btn')!.addEventListener('click', () => {
+      this.showPatterns();
+    });
+
     document.getElementById('gallery-clear-btn')!.addEventListener('click', () => {
       this.clearImage();
     });
@@ -145,36 +196,60 @@ export class Gallery {
     try {
       let imageData = await loadImageDataFromFile(file);
       imageData = resizeImageData(imageData, PREVIEW_SIZE, PREVIEW_SIZE);
-      this.imageData = imageData;
+      this.showImage(imageData);
+    } catch (error) {
+      console.error('Failed to load image:', error);
+    }
+  }
+
+  /** The preview input for `glitch`: the shared image, or its test pattern in pattern mode. */
+  private imageFor(glitch: GlitchDefinition): ImageData | null {
+    if (!this.usePatterns) return this.imageData;
 
-      // Show preview
-      const preview = document.getElementById('gallery-preview')!;
-      const content = document.querySelector('.gallery-upload-content') as HTMLElement;
-      const canvas = document.getElementById('gallery-preview-canvas') as HTMLCanvasElement;
+    let image = this.patternImages.get(glitch.testPattern);
+    if (!image) {
+      image = toImageData(generateTestPattern(glitch.testPattern, PREVIEW_SIZE, PREVIEW_SIZE));
+      this.patternImages.set(glitch.testPattern, image);
+    }
+    return image;
+  }
 
-      canvas.width = imageData.width;
-      canvas.height = imageData.height;
-      canvas.getContext('2d')!.putImageData(imageData, 0, 0);
+  private showImage(imageData: ImageData): void {
+    this.imageData = imageData;
+    this.usePatterns = false;
 
-      preview.style.display = 'flex';
-      content.style.display = 'none';
+    const canvas = document.getElementById('gallery-preview-canvas') as HTMLCanvasElement;
+    canvas.width = imageData.width;
+    canvas.height = imageData.height;
+    canvas.getContext('2d')!.putImageData(imageData, 0, 0);
+    this.showPreview(true);
+  }
 
-      // Update all cards with the image
-      this.renderCards();
-    } catch (error) {
-      console.error('Failed to load image:', error);
-    }
+  private showPatterns(): void {
+    this.imageData = null;
+    this.usePatterns = true;
+    this.showPreview(true);
   }
 
   private clearImage(): void {
     this.imageData = null;
+    this.usePatterns = false;
+    this.showPreview(false);
+  }
 
+  /** Swaps the drop prompt for the current input, then re-renders everything that uses it. */
+  private showPreview(visible: boolean): void {
     const preview = document.getElementById('gallery-preview')!;
     const content = document.querySelector('.gallery-upload-content') as HTMLElement;
+    const canvas = document.getElementById('gallery-preview-canvas') as HTMLCanvasElement;
+    const note = document.getElementById('gallery-preview-note')!;
 
-    preview.style.display = 'none';
-    content.style.display = 'flex';
+    preview.style.display = visible ? 'flex' : 'none';
+    content.style.display = visible ? 'none' : 'flex';
+    canvas.style.display = this.usePatterns ? 'none' : '';
+    note.style.display = this.usePatterns ? '' : 'none';
 
     this.renderCards();
+    this.contactSheet.refresh();
   }
 }
@@ -1,20 +1,25 @@
-import type { GlitchDefinition, GlitchParams } from '../glitches';
+import { getDefaultParams, isGridParam } from '../glitches';
+import type { GlitchDefinition } from '../glitches';
 import { imageDataToCanvas } from '../utils/canvas';
+import { getGlitchRunner } from '../workers/glitch-pool';
 
 export class GlitchCard {
   private glitch: GlitchDefinition;
   private element: HTMLElement;
   private onSelect: (glitch: GlitchDefinition) => void;
   private imageData: ImageData | null;
+  private onShowGrid: ((glitch: GlitchDefinition) => void) | null;
 
   constructor(
     glitch: GlitchDefinition,
     onSelect: (glitch: GlitchDefinition) => void,
-    imageData: ImageData | null = null
+    imageData: ImageData | null = null,
+    onShowGrid: ((glitch: GlitchDefinition) => void) | null = null
   ) {
     this.glitch = glitch;
     this.onSelect = onSelect;
     this.imageData = imageData;
+    this.onShowGrid = onShowGrid;
     this.element = this.createElement();
   }
 
@@ -29,6 +34,8 @@ export class GlitchCard {
 
     const categoryLabel = this.getCategoryLabel(this.glitch.category);
     const previewHtml = this.imageData ? this.createPreviewHtml() : '';
+    // Defaults are all the card shows; the grid shows the params at work
+    const hasGrid = this.onShowGrid !== null && this.glitch.params.some(isGridParam);
 
     card.innerHTML = `
       ${previewHtml}
@@ -40,6 +47,7 @@ export class GlitchCard {
       <div class="glitch-card-footer">
         <button class="btn btn-small btn-primary try-btn">Try It</button>
         <button class="btn btn-small btn-secondary details-btn">Details</button>
+        ${hasGrid ? '<button class="btn btn-small btn-secondary grid-btn">Param Grid</button>' : ''}
       </div>
       <div class="glitch-card-details" style="display: none;">
         <div class="details-content">
@@ -69,6 +77,11 @@ export class GlitchCard {
       this.toggleDetails();
     });
 
+    card.querySelector('.grid-btn')?.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.onShowGrid?.(this.glitch);
+    });
+
     return card;
   }
 
@@ -89,7 +102,7 @@ export class GlitchCard {
     `;
   }
 
-  private renderPreview(card: HTMLElement): void {
+  private async renderPreview(card: HTMLElement): Promise<void> {
     if (!this.imageData) return;
 
     const originalCanvas = card.querySelector('.original-canvas') as HTMLCanvasElement;
@@ -101,13 +114,12 @@ export class GlitchCard {
     originalCanvas.getContext('2d')!.putImageData(this.imageData, 0, 0);
 
     // Apply glitch with default params
-    const defaultParams: GlitchParams = {};
-    for (const param of this.glitch.params) {
-      defaultParams[param.name] = param.default;
-    }
+    const defaultParams = getDefaultParams(this.glitch);
 
     try {
-      const glitchedData = this.glitch.apply(this.imageData, defaultParams);
+      const glitchedData = await getGlitchRunner().run(this.imageData, [
+        { glitch: this.glitch, params: defaultParams, enabled: true },
+      ]);
       const glitchedSource = imageDataToCanvas(glitchedData);
 
       glitchedCanvas.width = glitchedData.width;
@@ -144,18 +156,21 @@ export class GlitchCard {
   }
 
   private toggleDetails(): void {
+    const details = this.element.querySelector('.glitch-card-details') as HTMLElement;
+    this.setDetailsVisible(details.style.display === 'none');
+  }
+
+  private setDetailsVisible(visible: boolean): void {
     const details = this.element.querySelector('.glitch-card-details') as HTMLElement;
     const btn = this.element.querySelector('.details-btn') as HTMLButtonElement;
 
-    if (details.style.display === 'none') {
-      details.style.display = 'block';
-      btn.textContent = 'Hide';
-      this.element.classList.add('expanded');
-    } else {
-      details.style.display = 'none';
-      btn.textContent = 'Details';
-      this.element.classList.remove('expanded');
-    }
+    details.style.display = visible ? 'block' : 'none';
+    btn.textContent = visible ? 'Hide' : 'Details';
+    this.element.classList.toggle('expanded', visible);
+  }
+
+  public showDetails(): void {
+    this.setDetailsVisible(true);
   }
 
   public getElement(): HTMLElement {
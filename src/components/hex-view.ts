@@ -0,0 +1,168 @@
+/** Screen size of one byte; the scroll maths depends on it, so the CSS reads it from here. */
+const CELL_WIDTH = 22;
+const ROW_HEIGHT = 18;
+/** Rows and columns rendered beyond the visible area, so small scrolls don't flash. */
+const OVERSCAN = 2;
+
+/** One way of cutting the buffer into rows. */
+export interface HexLayout {
+  title: string;
+  stride: number;
+  /** Bytes at the start of each row that hold pixels; the rest of the stride is shaded as padding. */
+  rowBytes: number;
+  /** Pixels are outlined in groups of this many bytes; 0 draws no groups. */
+  pixelBytes: number;
+}
+
+/** Bytes to mark: where the hovered pixel really lives and where the buggy read fetched it from. */
+export interface HexHighlight {
+  expected: readonly number[];
+  read: readonly number[];
+}
+
+interface HexPane {
+  layout: HexLayout;
+  rows: number;
+  columns: number;
+  scroller: HTMLElement;
+  body: HTMLElement;
+  gutter: HTMLElement;
+}
+
+function toHex(value: number): string {
+  return value.toString(16).padStart(2, '0');
+}
+
+/**
+ * A hex dump of a byte buffer in several panes, each cutting it into rows at
+ * a different stride, e.g. the true one and the one a buggy reader assumes.
+ * Buffers run to megabytes, so only the visible rows and columns are drawn.
+ */
+export class HexView {
+  private container: HTMLElement;
+  private bytes: Uint8ClampedArray = new Uint8ClampedArray(0);
+  private panes: HexPane[] = [];
+  private expected = new Set<number>();
+  private read = new Set<number>();
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+    this.container.style.setProperty('--hex-cell-width', `${CELL_WIDTH}px`);
+    this.container.style.setProperty('--hex-row-height', `${ROW_HEIGHT}px`);
+  }
+
+  /** Shows `bytes` cut up by each layout. Unchanged input keeps the scroll positions. */
+  setBytes(bytes: Uint8ClampedArray, layouts: readonly HexLayout[]): void {
+    const unchanged = bytes === this.bytes &&
+      layouts.length === this.panes.length &&
+      layouts.every((layout, i) => JSON.stringify(layout) === JSON.stringify(this.panes[i].layout));
+    if (unchanged) return;
+
+    this.bytes = bytes;
+    this.container.innerHTML = `
+      <div class="hex-header">
+        <h3>Memory</h3>
+        <ul class="hex-legend">
+          <li><span class="hex-byte hex-expected">00</span> where the hovered pixel's bytes are</li>
+          <li><span class="hex-byte hex-read">00</span> what the buggy read fetched</li>
+          <li><span class="hex-byte hex-padding">00</span> skipped as padding</li>
+        </ul>
+      </div>
+      <div class="hex-panes"></div>
+    `;
+    const panesElement = this.container.querySelector('.hex-panes')!;
+
+    this.panes = layouts.filter(layout => layout.stride > 0).map(layout => {
+      const element = document.createElement('div');
+      element.className = 'hex-pane';
+      element.innerHTML = `
+        <h4></h4>
+        <div class="hex-frame">
+          <div class="hex-gutter"></div>
+          <div class="hex-scroller"><div class="hex-spacer"><div class="hex-body"></div></div></div>
+        </div>
+      `;
+      element.querySelector('h4')!.textContent = layout.title;
+      panesElement.appendChild(element);
+
+      const pane: HexPane = {
+        layout,
+        rows: Math.ceil(bytes.length / layout.stride),
+        columns: Math.max(layout.stride, layout.rowBytes),
+        scroller: element.querySelector('.hex-scroller')!,
+        body: element.querySelector('.hex-body')!,
+        gutter: element.querySelector('.hex-gutter')!,
+      };
+      const spacer = element.querySelector<HTMLElement>('.hex-spacer')!;
+      spacer.style.width = `${pane.columns * CELL_WIDTH}px`;
+      spacer.style.height = `${pane.rows * ROW_HEIGHT}px`;
+      pane.scroller.addEventListener('scroll', () => this.renderPane(pane));
+      return pane;
+    });
+
+    for (const pane of this.panes) {
+      this.renderPane(pane);
+    }
+  }
+
+  /** Marks bytes and scrolls each pane to them, or clears the marks. */
+  highlight(highlight: HexHighlight | null): void {
+    this.expected = new Set(highlight?.expected ?? []);
+    this.read = new Set(highlight?.read ?? []);
+    const target = highlight?.read[0] ?? highlight?.expected[0];
+
+    for (const pane of this.panes) {
+      if (target !== undefined) {
+        this.scrollTo(pane, target);
+      }
+      this.renderPane(pane);
+    }
+  }
+
+  /** Brings the byte at `offset` into view unless it already is. */
+  private scrollTo(pane: HexPane, offset: number): void {
+    const { scroller, layout } = pane;
+    const row = Math.floor(offset / layout.stride);
+    const column = offset - row * layout.stride;
+    const top = row * ROW_HEIGHT;
+    const left = column * CELL_WIDTH;
+
+    if (top < scroller.scrollTop || top + ROW_HEIGHT > scroller.scrollTop + scroller.clientHeight) {
+      scroller.scrollTop = top - scroller.clientHeight / 2;
+    }
+    if (left < scroller.scrollLeft || left + CELL_WIDTH * 4 > scroller.scrollLeft + scroller.clientWidth) {
+      scroller.scrollLeft = left - scroller.clientWidth / 2;
+    }
+  }
+
+  private renderPane(pane: HexPane): void {
+    const { scroller, body, gutter, layout } = pane;
+    const firstRow = Math.max(0, Math.floor(scroller.scrollTop / ROW_HEIGHT) - OVERSCAN);
+    const lastRow = Math.min(pane.rows, Math.ceil((scroller.scrollTop + scroller.clientHeight) / ROW_HEIGHT) + OVERSCAN);
+    const firstColumn = Math.max(0, Math.floor(scroller.scrollLeft / CELL_WIDTH) - OVERSCAN);
+    const lastColumn = Math.min(pane.columns, Math.ceil((scroller.scrollLeft + scroller.clientWidth) / CELL_WIDTH) + OVERSCAN);
+
+    let rows = '';
+    let addresses = '';
+    for (let row = firstRow; row < lastRow; row++) {
+      const rowStart = row * layout.stride;
+      addresses += `<div>${rowStart}</div>`;
+      rows += '<div class="hex-row">';
+      for (let column = firstColumn; column < lastColumn; column++) {
+        const offset = rowStart + column;
+        if (offset >= this.bytes.length) break;
+        const classes = ['hex-byte'];
+        if (column >= layout.rowBytes) classes.push('hex-padding');
+        if (layout.pixelBytes > 0 && column < layout.rowBytes && column % layout.pixelBytes === 0) classes.push('hex-pixel-start');
+        if (this.expected.has(offset)) classes.push('hex-expected');
+        if (this.read.has(offset)) classes.push('hex-read');
+        rows += `<span class="${classes.join(' ')}" title="Byte ${offset}">${toHex(this.bytes[offset])}</span>`;
+      }
+      rows += '</div>';
+    }
+
+    body.style.transform = `translate(${firstColumn * CELL_WIDTH}px, ${firstRow * ROW_HEIGHT}px)`;
+    body.innerHTML = rows;
+    gutter.innerHTML = `<div style="transform: translateY(${firstRow * ROW_HEIGHT - scroller.scrollTop}px)">${addresses}</div>`;
+  }
+}
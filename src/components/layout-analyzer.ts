@@ -0,0 +1,125 @@
+import { analyzeRawLayout, decodeRaw, rawFormatById } from '../raw';
+import type { LayoutAnalysis, RawLayout } from '../raw';
+import { imageDataToCanvas, toImageData } from '../utils/canvas';
+
+const MAX_PREVIEW_ROWS = 4096;
+
+/**
+ * Shows the analyzer's ranked layout guesses for a byte buffer, with a
+ * corrected preview of whichever candidate is selected.
+ */
+export class LayoutAnalyzer {
+  private container: HTMLElement;
+  private onOpen: (bytes: Uint8Array, layout: RawLayout) => void;
+  private bytes: Uint8Array = new Uint8Array(0);
+  private analysis: LayoutAnalysis | null = null;
+  private selected = 0;
+
+  constructor(container: HTMLElement, onOpen: (bytes: Uint8Array, layout: RawLayout) => void) {
+    this.container = container;
+    this.onOpen = onOpen;
+    this.render();
+    this.setupEventListeners();
+  }
+
+  /** Analyzes `bytes` and shows the results; `source` says where they came from. */
+  analyze(bytes: Uint8Array, source: string): void {
+    this.bytes = bytes;
+    this.container.style.display = 'block';
+    this.container.querySelector('.layout-source')!.textContent = source;
+    this.setStatus('Analyzing...');
+
+    // Let the status paint before the (synchronous) search blocks the thread
+    setTimeout(() => {
+      this.analysis = analyzeRawLayout(bytes);
+      this.selected = 0;
+      this.renderResults();
+    }, 0);
+  }
+
+  hide(): void {
+    this.container.style.display = 'none';
+  }
+
+  private render(): void {
+    this.container.innerHTML = `
+      <div class="layout-analysis-header">
+        <h3>Layout Analysis</h3>
+        <span class="layout-source"></span>
+        <button class="btn btn-small btn-secondary" data-action="close">Close</button>
+      </div>
+      <p class="layout-status"></p>
+      <div class="layout-analysis-body">
+        <ol class="layout-candidates"></ol>
+        <div class="layout-preview">
+          <div class="canvas-wrapper"><canvas></canvas></div>
+          <button class="btn btn-small btn-primary" data-action="open">Open in Raw Importer</button>
+        </div>
+      </div>
+    `;
+  }
+
+  private setupEventListeners(): void {
+    this.container.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      const action = target.closest<HTMLElement>('[data-action]')?.dataset.action;
+
+      if (action === 'close') {
+        this.hide();
+      } else if (action === 'open') {
+        const candidate = this.analysis?.candidates[this.selected];
+        if (candidate) {
+          this.onOpen(this.bytes, candidate.layout);
+        }
+      } else {
+        const item = target.closest<HTMLElement>('.layout-candidate');
+        if (item) {
+          this.selected = parseInt(item.dataset.index!, 10);
+          this.renderResults();
+        }
+      }
+    });
+  }
+
+  private setStatus(text: string): void {
+    this.container.querySelector('.layout-status')!.textContent = text;
+  }
+
+  private renderResults(): void {
+    const list = this.container.querySelector('.layout-candidates')!;
+    const preview = this.container.querySelector('.layout-preview') as HTMLElement;
+    const analysis = this.analysis;
+
+    if (!analysis || analysis.candidates.length === 0) {
+      this.setStatus('Buffer is too small to analyze.');
+      list.innerHTML = '';
+      preview.style.display = 'none';
+      return;
+    }
+
+    this.setStatus(`Confidence ${Math.round(analysis.confidence * 100)}%` +
+      (analysis.confidence < 0.5 ? ' - the buffer may not be an image, or is compressed' : '') +
+      (analysis.channelOrderKnown ? '' : '. Red/blue order is a guess: try the BGR candidate too.'));
+
+    list.innerHTML = analysis.candidates.map((candidate, index) => {
+      const { layout, score } = candidate;
+      const format = rawFormatById.get(layout.format)!;
+      return `
+        <li class="layout-candidate${index === this.selected ? ' selected' : ''}" data-index="${index}">
+          <span class="layout-candidate-format">${format.label}</span>
+          <span>${layout.width} px wide, stride ${layout.stride}, offset ${layout.offset}</span>
+          <span class="layout-candidate-score">score ${score.toFixed(3)}</span>
+        </li>
+      `;
+    }).join('');
+
+    const layout = analysis.candidates[this.selected].layout;
+    const corrected = decodeRaw(this.bytes, { ...layout, height: Math.min(layout.height, MAX_PREVIEW_ROWS) });
+    const source = imageDataToCanvas(toImageData(corrected));
+    const canvas = preview.querySelector('canvas')!;
+    canvas.width = source.width;
+    canvas.height = source.height;
+    canvas.getContext('2d')!.drawImage(source, 0, 0);
+    preview.style.display = 'flex';
+  }
+}
@@ -0,0 +1,110 @@
+import { generateTestPattern, getDefaultParams, testPatternById, testPatterns } from '../glitches';
+import type { GlitchDefinition, GlitchParams, TestPattern, TestPatternId } from '../glitches';
+import { toImageData } from '../utils/canvas';
+
+const SIZES = [256, 512, 800] as const;
+const DEFAULT_SIZE = 512;
+
+/**
+ * Picks and tunes a synthetic test pattern to use as the source image, and
+ * points at the one the selected glitch shows up best on.
+ */
+export class PatternPicker {
+  private container: HTMLElement;
+  private onUse: (imageData: ImageData) => void;
+  private patternSelect!: HTMLSelectElement;
+  private sizeSelect!: HTMLSelectElement;
+  private paramsContainer!: HTMLElement;
+  private description!: HTMLElement;
+  private params: GlitchParams = {};
+  private recommendedFor: GlitchDefinition | null = null;
+
+  constructor(container: HTMLElement, onUse: (imageData: ImageData) => void) {
+    this.container = container;
+    this.onUse = onUse;
+    this.render();
+    this.setupEventListeners();
+    this.selectPattern(testPatterns[0].id);
+  }
+
+  /** Selects `glitch`'s recommended pattern and says so; null drops the recommendation. */
+  recommend(glitch: GlitchDefinition | null): void {
+    this.recommendedFor = glitch;
+    for (const option of this.patternSelect.options) {
+      const pattern = testPatternById.get(option.value as TestPatternId)!;
+      option.textContent = glitch?.testPattern === pattern.id ? `${pattern.name} (recommended)` : pattern.name;
+    }
+    if (glitch && glitch.testPattern !== this.patternSelect.value) {
+      this.selectPattern(glitch.testPattern);
+    } else {
+      this.renderDescription();
+    }
+  }
+
+  private get pattern(): TestPattern {
+    return testPatternById.get(this.patternSelect.value as TestPatternId)!;
+  }
+
+  private render(): void {
+    this.container.innerHTML = `
+      <div class="pattern-picker-row">
+        <label>
+          Test pattern
+          <select class="pattern-select">
+            ${testPatterns.map(p => `<option value="${p.id}">${p.name}</option>`).join('')}
+          </select>
+        </label>
+        <div class="pattern-params"></div>
+        <label>
+          Size
+          <select class="pattern-size">
+            ${SIZES.map(size => `<option value="${size}"${size === DEFAULT_SIZE ? ' selected' : ''}>${size} px</option>`).join('')}
+          </select>
+        </label>
+        <button class="btn btn-small btn-secondary" data-action="use">Use Pattern</button>
+      </div>
+      <p class="pattern-description"></p>
+    `;
+    this.patternSelect = this.container.querySelector('.pattern-select')!;
+    this.sizeSelect = this.container.querySelector('.pattern-size')!;
+    this.paramsContainer = this.container.querySelector('.pattern-params')!;
+    this.description = this.container.querySelector('.pattern-description')!;
+  }
+
+  private setupEventListeners(): void {
+    this.patternSelect.addEventListener('change', () => this.selectPattern(this.patternSelect.value as TestPatternId));
+
+    this.paramsContainer.addEventListener('change', (e) => {
+      const input = e.target as HTMLInputElement;
+      const name = input.dataset.param;
+      if (name) this.params[name] = parseInt(input.value, 10);
+    });
+
+    this.container.querySelector('[data-action="use"]')!.addEventListener('click', () => {
+      const size = parseInt(this.sizeSelect.value, 10);
+      this.onUse(toImageData(generateTestPattern(this.pattern.id, size, size, this.params)));
+    });
+  }
+
+  private selectPattern(id: TestPatternId): void {
+    this.patternSelect.value = id;
+    this.params = getDefaultParams(this.pattern);
+    this.paramsContainer.innerHTML = this.pattern.params.map(param => `
+      <label title="${param.description}">
+        ${param.name}${param.unit ? ` (${param.unit})` : ''}
+        <input type="number" data-param="${param.name}" min="${param.min}" max="${param.max}" step="${param.step ?? 1}" value="${param.default}" />
+      </label>
+    `).join('');
+    this.renderDescription();
+  }
+
+  private renderDescription(): void {
+    const glitch = this.recommendedFor;
+    const note = glitch
+      ? glitch.testPattern === this.pattern.id
+        ? ` Recommended for ${glitch.name}.`
+        : ` ${glitch.name} shows up best on ${testPatternById.get(glitch.testPattern)!.name}.`
+      : '';
+    this.description.textContent = this.pattern.description + note;
+  }
+}
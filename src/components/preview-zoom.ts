@@ -0,0 +1,253 @@
+/** Grid lines appear once an image pixel covers this many screen pixels. */
+const GRID_MIN_PIXEL_SIZE = 8;
+/** Zooming in stops when an image pixel covers this many screen pixels. */
+const MAX_PIXEL_SIZE = 64;
+const WHEEL_ZOOM_SPEED = 0.002;
+
+export interface PixelPoint {
+  x: number;
+  y: number;
+}
+
+/** Called with the image pixel under the pointer, or null once it leaves the image. */
+export type PixelHoverHandler = (pixel: PixelPoint | null) => void;
+
+interface Pane {
+  wrapper: HTMLElement;
+  canvas: HTMLCanvasElement;
+  grid: HTMLCanvasElement;
+}
+
+/** Where a pane's canvas sits at fit size, and the translation that centres the view. */
+interface PaneLayout {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+  translateX: number;
+  translateY: number;
+  /** Screen pixels per image pixel at the current zoom. */
+  pixelSize: number;
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+/**
+ * Wheel zoom and drag pan shared by several preview canvases, so the same
+ * image pixel stays under the cursor in every pane. Zoomed canvases are
+ * magnified nearest-neighbour, and a pixel grid is drawn once pixels are big
+ * enough to tell apart. Double-click returns to fit size.
+ */
+export class PreviewZoom {
+  private panes: Pane[];
+  private status: HTMLElement;
+  /** 1 shows the whole image; each pane scales from its own fit size. */
+  private zoom = 1;
+  /** The image point at the centre of every pane, as fractions of its size. */
+  private centerX = 0.5;
+  private centerY = 0.5;
+  private drag: { pane: Pane; x: number; y: number } | null = null;
+  private onHover: PixelHoverHandler | null;
+  /** Pixels to outline, per pane in constructor order. */
+  private highlights: readonly (readonly PixelPoint[])[] = [];
+
+  constructor(wrappers: HTMLElement[], status: HTMLElement, onHover?: PixelHoverHandler) {
+    this.status = status;
+    this.onHover = onHover ?? null;
+    this.panes = wrappers.map(wrapper => {
+      const grid = document.createElement('canvas');
+      grid.className = 'pixel-grid';
+      wrapper.classList.add('zoomable');
+      wrapper.appendChild(grid);
+      return { wrapper, canvas: wrapper.querySelector('canvas')!, grid };
+    });
+    this.setupEventListeners();
+  }
+
+  /** Back to fit size, e.g. for a new image. */
+  reset(): void {
+    this.zoom = 1;
+    this.centerX = 0.5;
+    this.centerY = 0.5;
+    this.update();
+  }
+
+  /**
+   * Outlines pixels in each pane, e.g. the hovered pixel and where it was
+   * read from; `pixels[i]` belongs to the i-th wrapper.
+   */
+  setHighlights(pixels: readonly (readonly PixelPoint[])[]): void {
+    this.highlights = pixels;
+    for (const [i, pane] of this.panes.entries()) {
+      this.drawOverlay(pane, this.layoutOf(pane), i);
+    }
+  }
+
+  /** Re-applies the view, e.g. after a canvas was redrawn or a pane shown. */
+  update(): void {
+    this.clampCenter();
+    for (const [i, pane] of this.panes.entries()) {
+      const layout = this.layoutOf(pane);
+      pane.wrapper.classList.toggle('zoomed', this.zoom > 1);
+      pane.canvas.style.transform = this.zoom > 1
+        ? `translate(${layout.translateX}px, ${layout.translateY}px) scale(${this.zoom})`
+        : '';
+      this.drawOverlay(pane, layout, i);
+    }
+
+    const pixelSize = this.panes.map(p => this.layoutOf(p).pixelSize).find(size => size > 0) ?? 0;
+    this.status.textContent = this.zoom > 1
+      ? `Zoom ${Math.round(this.zoom * 100)}%, 1 pixel = ${pixelSize.toFixed(1)} screen pixels${pixelSize >= GRID_MIN_PIXEL_SIZE ? ', grid on' : ''}. Double-click to fit.`
+      : 'Scroll over an image to zoom, drag to pan; every pane follows.';
+  }
+
+  private setupEventListeners(): void {
+    for (const pane of this.panes) {
+      pane.wrapper.addEventListener('wheel', (e) => {
+        e.preventDefault();
+        this.zoomAt(pane, e.clientX, e.clientY, Math.exp(-e.deltaY * WHEEL_ZOOM_SPEED));
+      }, { passive: false });
+
+      pane.wrapper.addEventListener('pointerdown', (e) => {
+        if (this.zoom === 1 || e.button !== 0) return;
+        this.drag = { pane, x: e.clientX, y: e.clientY };
+        pane.wrapper.setPointerCapture(e.pointerId);
+        pane.wrapper.classList.add('panning');
+      });
+
+      pane.wrapper.addEventListener('pointermove', (e) => {
+        this.onHover?.(this.pixelAt(pane, e.clientX, e.clientY));
+        if (this.drag?.pane !== pane) return;
+        const layout = this.layoutOf(pane);
+        this.centerX -= (e.clientX - this.drag.x) / (this.zoom * layout.width);
+        this.centerY -= (e.clientY - this.drag.y) / (this.zoom * layout.height);
+        this.drag.x = e.clientX;
+        this.drag.y = e.clientY;
+        this.update();
+      });
+
+      const endDrag = () => {
+        this.drag = null;
+        pane.wrapper.classList.remove('panning');
+      };
+      pane.wrapper.addEventListener('pointerup', endDrag);
+      pane.wrapper.addEventListener('pointercancel', endDrag);
+      pane.wrapper.addEventListener('pointerleave', () => this.onHover?.(null));
+
+      pane.wrapper.addEventListener('dblclick', () => this.reset());
+    }
+
+    window.addEventListener('resize', () => this.update());
+  }
+
+  /** Scales by `factor`, keeping the image point under the cursor in place. */
+  private zoomAt(pane: Pane, clientX: number, clientY: number, factor: number): void {
+    const layout = this.layoutOf(pane);
+    if (layout.width === 0 || layout.height === 0) return;
+
+    const rect = pane.wrapper.getBoundingClientRect();
+    const x = clientX - rect.left - pane.wrapper.clientLeft - layout.left;
+    const y = clientY - rect.top - pane.wrapper.clientTop - layout.top;
+    const u = (x - layout.translateX) / (this.zoom * layout.width);
+    const v = (y - layout.translateY) / (this.zoom * layout.height);
+
+    const maxZoom = Math.max(1, MAX_PIXEL_SIZE * pane.canvas.width / layout.width);
+    this.zoom = clamp(this.zoom * factor, 1, maxZoom);
+    this.centerX = u - (x - layout.width / 2) / (this.zoom * layout.width);
+    this.centerY = v - (y - layout.height / 2) / (this.zoom * layout.height);
+    this.update();
+  }
+
+  /** The image pixel under a client position, or null outside the image. */
+  private pixelAt(pane: Pane, clientX: number, clientY: number): PixelPoint | null {
+    const layout = this.layoutOf(pane);
+    if (layout.width === 0 || layout.height === 0) return null;
+
+    const rect = pane.wrapper.getBoundingClientRect();
+    const u = (clientX - rect.left - pane.wrapper.clientLeft - layout.left - layout.translateX) / (this.zoom * layout.width);
+    const v = (clientY - rect.top - pane.wrapper.clientTop - layout.top - layout.translateY) / (this.zoom * layout.height);
+    if (u < 0 || u >= 1 || v < 0 || v >= 1) return null;
+    return { x: Math.floor(u * pane.canvas.width), y: Math.floor(v * pane.canvas.height) };
+  }
+
+  /** Keeps the view inside the image. */
+  private clampCenter(): void {
+    const half = 0.5 / this.zoom;
+    this.centerX = clamp(this.centerX, half, 1 - half);
+    this.centerY = clamp(this.centerY, half, 1 - half);
+  }
+
+  private layoutOf(pane: Pane): PaneLayout {
+    // Layout sizes ignore transforms, so this is always the fit size
+    const width = pane.canvas.clientWidth;
+    const height = pane.canvas.clientHeight;
+    return {
+      left: pane.canvas.offsetLeft,
+      top: pane.canvas.offsetTop,
+      width,
+      height,
+      translateX: width * (0.5 - this.zoom * this.centerX),
+      translateY: height * (0.5 - this.zoom * this.centerY),
+      pixelSize: pane.canvas.width > 0 ? this.zoom * width / pane.canvas.width : 0,
+    };
+  }
+
+  /** Redraws the grid and highlight outlines over a pane. */
+  private drawOverlay(pane: Pane, layout: PaneLayout, index: number): void {
+    const { grid, canvas } = pane;
+    const ratio = window.devicePixelRatio || 1;
+    grid.width = Math.round(pane.wrapper.clientWidth * ratio);
+    grid.height = Math.round(pane.wrapper.clientHeight * ratio);
+    if (canvas.width === 0 || canvas.height === 0) return;
+
+    const ctx = grid.getContext('2d')!;
+    ctx.scale(ratio, ratio);
+    const originX = layout.left + layout.translateX;
+    const originY = layout.top + layout.translateY;
+    const pixelHeight = this.zoom * layout.height / canvas.height;
+
+    if (layout.pixelSize >= GRID_MIN_PIXEL_SIZE) {
+      this.drawGrid(ctx, pane, layout, ratio);
+    }
+
+    // At least a few screen pixels across, so single pixels stay findable at fit size
+    ctx.strokeStyle = '#ff6b9d';
+    ctx.lineWidth = 2;
+    const markWidth = Math.max(layout.pixelSize, 4);
+    const markHeight = Math.max(pixelHeight, 4);
+    for (const { x, y } of this.highlights[index] ?? []) {
+      const centerX = originX + (x + 0.5) * layout.pixelSize;
+      const centerY = originY + (y + 0.5) * pixelHeight;
+      ctx.strokeRect(centerX - markWidth / 2 - 1, centerY - markHeight / 2 - 1, markWidth + 2, markHeight + 2);
+    }
+  }
+
+  private drawGrid(ctx: CanvasRenderingContext2D, pane: Pane, layout: PaneLayout, ratio: number): void {
+    const { canvas } = pane;
+    ctx.strokeStyle = 'rgba(128, 128, 128, 0.6)';
+    ctx.lineWidth = 1 / ratio;
+
+    const originX = layout.left + layout.translateX;
+    const originY = layout.top + layout.translateY;
+    const pixelHeight = this.zoom * layout.height / canvas.height;
+    const firstX = Math.max(0, Math.floor(-originX / layout.pixelSize));
+    const lastX = Math.min(canvas.width, Math.ceil((pane.wrapper.clientWidth - originX) / layout.pixelSize));
+    const firstY = Math.max(0, Math.floor(-originY / pixelHeight));
+    const lastY = Math.min(canvas.height, Math.ceil((pane.wrapper.clientHeight - originY) / pixelHeight));
+
+    ctx.beginPath();
+    for (let i = firstX; i <= lastX; i++) {
+      const x = Math.round(originX + i * layout.pixelSize) + 0.5 / ratio;
+      ctx.moveTo(x, originY + firstY * pixelHeight);
+      ctx.lineTo(x, originY + lastY * pixelHeight);
+    }
+    for (let j = firstY; j <= lastY; j++) {
+      const y = Math.round(originY + j * pixelHeight) + 0.5 / ratio;
+      ctx.moveTo(originX + firstX * layout.pixelSize, y);
+      ctx.lineTo(originX + lastX * layout.pixelSize, y);
+    }
+    ctx.stroke();
+  }
+}
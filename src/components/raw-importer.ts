@@ -0,0 +1,220 @@
+import {
+  RAW_FORMATS,
+  RAW_TILINGS,
+  rawFormatById,
+  decodeRaw,
+  effectiveStride,
+  fitHeight,
+  frameByteLength,
+} from '../raw';
+import type { RawFormatId, RawLayout, RawTiling } from '../raw';
+import { toImageData } from '../utils/canvas';
+
+const MAX_RAW_DIMENSION = 8192;
+
+/**
+ * Interprets an arbitrary binary file as pixels. Every field change
+ * re-decodes the bytes and hands the result to `onDecode`.
+ */
+export class RawImporter {
+  private container: HTMLElement;
+  private onDecode: (imageData: ImageData) => void;
+  private bytes: Uint8Array = new Uint8Array(0);
+  private layout: RawLayout = {
+    width: 256,
+    height: 256,
+    offset: 0,
+    stride: 0,
+    format: 'rgba8',
+    littleEndian: true,
+    tiling: 'linear',
+  };
+  /** A sidecar that arrived before its .bin; applied to the next load. */
+  private sidecarLayout: RawLayout | null = null;
+  private pendingFrame: number | null = null;
+
+  constructor(container: HTMLElement, onDecode: (imageData: ImageData) => void) {
+    this.container = container;
+    this.onDecode = onDecode;
+    this.render();
+    this.setupEventListeners();
+  }
+
+  /**
+   * Starts interpreting a new file. Uses `layout` if given, then a pending
+   * sidecar layout if one was loaded first, otherwise guesses a square
+   * RGBA8 layout.
+   */
+  load(bytes: Uint8Array, fileName: string, layout: RawLayout | null = null): void {
+    this.bytes = bytes;
+    this.container.querySelector('.raw-file-name')!.textContent =
+      `${fileName} (${bytes.byteLength.toLocaleString()} bytes)`;
+    this.show();
+
+    if (layout) {
+      this.layout = { ...layout };
+    } else if (this.sidecarLayout) {
+      this.layout = this.sidecarLayout;
+      this.sidecarLayout = null;
+    } else {
+      this.guessLayout();
+    }
+    this.syncFields();
+    this.decode();
+  }
+
+  /**
+   * Applies a sidecar's layout. If no buffer is loaded yet it waits for one,
+   * so the .bin and .json of a pair can arrive in either order.
+   */
+  setLayout(layout: RawLayout): void {
+    if (this.bytes.byteLength === 0) {
+      this.sidecarLayout = layout;
+      return;
+    }
+    this.layout = layout;
+    this.syncFields();
+    this.decode();
+  }
+
+  private guessLayout(): void {
+    const bytes = this.bytes;
+    const side = Math.max(1, Math.floor(Math.sqrt(bytes.byteLength / 4)));
+    this.layout = {
+      ...this.layout,
+      width: Math.min(side, MAX_RAW_DIMENSION),
+      offset: 0,
+      stride: 0,
+      format: 'rgba8',
+      tiling: 'linear',
+    };
+    this.layout.height = Math.min(Math.max(1, fitHeight(bytes.byteLength, this.layout)), MAX_RAW_DIMENSION);
+  }
+
+  getBytes(): Uint8Array {
+    return this.bytes;
+  }
+
+  getLayout(): RawLayout {
+    return { ...this.layout };
+  }
+
+  show(): void {
+    this.container.style.display = 'block';
+  }
+
+  hide(): void {
+    this.container.style.display = 'none';
+  }
+
+  private render(): void {
+    this.container.innerHTML = `
+      <div class="raw-importer-header">
+        <h3>Raw Buffer</h3>
+        <span class="raw-file-name"></span>
+      </div>
+      <div class="raw-fields">
+        <label>Width <input type="number" data-field="width" min="1" max="${MAX_RAW_DIMENSION}" step="1"></label>
+        <label>Height <input type="number" data-field="height" min="1" max="${MAX_RAW_DIMENSION}" step="1"></label>
+        <label>Byte offset <input type="number" data-field="offset" min="0" step="1"></label>
+        <label>Stride (bytes, 0 = packed) <input type="number" data-field="stride" min="0" step="1"></label>
+        <label>Format
+          <select data-field="format">
+            ${RAW_FORMATS.map(f => `<option value="${f.id}">${f.label}</option>`).join('')}
+          </select>
+        </label>
+        <label>Byte order
+          <select data-field="endianness">
+            <option value="little">Little-endian</option>
+            <option value="big">Big-endian</option>
+          </select>
+        </label>
+        <label>Pixel order
+          <select data-field="tiling">
+            ${RAW_TILINGS.map(t => `<option value="${t.value}">${t.label}</option>`).join('')}
+          </select>
+        </label>
+      </div>
+      <div class="raw-status">
+        <span class="raw-summary"></span>
+        <button class="btn btn-small btn-secondary" data-action="fit-height">Fit height to file</button>
+      </div>
+    `;
+  }
+
+  private setupEventListeners(): void {
+    this.container.addEventListener('input', (e) => {
+      const target = e.target as HTMLInputElement | HTMLSelectElement;
+      const field = target.dataset.field;
+      if (!field) return;
+
+      if (field === 'format') {
+        this.layout.format = target.value as RawFormatId;
+      } else if (field === 'endianness') {
+        this.layout.littleEndian = target.value === 'little';
+      } else if (field === 'tiling') {
+        this.layout.tiling = target.value as RawTiling;
+      } else {
+        const value = parseInt(target.value, 10);
+        // Leave half-typed numbers alone until they parse
+        if (Number.isNaN(value)) return;
+        const min = field === 'width' || field === 'height' ? 1 : 0;
+        const max = field === 'width' || field === 'height' ? MAX_RAW_DIMENSION : Infinity;
+        this.layout[field as 'width' | 'height' | 'offset' | 'stride'] = Math.max(min, Math.min(max, value));
+      }
+      this.scheduleDecode();
+    });
+
+    this.container.querySelector('[data-action="fit-height"]')!.addEventListener('click', () => {
+      const height = fitHeight(this.bytes.byteLength, this.layout);
+      this.layout.height = Math.max(1, Math.min(MAX_RAW_DIMENSION, height));
+      this.syncFields();
+      this.scheduleDecode();
+    });
+  }
+
+  private syncFields(): void {
+    const set = (field: string, value: string) => {
+      (this.container.querySelector(`[data-field="${field}"]`) as HTMLInputElement).value = value;
+    };
+    set('width', String(this.layout.width));
+    set('height', String(this.layout.height));
+    set('offset', String(this.layout.offset));
+    set('stride', String(this.layout.stride));
+    set('format', this.layout.format);
+    set('endianness', this.layout.littleEndian ? 'little' : 'big');
+    set('tiling', this.layout.tiling);
+  }
+
+  /** Coalesces bursts of input events (e.g. holding an arrow key) into one decode per frame. */
+  private scheduleDecode(): void {
+    if (this.pendingFrame !== null) return;
+    this.pendingFrame = requestAnimationFrame(() => {
+      this.pendingFrame = null;
+      this.decode();
+    });
+  }
+
+  private decode(): void {
+    this.updateSummary();
+    try {
+      this.onDecode(toImageData(decodeRaw(this.bytes, this.layout)));
+    } catch (error) {
+      console.error('Failed to decode raw buffer:', error);
+    }
+  }
+
+  private updateSummary(): void {
+    const format = rawFormatById.get(this.layout.format)!;
+    const needed = this.layout.offset + frameByteLength(this.layout);
+    const available = this.bytes.byteLength;
+    const summary = this.container.querySelector('.raw-summary') as HTMLElement;
+
+    let text = `Row pitch ${effectiveStride(this.layout)} bytes, frame needs ${needed.toLocaleString()} of ${available.toLocaleString()} bytes`;
+    if (!format.wordSized) {
+      text += ' (byte order has no effect on this format)';
+    }
+    summary.textContent = text;
+    summary.classList.toggle('raw-summary-short', needed > available);
+  }
+}
@@ -0,0 +1,233 @@
+import { addressMapping, createPixelBuffer } from '../glitches';
+import type { GlitchDefinition, GlitchParams, PixelBuffer, PixelRead } from '../glitches';
+import { imageDataToCanvas, toImageData } from '../utils/canvas';
+
+/** Screen pixels per image pixel; the debugger works on a tiny copy of the image. */
+const CELL_SIZE = 12;
+const PANEL_GAP = 48;
+const LABEL_HEIGHT = 20;
+const SPEEDS = [1, 4, 16, 64, 256] as const;
+const DEFAULT_SPEED = 16;
+/** Timers fire at most this often; faster speeds take several reads per tick. */
+const MIN_TICK_MS = 16;
+
+/**
+ * Plays a glitch's buggy read loop one output pixel at a time on a small
+ * image: a cursor walks the output while arrows show where each read lands
+ * in the source buffer, next to the loop's code.
+ */
+export class ReadDebugger {
+  private container: HTMLElement;
+  private canvas!: HTMLCanvasElement;
+  private status!: HTMLElement;
+  private playBtn!: HTMLButtonElement;
+  private speedSelect!: HTMLSelectElement;
+  private glitch: GlitchDefinition | null = null;
+  private params: GlitchParams = {};
+  private source: PixelBuffer | null = null;
+  private output: PixelBuffer | null = null;
+  /** The output so far: pixels the loop has written, transparent elsewhere. */
+  private written: PixelBuffer | null = null;
+  private reads: Iterator<PixelRead> | null = null;
+  private current: PixelRead | null = null;
+  private timer: number | null = null;
+
+  constructor(container: HTMLElement) {
+    this.container = container;
+    this.render();
+    this.setupEventListeners();
+  }
+
+  /**
+   * Starts over with `glitch` reading `source`, or shows why it can't be
+   * stepped through. `source` should be small, a few dozen pixels across.
+   */
+  load(glitch: GlitchDefinition | null, params: GlitchParams, source: PixelBuffer | null): void {
+    this.pause();
+    const mapping = glitch && source ? addressMapping(glitch, source.width, source.height, params) : null;
+    this.container.classList.toggle('unavailable', !mapping);
+
+    if (!glitch || !source || !mapping) {
+      this.glitch = null;
+      this.reads = null;
+      this.container.querySelector('.debugger-code')!.textContent = '';
+      this.status.textContent = glitch
+        ? `${glitch.name} blends or computes its pixels rather than reading each from one place, so there is no read loop to step through.`
+        : 'Select a step to step through its read loop.';
+      return;
+    }
+
+    this.glitch = glitch;
+    this.params = params;
+    this.source = source;
+    this.output = glitch.apply(source, params);
+    this.restart();
+    this.container.querySelector('.debugger-code')!.textContent = glitch.bugCode;
+    this.canvas.width = source.width * CELL_SIZE * 2 + PANEL_GAP;
+    this.canvas.height = source.height * CELL_SIZE + LABEL_HEIGHT;
+    this.status.textContent = `Step or play to run ${glitch.name}'s loop over this ${source.width}x${source.height} copy of the image.`;
+    this.draw();
+  }
+
+  /** Back to before the first iteration. */
+  private restart(): void {
+    const { glitch, source } = this;
+    if (!glitch || !source) return;
+    this.pause();
+    this.written = createPixelBuffer(source.width, source.height);
+    this.reads = addressMapping(glitch, source.width, source.height, this.params)![Symbol.iterator]();
+    this.current = null;
+    this.draw();
+  }
+
+  private render(): void {
+    this.container.innerHTML = `
+      <div class="debugger-header">
+        <h3>Step Through the Read Loop</h3>
+        <div class="debugger-controls">
+          <button class="btn btn-small btn-secondary" data-action="step">Step</button>
+          <button class="btn btn-small btn-primary" data-action="play">Play</button>
+          <button class="btn btn-small btn-secondary" data-action="restart">Restart</button>
+          <label>
+            Speed
+            <select class="debugger-speed">
+              ${SPEEDS.map(speed => `<option value="${speed}"${speed === DEFAULT_SPEED ? ' selected' : ''}>${speed} px/s</option>`).join('')}
+            </select>
+          </label>
+        </div>
+      </div>
+      <p class="debugger-status"></p>
+      <div class="debugger-body">
+        <canvas class="debugger-canvas"></canvas>
+        <pre><code class="debugger-code"></code></pre>
+      </div>
+    `;
+    this.canvas = this.container.querySelector('.debugger-canvas')!;
+    this.status = this.container.querySelector('.debugger-status')!;
+    this.playBtn = this.container.querySelector('[data-action="play"]')!;
+    this.speedSelect = this.container.querySelector('.debugger-speed')!;
+  }
+
+  private setupEventListeners(): void {
+    this.container.addEventListener('click', (e) => {
+      const action = (e.target as HTMLElement).closest<HTMLElement>('[data-action]')?.dataset.action;
+      if (!this.glitch) return;
+
+      if (action === 'step') {
+        this.pause();
+        this.advance(1);
+      } else if (action === 'play') {
+        if (this.timer === null) this.play();
+        else this.pause();
+      } else if (action === 'restart') {
+        this.restart();
+        this.status.textContent = 'Back at the first iteration.';
+      }
+    });
+
+    this.speedSelect.addEventListener('change', () => {
+      if (this.timer !== null) {
+        this.pause();
+        this.play();
+      }
+    });
+  }
+
+  private play(): void {
+    const speed = parseInt(this.speedSelect.value, 10);
+    const interval = Math.max(MIN_TICK_MS, 1000 / speed);
+    const perTick = Math.max(1, Math.round(speed * interval / 1000));
+    this.timer = window.setInterval(() => this.advance(perTick), interval);
+    this.playBtn.textContent = 'Pause';
+  }
+
+  private pause(): void {
+    if (this.timer !== null) {
+      window.clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.playBtn.textContent = 'Play';
+  }
+
+  /** Runs `count` iterations of the loop, copying each written pixel into view. */
+  private advance(count: number): void {
+    if (!this.reads || !this.output || !this.written) return;
+
+    for (let n = 0; n < count; n++) {
+      const next = this.reads.next();
+      if (next.done) {
+        this.pause();
+        this.status.textContent = 'The loop has finished; every output pixel is written.';
+        return;
+      }
+      this.current = next.value;
+      const i = next.value.index * 4;
+      this.written.data.set(this.output.data.subarray(i, i + 4), i);
+    }
+
+    const { index, x, y, formula } = this.current!;
+    this.status.textContent = `Iteration ${index + 1} of ${this.written.width * this.written.height}: x = ${x}, y = ${y}. ${formula}`;
+    this.draw();
+  }
+
+  private draw(): void {
+    const { source, written } = this;
+    if (!source || !written) return;
+
+    const ctx = this.canvas.getContext('2d')!;
+    const panelWidth = source.width * CELL_SIZE;
+    const panelHeight = source.height * CELL_SIZE;
+    const outputLeft = panelWidth + PANEL_GAP;
+    ctx.clearRect(0, 0, this.canvas.width, this.canvas.height);
+
+    ctx.fillStyle = '#9898a8';
+    ctx.font = '12px sans-serif';
+    ctx.textBaseline = 'top';
+    ctx.fillText('Source buffer', 0, 2);
+    ctx.fillText('Output', outputLeft, 2);
+
+    ctx.imageSmoothingEnabled = false;
+    ctx.fillStyle = '#25252f';
+    ctx.fillRect(outputLeft, LABEL_HEIGHT, panelWidth, panelHeight);
+    ctx.drawImage(imageDataToCanvas(toImageData(source)), 0, LABEL_HEIGHT, panelWidth, panelHeight);
+    ctx.drawImage(imageDataToCanvas(toImageData(written)), outputLeft, LABEL_HEIGHT, panelWidth, panelHeight);
+
+    const read = this.current;
+    if (!read) return;
+
+    const cellCenter = (left: number, x: number, y: number): [number, number] =>
+      [left + (x + 0.5) * CELL_SIZE, LABEL_HEIGHT + (y + 0.5) * CELL_SIZE];
+
+    ctx.lineWidth = 2;
+    ctx.strokeStyle = '#ffffff';
+    ctx.strokeRect(outputLeft + read.x * CELL_SIZE, LABEL_HEIGHT + read.y * CELL_SIZE, CELL_SIZE, CELL_SIZE);
+
+    // One arrow per source pixel; channels read from the same pixel share it
+    const pixels = new Set(read.sources.filter((s): s is number => s !== null).map(s => Math.floor(s / 4)));
+    const [fromX, fromY] = cellCenter(outputLeft, read.x, read.y);
+    ctx.strokeStyle = '#ff6b9d';
+    ctx.fillStyle = '#ff6b9d';
+    for (const pixel of pixels) {
+      const sourceX = pixel % source.width;
+      const sourceY = Math.floor(pixel / source.width);
+      ctx.strokeRect(sourceX * CELL_SIZE, LABEL_HEIGHT + sourceY * CELL_SIZE, CELL_SIZE, CELL_SIZE);
+
+      const [toX, toY] = cellCenter(0, sourceX, sourceY);
+      const controlX = (fromX + toX) / 2;
+      const controlY = Math.min(fromY, toY) - PANEL_GAP;
+      ctx.beginPath();
+      ctx.moveTo(fromX, fromY);
+      ctx.quadraticCurveTo(controlX, controlY, toX, toY);
+      ctx.stroke();
+
+      // Arrowhead along the curve's final direction
+      const angle = Math.atan2(toY - controlY, toX - controlX);
+      ctx.beginPath();
+      ctx.moveTo(toX, toY);
+      ctx.lineTo(toX - 8 * Math.cos(angle - 0.4), toY - 8 * Math.sin(angle - 0.4));
+      ctx.lineTo(toX - 8 * Math.cos(angle + 0.4), toY - 8 * Math.sin(angle + 0.4));
+      ctx.closePath();
+      ctx.fill();
+    }
+  }
+}
@@ -1,31 +1,170 @@
-import { glitches, glitchById } from '../glitches';
-import type { GlitchDefinition, GlitchParams, ParamDefinition } from '../glitches';
-import { loadImageDataFromFile, setupDropZone, createFileInput } from '../utils/image-loader';
-import { imageDataToCanvas, downloadImageData, resizeImageData } from '../utils/canvas';
+import {
+  glitches,
+  glitchById,
+  findSelectOption,
+  formatRecipe,
+  imageError,
+  diffHeatmap,
+  amplifyDifference,
+  isParamVisible,
+  normalizeParams,
+  GlitchPipeline,
+} from '../glitches';
+import type {
+  ImageMetrics,
+  ParamDefinition,
+  ParamValue,
+  PipelineChange,
+  PipelineStep,
+  RangeParamDefinition,
+  RecipeStep,
+  RoundTrip,
+  Vec2,
+} from '../glitches';
+import { loadImageDataFromFile, isImageFile, setupDropZone, createFileInput } from '../utils/image-loader';
+import { imageDataToCanvas, downloadImageData, resizeImageData, toImageData } from '../utils/canvas';
+import { CancelledError, getGlitchRunner } from '../workers/glitch-pool';
+import type { RunOptions } from '../workers/glitch-pool';
+import { MetricsRunner } from '../workers/metrics-pool';
+import { RepairReportRunner } from '../workers/repair-pool';
+import { downloadBlob, downloadText, readFileAsBytes, readFileAsText } from '../utils/download';
+import {
+  deleteUserPreset,
+  exportUserPresets,
+  getUserPresets,
+  importUserPresets,
+  saveUserPreset,
+} from '../utils/preset-store';
+import { exportRaw, packedRgba8Layout, parseRawSidecar, stepRawLayout } from '../raw';
+import { RawImporter } from './raw-importer';
+import { LayoutAnalyzer } from './layout-analyzer';
+import { PreviewZoom } from './preview-zoom';
+import { HexView } from './hex-view';
+import { ReadDebugger } from './read-debugger';
+import { AnimationExporter } from './animation-exporter';
+import { PatternPicker } from './pattern-picker';
+import type { HexHighlight, HexLayout } from './hex-view';
+import type { PixelPoint } from './preview-zoom';
 
 const MAX_PREVIEW_SIZE = 800;
+const DRAFT_PREVIEW_SIZE = 200;
+/** Small enough that every pixel of the read loop can be watched. */
+const DEBUGGER_SIZE = 24;
+const LOG_SLIDER_STEPS = 1000;
+/** How long the stack must sit still before the repair report is measured again. */
+const REPAIR_REPORT_DELAY_MS = 300;
+
+/** What the glitched pane draws: the result itself or how it differs from the original. */
+type ProcessedView = 'result' | 'heatmap' | 'amplified';
+
+const CHANNEL_NAMES = ['R', 'G', 'B', 'A'] as const;
+
+/**
+ * Log-scale sliders run over 0..LOG_SLIDER_STEPS so equal drags give equal
+ * ratios; the value is then snapped to the param's step.
+ */
+function toLogPosition(param: RangeParamDefinition, value: number): number {
+  const t = Math.log(value / param.min) / Math.log(param.max / param.min);
+  return Math.round(t * LOG_SLIDER_STEPS);
+}
+
+function fromLogPosition(param: RangeParamDefinition, position: number): number {
+  const value = param.min * Math.pow(param.max / param.min, position / LOG_SLIDER_STEPS);
+  const step = param.step ?? 0.01;
+  const snapped = Math.round(value / step) * step;
+  // Trim float noise from the snapping (e.g. 1.2000000000000002)
+  return Math.max(param.min, Math.min(param.max, Number(snapped.toFixed(6))));
+}
+
+type PresetSource = 'builtin' | 'user';
+
+function presetValue(source: PresetSource, key: string): string {
+  return `${source}:${key}`;
+}
+
+function splitPresetValue(value: string): [PresetSource | null, string] {
+  const colon = value.indexOf(':');
+  if (colon === -1) return [null, ''];
+  return [value.slice(0, colon) as PresetSource, value.slice(colon + 1)];
+}
+
+function escapeAttr(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+/** One RGBA pixel of `data` as a swatch and its four values. */
+function formatPixel(data: Uint8ClampedArray, i: number): string {
+  const [r, g, b, a] = data.subarray(i, i + 4);
+  return `<span class="inspector-swatch" style="background: rgba(${r}, ${g}, ${b}, ${(a / 255).toFixed(3)})"></span>` +
+    `<code>${r}, ${g}, ${b}, ${a}</code>`;
+}
+
+function formatParamValue(param: ParamDefinition, value: ParamValue): string {
+  if (param.type === 'vec2') {
+    const [x, y] = value as Vec2;
+    return `${x}, ${y}`;
+  }
+  if (param.type === 'integer' && param.unit) {
+    return `${value} ${param.unit}`;
+  }
+  return String(value);
+}
+
+export type RecipeChangeHandler = (recipe: RecipeStep[], change: PipelineChange) => void;
 
 export class Sandbox {
   private container: HTMLElement;
   private originalImageData: ImageData | null = null;
+  private draftImageData: ImageData | null = null;
+  private debuggerImageData: ImageData | null = null;
   private processedImageData: ImageData | null = null;
-  private currentGlitch: GlitchDefinition | null = null;
-  private currentParams: GlitchParams = {};
+  private pipeline = new GlitchPipeline();
+  private selectedKey: number | null = null;
+  private previewStage: number | null = null;
+  private dragIndex: number | null = null;
+  private onRecipeChange: RecipeChangeHandler | null;
+  private loadingRecipe = false;
+  private renderGeneration = 0;
 
   private dropZone!: HTMLElement;
   private originalCanvas!: HTMLCanvasElement;
   private processedCanvas!: HTMLCanvasElement;
+  private fixedCanvas!: HTMLCanvasElement;
+  private fixedNote!: HTMLElement;
   private glitchSelect!: HTMLSelectElement;
+  private stackList!: HTMLOListElement;
+  private stageSelect!: HTMLSelectElement;
   private paramsContainer!: HTMLElement;
+  private presetSelect!: HTMLSelectElement;
+  private presetFileInput!: HTMLInputElement;
   private downloadBtn!: HTMLButtonElement;
+  private exportRawBtn!: HTMLButtonElement;
   private fileInput!: HTMLInputElement;
+  private rawImporter!: RawImporter;
+  private layoutAnalyzer!: LayoutAnalyzer;
+  private previewZoom!: PreviewZoom;
+  private pixelInspector!: HTMLElement;
+  private hexView!: HexView;
+  private readDebugger!: ReadDebugger;
+  private animationExporter!: AnimationExporter;
+  private patternPicker!: PatternPicker;
+  private hoveredPixel: PixelPoint | null = null;
+  private sourceIsRaw = false;
+  /** Treat the upload as already buggy and undo the stack instead of applying it. */
+  private repairMode = false;
+  private processedView: ProcessedView = 'result';
+  private amplifyGain = 16;
+  private metricsRunner = new MetricsRunner();
+  private repairRunner = new RepairReportRunner();
+  private repairReportTimer: number | undefined;
 
-  constructor(containerId: string) {
+  constructor(containerId: string, onRecipeChange: RecipeChangeHandler | null = null) {
     const container = document.getElementById(containerId);
     if (!container) {
       throw new Error(`Container ${containerId} not found`);
     }
     this.container = container;
+    this.onRecipeChange = onRecipeChange;
     this.render();
     this.setupEventListeners();
   }
@@ -46,15 +185,27 @@ export class Sandbox {
               <line x1="12" y1="3" x2="12" y2="15"/>
             </svg>
             <p>Drop an image here or <button class="upload-btn" id="upload-btn">browse</button></p>
-            <span class="upload-hint">Supports PNG, JPG, GIF, WebP</span>
+            <span class="upload-hint">Supports PNG, JPG, GIF, WebP, or any raw pixel dump (.bin, .raw, .yuv) with an optional .json sidecar</span>
           </div>
         </div>
 
+        <div class="pattern-picker" id="pattern-picker"></div>
+
+        <div class="raw-importer" id="raw-importer" style="display: none;"></div>
+
         <div class="sandbox-controls" id="controls" style="display: none;">
           <div class="control-group">
-            <label for="glitch-select">Glitch Type</label>
+            <label for="mode-select">Mode</label>
+            <select id="mode-select">
+              <option value="apply">Apply glitches to a correct image</option>
+              <option value="repair">Repair uploaded image (undo the stack)</option>
+            </select>
+          </div>
+
+          <div class="control-group">
+            <label for="glitch-select">Add Glitch</label>
             <select id="glitch-select">
-              <option value="">Select a glitch...</option>
+              <option value="">Add a glitch to the stack...</option>
               <optgroup label="Pixel Format">
                 ${glitches.filter(g => g.category === 'pixel-format').map(g =>
                   `<option value="${g.id}">${g.name}</option>`
@@ -73,29 +224,90 @@ export class Sandbox {
             </select>
           </div>
 
+          <div class="control-group">
+            <label>Glitch Stack</label>
+            <ol class="pipeline-stack" id="pipeline-stack"></ol>
+            <p class="pipeline-empty" id="pipeline-empty">No glitches yet. Steps run top to bottom; drag to reorder.</p>
+            <ul class="repair-report" id="repair-report" style="display: none;"></ul>
+          </div>
+
+          <div class="control-group" id="stage-group">
+            <label for="stage-select">Preview Stage</label>
+            <select id="stage-select">
+              <option value="">Final result</option>
+            </select>
+          </div>
+
+          <div class="control-group">
+            <label for="view-select">Result Pane Shows</label>
+            <select id="view-select">
+              <option value="result">The result</option>
+              <option value="heatmap">Difference heatmap</option>
+              <option value="amplified">Amplified difference</option>
+            </select>
+            <div class="param-group" id="gain-group" style="display: none;">
+              <label for="gain-input">
+                gain
+                <span class="param-value" id="gain-value">&times;${this.amplifyGain}</span>
+              </label>
+              <input type="range" id="gain-input" min="1" max="64" step="1" value="${this.amplifyGain}" />
+              <span class="param-desc">Mid-grey is no change; brighter or darker shows which way each channel moved</span>
+            </div>
+          </div>
+
+          <div class="preset-bar" id="preset-bar" style="display: none;">
+            <select id="preset-select" aria-label="Presets"></select>
+            <button class="btn btn-small btn-secondary" id="preset-save-btn">Save</button>
+            <button class="btn btn-small btn-secondary" id="preset-delete-btn" disabled>Delete</button>
+            <button class="btn btn-small btn-secondary" id="preset-export-btn">Export</button>
+            <button class="btn btn-small btn-secondary" id="preset-import-btn">Import</button>
+          </div>
+
           <div class="params-container" id="params-container"></div>
 
           <div class="control-actions">
             <button class="btn btn-secondary" id="reset-btn">Reset Image</button>
+            <button class="btn btn-secondary" id="analyze-btn">Analyze Layout</button>
+            <button class="btn btn-secondary" id="export-raw-btn" disabled>Export Raw .bin</button>
             <button class="btn btn-primary" id="download-btn" disabled>Download Result</button>
           </div>
         </div>
 
-        <div class="sandbox-preview" id="preview" style="display: none;">
+        <div class="sandbox-preview with-fix" id="preview" style="display: none;">
+          <p class="zoom-hint" id="zoom-hint"></p>
           <div class="preview-pane">
-            <h3>Original</h3>
+            <h3 id="original-title">Original</h3>
             <div class="canvas-wrapper">
               <canvas id="original-canvas"></canvas>
             </div>
           </div>
           <div class="preview-pane">
-            <h3>Glitched</h3>
+            <h3 id="processed-title">Glitched</h3>
             <div class="canvas-wrapper">
               <canvas id="processed-canvas"></canvas>
             </div>
           </div>
+          <div class="preview-pane" id="fixed-pane">
+            <h3>Fixed</h3>
+            <div class="canvas-wrapper">
+              <canvas id="fixed-canvas"></canvas>
+            </div>
+            <p class="preview-note" id="fixed-note"></p>
+          </div>
         </div>
 
+        <div class="pixel-inspector" id="pixel-inspector" style="display: none;"></div>
+
+        <div class="hex-view" id="hex-view" style="display: none;"></div>
+
+        <div class="read-debugger" id="read-debugger" style="display: none;"></div>
+
+        <div class="animation-exporter" id="animation-exporter" style="display: none;"></div>
+
+        <div class="metrics-panel" id="metrics-panel" style="display: none;"></div>
+
+        <div class="layout-analysis" id="layout-analysis" style="display: none;"></div>
+
         <div class="glitch-info" id="glitch-info" style="display: none;">
           <h3 id="glitch-info-title"></h3>
           <p id="glitch-info-desc"></p>
@@ -118,80 +330,363 @@ export class Sandbox {
     this.dropZone = document.getElementById('drop-zone')!;
     this.originalCanvas = document.getElementById('original-canvas') as HTMLCanvasElement;
     this.processedCanvas = document.getElementById('processed-canvas') as HTMLCanvasElement;
+    this.fixedCanvas = document.getElementById('fixed-canvas') as HTMLCanvasElement;
+    this.fixedNote = document.getElementById('fixed-note')!;
     this.glitchSelect = document.getElementById('glitch-select') as HTMLSelectElement;
+    this.stackList = document.getElementById('pipeline-stack') as HTMLOListElement;
+    this.stageSelect = document.getElementById('stage-select') as HTMLSelectElement;
     this.paramsContainer = document.getElementById('params-container')!;
+    this.presetSelect = document.getElementById('preset-select') as HTMLSelectElement;
     this.downloadBtn = document.getElementById('download-btn') as HTMLButtonElement;
-    this.fileInput = createFileInput(this.handleFile.bind(this));
+    this.exportRawBtn = document.getElementById('export-raw-btn') as HTMLButtonElement;
+    this.fileInput = createFileInput(this.handleFile.bind(this), '', true);
     this.container.appendChild(this.fileInput);
+    this.rawImporter = new RawImporter(
+      document.getElementById('raw-importer')!,
+      imageData => this.setSourceImage(imageData)
+    );
+    this.patternPicker = new PatternPicker(
+      document.getElementById('pattern-picker')!,
+      imageData => this.loadImage(imageData)
+    );
+    this.pixelInspector = document.getElementById('pixel-inspector')!;
+    this.hexView = new HexView(document.getElementById('hex-view')!);
+    this.readDebugger = new ReadDebugger(document.getElementById('read-debugger')!);
+    this.animationExporter = new AnimationExporter(document.getElementById('animation-exporter')!);
+    this.previewZoom = new PreviewZoom(
+      [...this.container.querySelectorAll<HTMLElement>('.preview-pane .canvas-wrapper')],
+      document.getElementById('zoom-hint')!,
+      pixel => this.inspectPixel(pixel)
+    );
+    this.layoutAnalyzer = new LayoutAnalyzer(
+      document.getElementById('layout-analysis')!,
+      (bytes, layout) => {
+        this.sourceIsRaw = true;
+        this.rawImporter.load(bytes, 'analyzed buffer', layout);
+      }
+    );
   }
 
   private setupEventListeners(): void {
-    setupDropZone(this.dropZone, this.handleFile.bind(this));
+    setupDropZone(this.dropZone, this.handleFile.bind(this), () => true, true);
 
     document.getElementById('upload-btn')!.addEventListener('click', () => {
       this.fileInput.click();
     });
 
     this.glitchSelect.addEventListener('change', () => {
-      const glitchId = this.glitchSelect.value;
-      if (glitchId) {
-        this.currentGlitch = glitchById.get(glitchId) || null;
-        this.resetParams();
-        this.renderParams();
-        this.updateGlitchInfo();
-        this.applyGlitch();
-      } else {
-        this.currentGlitch = null;
-        this.paramsContainer.innerHTML = '';
-        this.hideGlitchInfo();
-        this.showOriginal();
+      const glitch = glitchById.get(this.glitchSelect.value);
+      this.glitchSelect.value = '';
+      if (glitch) {
+        const step = this.pipeline.add(glitch);
+        this.selectStep(step.key);
+      }
+    });
+
+    document.getElementById('mode-select')!.addEventListener('change', (e) => {
+      this.setRepairMode((e.target as HTMLSelectElement).value === 'repair');
+    });
+
+    document.getElementById('view-select')!.addEventListener('change', (e) => {
+      this.processedView = (e.target as HTMLSelectElement).value as ProcessedView;
+      document.getElementById('gain-group')!.style.display = this.processedView === 'amplified' ? '' : 'none';
+      this.redrawProcessed();
+    });
+
+    document.getElementById('gain-input')!.addEventListener('input', (e) => {
+      this.amplifyGain = parseInt((e.target as HTMLInputElement).value, 10);
+      document.getElementById('gain-value')!.textContent = `\u00d7${this.amplifyGain}`;
+      this.redrawProcessed();
+    });
+
+    this.stageSelect.addEventListener('change', () => {
+      this.previewStage = this.stageSelect.value === '' ? null : parseInt(this.stageSelect.value, 10);
+      this.applyGlitch();
+    });
+
+    this.setupStackEvents();
+    this.setupPresetEvents();
+
+    this.pipeline.onChange((change) => {
+      this.renderStack();
+      this.applyGlitch(change === 'params');
+      this.loadReadDebugger();
+      this.animationExporter.load(this.pipeline.toRecipe(), this.originalImageData);
+      if (!this.loadingRecipe && this.onRecipeChange) {
+        this.onRecipeChange(this.pipeline.toRecipe(), change);
       }
     });
 
     document.getElementById('reset-btn')!.addEventListener('click', () => {
-      this.glitchSelect.value = '';
-      this.currentGlitch = null;
-      this.paramsContainer.innerHTML = '';
+      this.selectedKey = null;
+      this.previewStage = null;
+      this.pipeline.clear();
+      this.renderParams();
       this.hideGlitchInfo();
       this.showOriginal();
     });
 
     this.downloadBtn.addEventListener('click', () => {
       if (this.processedImageData) {
-        const glitchName = this.currentGlitch?.id || 'glitched';
-        downloadImageData(this.processedImageData, `${glitchName}-image.png`);
+        const glitchName = this.pipeline.getSteps()
+          .filter(s => s.enabled)
+          .map(s => s.glitch.id)
+          .join('+') || 'glitched';
+        downloadImageData(this.processedImageData, `${glitchName}-${this.repairMode ? 'repaired' : 'image'}.png`);
       }
     });
+
+    this.exportRawBtn.addEventListener('click', () => this.exportRawBuffer());
+
+    document.getElementById('analyze-btn')!.addEventListener('click', () => this.analyzeLayout());
   }
 
-  private async handleFile(file: File): Promise<void> {
+  private setupStackEvents(): void {
+    this.stackList.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement;
+      const item = target.closest('.pipeline-step') as HTMLElement | null;
+      if (!item) return;
+      const key = parseInt(item.dataset.key!, 10);
+
+      if (target.classList.contains('step-remove')) {
+        if (this.selectedKey === key) {
+          this.selectedKey = null;
+        }
+        this.pipeline.remove(key);
+        if (this.selectedKey === null) {
+          const first = this.pipeline.getSteps()[0];
+          this.selectStep(first ? first.key : null);
+        }
+      } else if (!target.classList.contains('step-toggle')) {
+        this.selectStep(key);
+      }
+    });
+
+    this.stackList.addEventListener('change', (e) => {
+      const target = e.target as HTMLInputElement;
+      if (!target.classList.contains('step-toggle')) return;
+      const item = target.closest('.pipeline-step') as HTMLElement;
+      this.pipeline.setEnabled(parseInt(item.dataset.key!, 10), target.checked);
+    });
+
+    this.stackList.addEventListener('dragstart', (e) => {
+      const item = (e.target as HTMLElement).closest('.pipeline-step') as HTMLElement | null;
+      if (!item) return;
+      this.dragIndex = parseInt(item.dataset.index!, 10);
+      item.classList.add('dragging');
+      e.dataTransfer?.setData('text/plain', item.dataset.index!);
+    });
+
+    this.stackList.addEventListener('dragover', (e) => {
+      if (this.dragIndex === null) return;
+      e.preventDefault();
+    });
+
+    this.stackList.addEventListener('drop', (e) => {
+      if (this.dragIndex === null) return;
+      e.preventDefault();
+      const item = (e.target as HTMLElement).closest('.pipeline-step') as HTMLElement | null;
+      const toIndex = item ? parseInt(item.dataset.index!, 10) : this.pipeline.length - 1;
+      const fromIndex = this.dragIndex;
+      this.dragIndex = null;
+      this.pipeline.move(fromIndex, toIndex);
+    });
+
+    this.stackList.addEventListener('dragend', () => {
+      this.dragIndex = null;
+      this.stackList.querySelectorAll('.dragging').forEach(el => el.classList.remove('dragging'));
+    });
+  }
+
+  private setupPresetEvents(): void {
+    this.presetSelect.addEventListener('change', () => {
+      const step = this.selectedStep;
+      const [source, key] = splitPresetValue(this.presetSelect.value);
+      (document.getElementById('preset-delete-btn') as HTMLButtonElement).disabled = source !== 'user';
+      if (!step || !source) return;
+
+      const presetParams = source === 'builtin'
+        ? step.glitch.presets?.[parseInt(key, 10)]?.params
+        : getUserPresets(step.glitch.id).find(p => p.name === key)?.params;
+      if (!presetParams) return;
+
+      this.pipeline.setParams(step.key, normalizeParams(step.glitch, presetParams));
+      this.renderParams(this.presetSelect.value);
+    });
+
+    document.getElementById('preset-save-btn')!.addEventListener('click', () => {
+      const step = this.selectedStep;
+      if (!step) return;
+      const name = prompt(`Save current ${step.glitch.name} params as preset:`)?.trim();
+      if (!name) return;
+
+      saveUserPreset({ glitchId: step.glitch.id, name, params: step.params });
+      this.renderPresets(step, presetValue('user', name));
+    });
+
+    document.getElementById('preset-delete-btn')!.addEventListener('click', () => {
+      const step = this.selectedStep;
+      const [source, name] = splitPresetValue(this.presetSelect.value);
+      if (!step || source !== 'user') return;
+
+      deleteUserPreset(step.glitch.id, name);
+      this.renderPresets(step, '');
+    });
+
+    document.getElementById('preset-export-btn')!.addEventListener('click', () => {
+      downloadText(exportUserPresets(), 'glitchbook-presets.json');
+    });
+
+    this.presetFileInput = document.createElement('input');
+    this.presetFileInput.type = 'file';
+    this.presetFileInput.accept = 'application/json,.json';
+    this.presetFileInput.style.display = 'none';
+    this.container.appendChild(this.presetFileInput);
+
+    document.getElementById('preset-import-btn')!.addEventListener('click', () => {
+      this.presetFileInput.click();
+    });
+
+    this.presetFileInput.addEventListener('change', async () => {
+      const file = this.presetFileInput.files?.[0];
+      this.presetFileInput.value = '';
+      if (!file) return;
+
+      try {
+        const count = importUserPresets(await readFileAsText(file));
+        const step = this.selectedStep;
+        if (step) {
+          this.renderPresets(step, '');
+        }
+        alert(`Imported ${count} preset${count === 1 ? '' : 's'}.`);
+      } catch (error) {
+        console.error('Failed to import presets:', error);
+        alert(`Failed to import presets: ${error instanceof Error ? error.message : error}`);
+      }
+    });
+  }
+
+  private renderPresets(step: PipelineStep, selected: string): void {
+    const builtin = step.glitch.presets ?? [];
+    const saved = getUserPresets(step.glitch.id);
+
+    this.presetSelect.innerHTML = `
+      <option value="">Presets...</option>
+      ${builtin.length ? `
+        <optgroup label="Built-in">
+          ${builtin.map((preset, index) =>
+            `<option value="${presetValue('builtin', String(index))}" title="${escapeAttr(preset.description ?? '')}">${escapeAttr(preset.name)}</option>`
+          ).join('')}
+        </optgroup>
+      ` : ''}
+      ${saved.length ? `
+        <optgroup label="Saved">
+          ${saved.map(preset =>
+            `<option value="${escapeAttr(presetValue('user', preset.name))}">${escapeAttr(preset.name)}</option>`
+          ).join('')}
+        </optgroup>
+      ` : ''}
+    `;
+    this.presetSelect.value = selected;
+    (document.getElementById('preset-delete-btn') as HTMLButtonElement).disabled =
+      splitPresetValue(this.presetSelect.value)[0] !== 'user';
+  }
+
+  public getRecipe(): RecipeStep[] {
+    return this.pipeline.toRecipe();
+  }
+
+  /**
+   * Replaces the glitch stack without reporting it back through `onRecipeChange`.
+   * Loading the recipe that is already active keeps the current selection.
+   */
+  public loadRecipe(recipe: RecipeStep[]): void {
+    if (formatRecipe(recipe) === formatRecipe(this.pipeline.toRecipe())) return;
+
+    this.loadingRecipe = true;
     try {
-      let imageData = await loadImageDataFromFile(file);
+      this.pipeline.load(recipe);
+    } finally {
+      this.loadingRecipe = false;
+    }
 
-      // Resize if too large
-      imageData = resizeImageData(imageData, MAX_PREVIEW_SIZE, MAX_PREVIEW_SIZE);
+    this.previewStage = null;
+    const first = this.pipeline.getSteps()[0];
+    this.selectStep(first ? first.key : null);
+  }
 
-      this.originalImageData = imageData;
-      this.showControls();
-      this.showOriginal();
+  /** Replaces the source image, e.g. with a reference handed over from another view. */
+  public loadImage(imageData: ImageData): void {
+    this.rawImporter.hide();
+    this.sourceIsRaw = false;
+    this.setSourceImage(imageData);
+  }
 
-      if (this.currentGlitch) {
-        this.applyGlitch();
+  /**
+   * Browser-decodable images load directly; a .json file is taken as a raw
+   * sidecar; anything else opens the raw importer.
+   */
+  private async handleFile(file: File): Promise<void> {
+    if (file.name.toLowerCase().endsWith('.json')) {
+      try {
+        this.rawImporter.setLayout(parseRawSidecar(await readFileAsText(file)));
+      } catch (error) {
+        console.error('Failed to load sidecar:', error);
+        alert(`Failed to load sidecar: ${error instanceof Error ? error.message : error}`);
       }
+      return;
+    }
+
+    if (!isImageFile(file)) {
+      try {
+        this.rawImporter.load(await readFileAsBytes(file), file.name);
+        this.sourceIsRaw = true;
+      } catch (error) {
+        console.error('Failed to read file:', error);
+        alert('Failed to read file. Please try another file.');
+      }
+      return;
+    }
+
+    try {
+      this.loadImage(await loadImageDataFromFile(file));
     } catch (error) {
       console.error('Failed to load image:', error);
       alert('Failed to load image. Please try another file.');
     }
   }
 
+  private setSourceImage(imageData: ImageData): void {
+    // Resize if too large
+    imageData = resizeImageData(imageData, MAX_PREVIEW_SIZE, MAX_PREVIEW_SIZE);
+
+    this.originalImageData = imageData;
+    this.draftImageData = resizeImageData(imageData, DRAFT_PREVIEW_SIZE, DRAFT_PREVIEW_SIZE);
+    this.debuggerImageData = resizeImageData(imageData, DEBUGGER_SIZE, DEBUGGER_SIZE);
+    this.showControls();
+    this.loadReadDebugger();
+    this.animationExporter.load(this.pipeline.toRecipe(), this.originalImageData);
+    this.showOriginal();
+    this.previewZoom.reset();
+
+    if (this.pipeline.length > 0) {
+      this.applyGlitch();
+    }
+  }
+
   private showControls(): void {
     document.getElementById('controls')!.style.display = 'block';
     document.getElementById('preview')!.style.display = 'grid';
+    this.pixelInspector.style.display = '';
+    document.getElementById('hex-view')!.style.display = '';
+    document.getElementById('read-debugger')!.style.display = '';
+    document.getElementById('animation-exporter')!.style.display = '';
     this.dropZone.classList.add('has-image');
   }
 
   private showOriginal(): void {
     if (!this.originalImageData) return;
+    this.renderGeneration++;
 
     const canvas = imageDataToCanvas(this.originalImageData);
     this.originalCanvas.width = canvas.width;
@@ -202,69 +697,126 @@ export class Sandbox {
     this.processedCanvas.height = canvas.height;
     this.processedCanvas.getContext('2d')!.drawImage(canvas, 0, 0);
 
+    this.fixedCanvas.width = canvas.width;
+    this.fixedCanvas.height = canvas.height;
+    this.fixedCanvas.getContext('2d')!.drawImage(canvas, 0, 0);
+    this.fixedNote.textContent = '';
+    document.getElementById('metrics-panel')!.style.display = 'none';
+
     this.processedImageData = null;
     this.downloadBtn.disabled = true;
+    this.exportRawBtn.disabled = true;
+    this.inspectPixel(this.hoveredPixel);
+  }
+
+  private get selectedStep(): PipelineStep | undefined {
+    return this.selectedKey === null ? undefined : this.pipeline.getStep(this.selectedKey);
   }
 
-  private resetParams(): void {
-    if (!this.currentGlitch) return;
+  private selectStep(key: number | null): void {
+    this.selectedKey = key;
+    this.renderStack();
+    this.renderParams();
+    this.updateGlitchInfo();
+    this.loadReadDebugger();
+    this.patternPicker.recommend(this.selectedStep?.glitch ?? null);
+  }
+
+  private renderStack(): void {
+    const steps = this.pipeline.getSteps();
+
+    this.stackList.innerHTML = steps.map((step, index) => `
+      <li
+        class="pipeline-step${step.key === this.selectedKey ? ' selected' : ''}${step.enabled ? '' : ' disabled'}"
+        draggable="true"
+        data-key="${step.key}"
+        data-index="${index}"
+      >
+        <span class="step-handle" title="Drag to reorder">&#x2630;</span>
+        <input type="checkbox" class="step-toggle" title="Enable step" ${step.enabled ? 'checked' : ''} />
+        <span class="step-index">${index + 1}.</span>
+        <span class="step-name">${step.glitch.name}</span>
+        <button class="step-remove" title="Remove step">&times;</button>
+      </li>
+    `).join('');
+
+    document.getElementById('pipeline-empty')!.style.display = steps.length ? 'none' : 'block';
 
-    this.currentParams = {};
-    for (const param of this.currentGlitch.params) {
-      this.currentParams[param.name] = param.default;
+    if (this.previewStage !== null && this.previewStage >= steps.length) {
+      this.previewStage = null;
     }
+
+    this.stageSelect.innerHTML = `
+      <option value="">Final result</option>
+      ${steps.map((step, index) =>
+        `<option value="${index}" ${index === this.previewStage ? 'selected' : ''}>After ${index + 1}. ${step.glitch.name}</option>`
+      ).join('')}
+    `;
   }
 
-  private renderParams(): void {
-    if (!this.currentGlitch) {
+  private renderParams(selectedPreset = ''): void {
+    const step = this.selectedStep;
+    const presetBar = document.getElementById('preset-bar')!;
+    if (!step) {
+      presetBar.style.display = 'none';
       this.paramsContainer.innerHTML = '';
       return;
     }
 
-    this.paramsContainer.innerHTML = this.currentGlitch.params.map(param =>
-      this.renderParam(param)
+    presetBar.style.display = 'flex';
+    this.renderPresets(step, selectedPreset);
+
+    this.paramsContainer.innerHTML = step.glitch.params.map(param =>
+      this.renderParam(param, step)
     ).join('');
 
     // Add event listeners
-    for (const param of this.currentGlitch.params) {
-      const input = document.getElementById(`param-${param.name}`) as HTMLInputElement | HTMLSelectElement;
-      if (input) {
-        input.addEventListener('input', () => this.handleParamChange(param, input));
-        input.addEventListener('change', () => this.handleParamChange(param, input));
-      }
+    for (const param of step.glitch.params) {
+      const group = this.paramsContainer.querySelector(`[data-param="${param.name}"]`);
+      group?.querySelectorAll('input, select').forEach(input => {
+        input.addEventListener('input', () => this.handleParamChange(step, param));
+        input.addEventListener('change', () => this.handleParamChange(step, param));
+      });
     }
+
+    this.updateParamVisibility(step);
   }
 
-  private renderParam(param: ParamDefinition): string {
-    const value = this.currentParams[param.name] ?? param.default;
+  private renderParam(param: ParamDefinition, step: PipelineStep): string {
+    const value = step.params[param.name] ?? param.default;
+    const id = `param-${param.name}`;
+    const valueLabel = `<span class="param-value" id="${id}-value">${formatParamValue(param, value)}</span>`;
 
     switch (param.type) {
       case 'range':
+      case 'integer': {
+        const isLog = param.type === 'range' && param.scale === 'log';
         return `
-          <div class="param-group">
-            <label for="param-${param.name}">
+          <div class="param-group" data-param="${param.name}">
+            <label for="${id}">
               ${param.name}
-              <span class="param-value" id="param-${param.name}-value">${value}</span>
+              ${valueLabel}
             </label>
             <input
               type="range"
-              id="param-${param.name}"
-              min="${param.min}"
-              max="${param.max}"
-              step="${param.step || 1}"
-              value="${value}"
+              id="${id}"
+              min="${isLog ? 0 : param.min}"
+              max="${isLog ? LOG_SLIDER_STEPS : param.max}"
+              step="${isLog ? 1 : param.step || 1}"
+              value="${isLog ? toLogPosition(param, value as number) : value}"
             />
             <span class="param-desc">${param.description}</span>
           </div>
         `;
+      }
 
       case 'boolean':
         return `
-          <div class="param-group param-checkbox">
+          <div class="param-group param-checkbox" data-param="${param.name}">
             <label>
               <input
                 type="checkbox"
-                id="param-${param.name}"
+                id="${id}"
                 ${value ? 'checked' : ''}
               />
               ${param.name}
@@ -273,71 +825,480 @@ export class Sandbox {
           </div>
         `;
 
+      case 'color':
+        return `
+          <div class="param-group" data-param="${param.name}">
+            <label for="${id}">
+              ${param.name}
+              ${valueLabel}
+            </label>
+            <input type="color" id="${id}" value="${value}" />
+            <span class="param-desc">${param.description}</span>
+          </div>
+        `;
+
+      case 'vec2': {
+        const [x, y] = value as Vec2;
+        const axis = (name: string, component: number) => `
+          <span class="param-axis">${name}</span>
+          <input
+            type="range"
+            id="${id}-${name}"
+            min="${param.min}"
+            max="${param.max}"
+            step="${param.step || 1}"
+            value="${component}"
+          />
+        `;
+        return `
+          <div class="param-group" data-param="${param.name}">
+            <label>
+              ${param.name}
+              ${valueLabel}
+            </label>
+            <div class="param-vec2">
+              ${axis('x', x)}
+              ${axis('y', y)}
+            </div>
+            <span class="param-desc">${param.description}</span>
+          </div>
+        `;
+      }
+
       case 'select':
         return `
-          <div class="param-group">
-            <label for="param-${param.name}">${param.name}</label>
-            <select id="param-${param.name}">
-              ${param.options?.map(opt =>
-                `<option value="${opt}" ${opt === value ? 'selected' : ''}>${opt}</option>`
+          <div class="param-group" data-param="${param.name}">
+            <label for="${id}">${param.name}</label>
+            <select id="${id}">
+              ${param.options.map(opt =>
+                `<option value="${opt.value}" ${opt.value === value ? 'selected' : ''}>${opt.label}</option>`
               ).join('')}
             </select>
             <span class="param-desc">${param.description}</span>
           </div>
         `;
-
-      default:
-        return '';
     }
   }
 
-  private handleParamChange(param: ParamDefinition, input: HTMLInputElement | HTMLSelectElement): void {
-    let value: number | boolean | string;
+  private handleParamChange(step: PipelineStep, param: ParamDefinition): void {
+    const id = `param-${param.name}`;
+    const input = document.getElementById(id) as HTMLInputElement | HTMLSelectElement | null;
+    let value: ParamValue;
 
     switch (param.type) {
       case 'range':
-        value = parseFloat(input.value);
-        const valueDisplay = document.getElementById(`param-${param.name}-value`);
-        if (valueDisplay) {
-          valueDisplay.textContent = value.toString();
-        }
+        value = param.scale === 'log'
+          ? fromLogPosition(param, parseFloat(input!.value))
+          : parseFloat(input!.value);
+        break;
+      case 'integer':
+        value = parseInt(input!.value, 10);
         break;
       case 'boolean':
         value = (input as HTMLInputElement).checked;
         break;
+      case 'color':
+        value = input!.value;
+        break;
+      case 'vec2': {
+        const x = document.getElementById(`${id}-x`) as HTMLInputElement;
+        const y = document.getElementById(`${id}-y`) as HTMLInputElement;
+        value = [parseFloat(x.value), parseFloat(y.value)];
+        break;
+      }
       case 'select':
-        value = input.value;
+        value = findSelectOption(param, input!.value)?.value ?? param.default;
         break;
-      default:
-        value = input.value;
     }
 
-    this.currentParams[param.name] = value;
+    const valueDisplay = document.getElementById(`${id}-value`);
+    if (valueDisplay) {
+      valueDisplay.textContent = formatParamValue(param, value);
+    }
+
+    this.pipeline.setParam(step.key, param.name, value);
+    this.updateParamVisibility(step);
+    this.presetSelect.value = '';
+    (document.getElementById('preset-delete-btn') as HTMLButtonElement).disabled = true;
+  }
+
+  private updateParamVisibility(step: PipelineStep): void {
+    for (const param of step.glitch.params) {
+      const group = this.paramsContainer.querySelector(`[data-param="${param.name}"]`) as HTMLElement | null;
+      if (group) {
+        group.style.display = isParamVisible(param, step.params) ? '' : 'none';
+      }
+    }
+  }
+
+  private setRepairMode(repair: boolean): void {
+    this.repairMode = repair;
+    this.previewStage = null;
+
+    document.getElementById('original-title')!.textContent = repair ? 'Uploaded (buggy)' : 'Original';
+    document.getElementById('processed-title')!.textContent = repair ? 'Repaired' : 'Glitched';
+    // Stages and raw export describe the forward pipeline only
+    document.getElementById('stage-group')!.style.display = repair ? 'none' : '';
+    document.getElementById('repair-report')!.style.display = repair ? '' : 'none';
+    // Repairing already shows the corrected image; a fixed pipeline needs a correct input
+    document.getElementById('fixed-pane')!.style.display = repair ? 'none' : '';
+    document.getElementById('preview')!.classList.toggle('with-fix', !repair);
+    this.previewZoom.update();
+    this.glitchSelect.querySelectorAll<HTMLOptionElement>('option[value]').forEach(option => {
+      const glitch = glitchById.get(option.value);
+      option.disabled = repair && !!glitch && !glitch.repair;
+    });
+
+    this.renderStack();
     this.applyGlitch();
   }
 
-  private applyGlitch(): void {
-    if (!this.originalImageData || !this.currentGlitch) return;
+  /** Measures the repair report once the stack has stopped changing, e.g. at the end of a drag. */
+  private scheduleRepairReport(): void {
+    clearTimeout(this.repairReportTimer);
+    this.repairReportTimer = window.setTimeout(() => this.renderRepairReport(), REPAIR_REPORT_DELAY_MS);
+  }
+
+  /**
+   * Lists how well each enabled step undoes, measured in a worker by
+   * glitching and repairing the full image with the step's params.
+   */
+  private async renderRepairReport(): Promise<void> {
+    const report = document.getElementById('repair-report')!;
+    const image = this.originalImageData;
+    if (!image) return;
+    const steps = this.pipeline.getSteps().filter(step => step.enabled);
+    const repairable = steps.filter(step => step.glitch.repair);
+    const generation = this.renderGeneration;
+
+    let results: RoundTrip[];
+    try {
+      results = await this.repairRunner.check(image, repairable);
+    } catch (error) {
+      if (error instanceof CancelledError) return;
+      console.error('Failed to check repairs:', error);
+      return;
+    }
+    if (generation !== this.renderGeneration) return;
+
+    report.innerHTML = steps.map(step => {
+      if (!step.glitch.repair) {
+        return `<li class="repair-irreversible">${step.glitch.name}: irreversible, nothing can undo it</li>`;
+      }
+      const { reversibility, changedPixels } = results[repairable.indexOf(step)];
+      const detail = reversibility === 'exact'
+        ? 'exact, every pixel comes back'
+        : `lossy, ${(changedPixels * 100).toFixed(1)}% of pixels do not come back`;
+      return `<li class="repair-${reversibility}">${step.glitch.name}: ${detail}</li>`;
+    }).join('');
+  }
+
+  /**
+   * Runs the stack in the worker pool. Progressive runs first render a
+   * downscaled draft so slider drags stay responsive, then the full image.
+   */
+  private async applyGlitch(progressive = false): Promise<void> {
+    if (!this.originalImageData) return;
+    if (this.repairMode) {
+      this.scheduleRepairReport();
+    }
+    // A stack with an irreversible step can't be undone; the report says which
+    const unrepairable = this.repairMode &&
+      this.pipeline.getSteps().some(step => step.enabled && !step.glitch.repair);
+    if (this.pipeline.length === 0 || unrepairable) {
+      this.showOriginal();
+      return;
+    }
+
+    const generation = ++this.renderGeneration;
+    const runner = getGlitchRunner();
+    const recipe = this.pipeline.toRecipe();
+    const options: RunOptions = this.repairMode
+      ? { channel: 'sandbox', mode: 'repair' }
+      : { channel: 'sandbox', untilIndex: this.previewStage ?? undefined };
 
     try {
-      this.processedImageData = this.currentGlitch.apply(
-        this.originalImageData,
-        this.currentParams
-      );
+      if (progressive && this.draftImageData) {
+        const draft = await runner.run(this.draftImageData, recipe, options);
+        if (generation !== this.renderGeneration) return;
+        this.drawProcessed(this.viewOf(draft, this.draftImageData));
+      }
 
-      const canvas = imageDataToCanvas(this.processedImageData);
-      this.processedCanvas.width = canvas.width;
-      this.processedCanvas.height = canvas.height;
-      this.processedCanvas.getContext('2d')!.drawImage(canvas, 0, 0);
+      const result = await runner.run(this.originalImageData, recipe, options);
+      if (generation !== this.renderGeneration) return;
 
+      this.processedImageData = result;
+      this.drawProcessed(this.viewOf(result, this.originalImageData));
+      this.inspectPixel(this.hoveredPixel);
+      this.renderMetrics(this.originalImageData, result);
       this.downloadBtn.disabled = false;
+      this.exportRawBtn.disabled = this.repairMode;
+
+      if (!this.repairMode) {
+        const fixed = await runner.run(this.originalImageData, recipe, { ...options, mode: 'fix' });
+        if (generation !== this.renderGeneration) return;
+        this.drawProcessed(fixed, this.fixedCanvas);
+        this.describeFixed(fixed);
+      }
     } catch (error) {
+      if (error instanceof CancelledError) return;
       console.error('Failed to apply glitch:', error);
     }
   }
 
+  private drawProcessed(imageData: ImageData, target = this.processedCanvas): void {
+    const { width, height } = this.originalImageData!;
+    const canvas = imageDataToCanvas(imageData);
+    target.width = width;
+    target.height = height;
+
+    // Drafts are upscaled; keep their pixels crisp rather than smeared
+    const ctx = target.getContext('2d')!;
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(canvas, 0, 0, width, height);
+  }
+
+  /** The processed image as the selected view draws it, against `reference`. */
+  private viewOf(processed: ImageData, reference: ImageData): ImageData {
+    switch (this.processedView) {
+      case 'result':
+        return processed;
+      case 'heatmap':
+        return toImageData(diffHeatmap(reference, processed));
+      case 'amplified':
+        return toImageData(amplifyDifference(reference, processed, this.amplifyGain));
+    }
+  }
+
+  private redrawProcessed(): void {
+    if (this.originalImageData && this.processedImageData) {
+      this.drawProcessed(this.viewOf(this.processedImageData, this.originalImageData));
+    }
+  }
+
+  /**
+   * Quality metrics for the result against the input. Differences too small
+   * to see side by side, such as a half-pixel offset, still show up here.
+   */
+  private async renderMetrics(reference: ImageData, processed: ImageData): Promise<void> {
+    const panel = document.getElementById('metrics-panel')!;
+    const generation = this.renderGeneration;
+    let metrics: ImageMetrics;
+    try {
+      metrics = await this.metricsRunner.measure(reference, processed);
+    } catch (error) {
+      if (error instanceof CancelledError) return;
+      console.error('Failed to measure result:', error);
+      return;
+    }
+    if (generation !== this.renderGeneration) return;
+
+    const channels = (['r', 'g', 'b', 'a'] as const).map(c => `
+      <tr>
+        <th>${c.toUpperCase()}</th>
+        <td>${metrics.channels[c].mean.toFixed(2)}</td>
+        <td>${metrics.channels[c].max}</td>
+      </tr>
+    `).join('');
+
+    panel.style.display = '';
+    panel.innerHTML = `
+      <h3>Difference from the ${this.repairMode ? 'upload' : 'original'}</h3>
+      <dl class="metrics-summary">
+        <div><dt>PSNR</dt><dd>${Number.isFinite(metrics.psnr) ? `${metrics.psnr.toFixed(2)} dB` : '&infin; (identical)'}</dd></div>
+        <div><dt>SSIM</dt><dd>${metrics.ssim.toFixed(4)}</dd></div>
+        <div><dt>&Delta;E 2000 mean</dt><dd>${metrics.deltaE.mean.toFixed(2)}</dd></div>
+        <div><dt>&Delta;E 2000 max</dt><dd>${metrics.deltaE.max.toFixed(2)}</dd></div>
+      </dl>
+      <table class="metrics-channels">
+        <thead><tr><th>Channel</th><th>Mean abs. error</th><th>Max abs. error</th></tr></thead>
+        <tbody>${channels}</tbody>
+      </table>
+      <p class="metrics-hint">A &Delta;E around 1 is the smallest color difference most people notice; the heatmap scales its brightest color to the largest difference.</p>
+    `;
+  }
+
+  /**
+   * Shows the hovered pixel's values and, when every step only moves bytes
+   * around, which input bytes the buggy reads fetched them from. The source
+   * pixels are outlined in the original pane.
+   */
+  private inspectPixel(pixel: PixelPoint | null): void {
+    this.hoveredPixel = pixel;
+    const original = this.originalImageData;
+    if (!pixel || !original || pixel.x >= original.width || pixel.y >= original.height) {
+      this.pixelInspector.innerHTML = '<p class="inspector-hint">Hover a pixel to see its values and which bytes the buggy read loop fetched it from.</p>';
+      this.previewZoom.setHighlights([]);
+      this.renderHexView(null);
+      return;
+    }
+
+    const { x, y } = pixel;
+    const { width, height } = original;
+    const i = (y * width + x) * 4;
+    const processed = this.processedImageData ?? original;
+    const sourcePixels: PixelPoint[] = [];
+    const readBytes: number[] = [];
+    let provenance: string;
+
+    if (this.repairMode) {
+      provenance = '<p class="inspector-hint">Byte provenance follows the buggy pipeline forwards, so it is off while repairing.</p>';
+    } else {
+      const last = this.previewStage ?? this.pipeline.length - 1;
+      const trace = this.pipeline.trace(x, y, width, height, last);
+      if (!trace) {
+        const computed = this.pipeline.getSteps()
+          .slice(0, last + 1)
+          .filter(step => step.enabled && !step.glitch.provenance)
+          .map(step => step.glitch.name);
+        provenance = `<p class="inspector-hint">${computed.join(', ')} ${computed.length === 1 ? 'computes' : 'compute'} new values rather than moving bytes, so there are no source bytes to show.</p>`;
+      } else {
+        const channels = trace.sources.map((source, c) => {
+          if (source === null) {
+            return `<tr><th>${CHANNEL_NAMES[c]}</th><td>${processed.data[i + c]}</td><td colspan="3">not read from the input</td></tr>`;
+          }
+          readBytes.push(source);
+          const sourceX = Math.floor(source / 4) % width;
+          const sourceY = Math.floor(source / 4 / width);
+          if (!sourcePixels.some(p => p.x === sourceX && p.y === sourceY)) {
+            sourcePixels.push({ x: sourceX, y: sourceY });
+          }
+          return `
+            <tr>
+              <th>${CHANNEL_NAMES[c]}</th>
+              <td>${processed.data[i + c]}</td>
+              <td>${source}</td>
+              <td>(${sourceX}, ${sourceY}) ${CHANNEL_NAMES[source % 4]}</td>
+              <td>${original.data[source]}</td>
+            </tr>
+          `;
+        }).join('');
+        const steps = trace.steps.map(traced => `
+          <li><strong>${traced.step.glitch.name}</strong> at (${traced.x}, ${traced.y}): <code>${escapeAttr(traced.provenance.formula)}</code></li>
+        `).join('');
+
+        provenance = `
+          <table class="inspector-sources">
+            <thead><tr><th>Channel</th><th>Value</th><th>Read from byte</th><th>Input pixel</th><th>Input value</th></tr></thead>
+            <tbody>${channels}</tbody>
+          </table>
+          ${steps ? `<ol class="inspector-steps">${steps}</ol>` : ''}
+        `;
+      }
+    }
+
+    this.pixelInspector.innerHTML = `
+      <h3>Pixel (${x}, ${y})</h3>
+      <dl class="inspector-values">
+        <div><dt>${this.repairMode ? 'Repaired' : 'Glitched'}</dt><dd>${formatPixel(processed.data, i)}</dd></div>
+        <div><dt>${this.repairMode ? 'Uploaded' : 'Original'}</dt><dd>${formatPixel(original.data, i)}</dd></div>
+      </dl>
+      ${provenance}
+    `;
+    this.previewZoom.setHighlights([sourcePixels, [pixel], [pixel]]);
+    this.renderHexView({ expected: [i, i + 1, i + 2, i + 3], read: readBytes });
+  }
+
+  /**
+   * Lays the input's bytes out at the true stride and, when the first step
+   * reads rows at a different one, at the stride it assumes.
+   */
+  private renderHexView(highlight: HexHighlight | null): void {
+    const original = this.originalImageData;
+    if (!original) return;
+
+    const { width } = original;
+    const layouts: HexLayout[] = [
+      { title: `True stride: width * 4 = ${width * 4} bytes`, stride: width * 4, rowBytes: width * 4, pixelBytes: 4 },
+    ];
+    const last = this.previewStage ?? this.pipeline.length - 1;
+    const first = this.repairMode ? undefined : this.pipeline.getSteps().slice(0, last + 1).find(step => step.enabled);
+    const read = first?.glitch.readStride?.(width, normalizeParams(first.glitch, first.params));
+    if (first && read) {
+      const pixelBytes = read.rowBytes / width;
+      layouts.push({
+        title: `As ${first.glitch.name} reads it: ${read.stride}-byte stride`,
+        stride: read.stride,
+        rowBytes: read.rowBytes,
+        pixelBytes: Number.isInteger(pixelBytes) ? pixelBytes : 0,
+      });
+    }
+
+    this.hexView.setBytes(original.data, layouts);
+    this.hexView.highlight(highlight);
+  }
+
+  /** Hands the selected step to the read-loop debugger, on a tiny copy of the image. */
+  private loadReadDebugger(): void {
+    const step = this.selectedStep;
+    this.readDebugger.load(
+      step?.glitch ?? null,
+      step ? normalizeParams(step.glitch, step.params) : {},
+      this.debuggerImageData
+    );
+  }
+
+  /** Says how close the fixed pipeline got to the original. */
+  private describeFixed(fixed: ImageData): void {
+    const error = imageError(this.originalImageData!, fixed);
+    if (error === 0) {
+      this.fixedNote.textContent = 'Identical to the original: the fix restores every pixel.';
+    } else {
+      this.fixedNote.textContent = `${((1 - error) * 100).toFixed(1)}% similar to the original, as close as the fixed code gets.`;
+    }
+  }
+
+  /**
+   * Downloads the buffer as the last enabled step's buggy producer laid it
+   * out (padded rows, tiles, swapped words), plus a sidecar describing that
+   * layout. Steps without a memory layout export the result as packed RGBA8.
+   */
+  private async exportRawBuffer(): Promise<void> {
+    if (!this.originalImageData || !this.processedImageData) return;
+
+    const steps = this.pipeline.toRecipe();
+    const lastIndex = steps.map(s => s.enabled).lastIndexOf(true);
+    const { width, height } = this.originalImageData;
+    const layout = lastIndex === -1 ? null : stepRawLayout(steps[lastIndex], width, height);
+    const baseName = this.pipeline.getSteps()
+      .filter(s => s.enabled)
+      .map(s => s.glitch.id)
+      .join('+') || 'glitched';
+
+    try {
+      // The producer wrote the image entering the buggy step, not the glitched result
+      const image = layout
+        ? await getGlitchRunner().run(this.originalImageData, steps, { untilIndex: lastIndex - 1 })
+        : this.processedImageData;
+      const { bytes, sidecar } = exportRaw(image, layout ?? packedRgba8Layout(width, height), formatRecipe(steps));
+
+      downloadBlob(new Blob([bytes], { type: 'application/octet-stream' }), `${baseName}.bin`);
+      downloadText(JSON.stringify(sidecar, null, 2), `${baseName}.json`);
+    } catch (error) {
+      console.error('Failed to export raw buffer:', error);
+      alert('Failed to export raw buffer.');
+    }
+  }
+
+  /**
+   * Guesses the layout of the raw buffer if one is loaded. Otherwise the
+   * glitched result's bytes are treated as memory that was read with the
+   * wrong layout, which is what a screenshot of a sheared image is.
+   */
+  private analyzeLayout(): void {
+    if (this.sourceIsRaw) {
+      this.layoutAnalyzer.analyze(this.rawImporter.getBytes(), 'raw buffer');
+      return;
+    }
+    const image = this.processedImageData ?? this.originalImageData;
+    if (!image) return;
+    const bytes = new Uint8Array(image.data.buffer, image.data.byteOffset, image.data.byteLength);
+    this.layoutAnalyzer.analyze(bytes, this.processedImageData ? 'glitched result as RGBA bytes' : 'image as RGBA bytes');
+  }
+
   private updateGlitchInfo(): void {
-    if (!this.currentGlitch) {
+    const glitch = this.selectedStep?.glitch;
+    if (!glitch) {
       this.hideGlitchInfo();
       return;
     }
@@ -345,11 +1306,11 @@ export class Sandbox {
     const infoSection = document.getElementById('glitch-info')!;
     infoSection.style.display = 'block';
 
-    document.getElementById('glitch-info-title')!.textContent = this.currentGlitch.name;
-    document.getElementById('glitch-info-desc')!.textContent = this.currentGlitch.description;
-    document.getElementById('glitch-info-technical')!.textContent = this.currentGlitch.technicalDetails;
-    document.getElementById('glitch-info-bug')!.textContent = this.currentGlitch.bugCode;
-    document.getElementById('glitch-info-fix')!.textContent = this.currentGlitch.fixCode;
+    document.getElementById('glitch-info-title')!.textContent = glitch.name;
+    document.getElementById('glitch-info-desc')!.textContent = glitch.description;
+    document.getElementById('glitch-info-technical')!.textContent = glitch.technicalDetails;
+    document.getElementById('glitch-info-bug')!.textContent = glitch.bugCode;
+    document.getElementById('glitch-info-fix')!.textContent = glitch.fixCode;
   }
 
   private hideGlitchInfo(): void {
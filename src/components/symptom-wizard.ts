@@ -0,0 +1,121 @@
+import { glitches, matchSymptoms, nextSymptomQuestion, symptomQuestionBySymptom } from '../glitches';
+import type { GlitchDefinition, GlitchSymptom, SymptomAnswer, SymptomAnswers } from '../glitches';
+
+const ANSWER_LABELS: Record<SymptomAnswer, string> = {
+  yes: 'Yes',
+  no: 'No',
+  unsure: 'Not sure',
+};
+
+/**
+ * Asks yes/no questions about what a broken image looks like, narrowing the
+ * glitch list after each answer. `onChange` receives the remaining matches;
+ * `finished` is true once no further question would tell them apart.
+ */
+export class SymptomWizard {
+  private container: HTMLElement;
+  private onChange: (matches: GlitchDefinition[], finished: boolean) => void;
+  private onClose: () => void;
+  /** In the order asked, so Back can undo the last answer. */
+  private history: { symptom: GlitchSymptom; answer: SymptomAnswer }[] = [];
+
+  constructor(
+    container: HTMLElement,
+    onChange: (matches: GlitchDefinition[], finished: boolean) => void,
+    onClose: () => void
+  ) {
+    this.container = container;
+    this.onChange = onChange;
+    this.onClose = onClose;
+    this.setupEventListeners();
+  }
+
+  start(): void {
+    this.history = [];
+    this.container.style.display = 'block';
+    this.update();
+  }
+
+  hide(): void {
+    this.container.style.display = 'none';
+  }
+
+  private get answers(): SymptomAnswers {
+    const answers: SymptomAnswers = {};
+    for (const { symptom, answer } of this.history) {
+      answers[symptom] = answer;
+    }
+    return answers;
+  }
+
+  private setupEventListeners(): void {
+    this.container.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest<HTMLElement>('[data-action]');
+      if (!button) return;
+
+      switch (button.dataset.action) {
+        case 'answer':
+          this.history.push({
+            symptom: button.dataset.symptom as GlitchSymptom,
+            answer: button.dataset.answer as SymptomAnswer,
+          });
+          break;
+        case 'back':
+          this.history.pop();
+          break;
+        case 'restart':
+          this.history = [];
+          break;
+        case 'close':
+          this.hide();
+          this.onClose();
+          return;
+      }
+      this.update();
+    });
+  }
+
+  private update(): void {
+    const answers = this.answers;
+    const matches = matchSymptoms(glitches, answers);
+    const question = nextSymptomQuestion(matches, answers);
+
+    const asked = this.history.map(({ symptom, answer }) => `
+      <li>${symptomQuestionBySymptom.get(symptom)!.question} <strong>${ANSWER_LABELS[answer]}</strong></li>
+    `).join('');
+
+    let body: string;
+    if (matches.length === 0) {
+      body = `<p class="symptom-result">No glitch matches every answer. Go back and try "Not sure" on a question you were unsure about.</p>`;
+    } else if (question) {
+      body = `
+        <p class="symptom-question">${question.question}</p>
+        ${question.hint ? `<p class="symptom-hint">${question.hint}</p>` : ''}
+        <div class="symptom-answers">
+          ${(['yes', 'no', 'unsure'] as const).map(answer => `
+            <button class="btn btn-small ${answer === 'yes' ? 'btn-primary' : 'btn-secondary'}"
+              data-action="answer" data-symptom="${question.symptom}" data-answer="${answer}">${ANSWER_LABELS[answer]}</button>
+          `).join('')}
+        </div>
+      `;
+    } else {
+      body = `<p class="symptom-result">${matches.length === 1 ? 'This is the likely bug' : `These ${matches.length} bugs fit`}, with the buggy and fixed code below.</p>`;
+    }
+
+    this.container.innerHTML = `
+      <div class="symptom-wizard-header">
+        <h3>Find by Symptom</h3>
+        <span class="symptom-count">${matches.length} of ${glitches.length} glitches match</span>
+        <button class="btn btn-small btn-secondary" data-action="close">Close</button>
+      </div>
+      ${asked ? `<ol class="symptom-history">${asked}</ol>` : ''}
+      ${body}
+      <div class="symptom-nav">
+        <button class="btn btn-small btn-secondary" data-action="back" ${this.history.length ? '' : 'disabled'}>Back</button>
+        <button class="btn btn-small btn-secondary" data-action="restart" ${this.history.length ? '' : 'disabled'}>Start over</button>
+      </div>
+    `;
+
+    this.onChange(matches, question === null);
+  }
+}
@@ -0,0 +1,35 @@
+import { normalizeParams } from './params';
+import type { GlitchDefinition, GlitchParams, PixelProvenance } from './types';
+
+/** One iteration of a buggy read loop: the output pixel it writes and where its bytes come from. */
+export interface PixelRead extends PixelProvenance {
+  /** Position in the loop, 0 for the first pixel. */
+  index: number;
+  x: number;
+  y: number;
+}
+
+/**
+ * A glitch's read loop as a sequence, one output pixel at a time in the order
+ * `apply` writes them: row by row, left to right. Null for glitches without
+ * provenance, whose output is computed rather than read from somewhere.
+ */
+export function addressMapping(
+  glitch: GlitchDefinition,
+  width: number,
+  height: number,
+  params: GlitchParams
+): Iterable<PixelRead> | null {
+  if (!glitch.provenance) return null;
+  const normalized = normalizeParams(glitch, params);
+
+  return {
+    *[Symbol.iterator]() {
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          yield { index: y * width + x, x, y, ...glitch.provenance!(x, y, width, height, normalized) };
+        }
+      }
+    },
+  };
+}
@@ -1,6 +1,92 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
+import { defineGlitch } from '../types';
+import type { ParamsOf, PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
 
-export const aspectRatio: GlitchDefinition = {
+const params = [
+  {
+    name: 'mode',
+    type: 'select',
+    options: [
+      { value: 'swap-width-height', label: 'Swap Width/Height' },
+      { value: 'force-square', label: 'Force Square' },
+      { value: 'wrong-aspect-scale', label: 'Wrong Aspect Scale' }
+    ],
+    default: 'swap-width-height',
+    description: 'Type of aspect ratio error'
+  },
+  {
+    name: 'scaleX',
+    type: 'range',
+    min: 0.25,
+    max: 2,
+    step: 0.1,
+    scale: 'log',
+    default: 1,
+    description: 'Horizontal scale factor',
+    visibleWhen: { param: 'mode', oneOf: ['wrong-aspect-scale'] }
+  },
+  {
+    name: 'scaleY',
+    type: 'range',
+    min: 0.25,
+    max: 2,
+    step: 0.1,
+    scale: 'log',
+    default: 1,
+    description: 'Vertical scale factor',
+    visibleWhen: { param: 'mode', oneOf: ['wrong-aspect-scale'] }
+  }
+] as const;
+
+/** The pixel sampled for output pixel (x, y) with the given (possibly wrong) dimensions handling. */
+function sourcePixel(
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  mode: ParamsOf<typeof params>['mode'],
+  scaleX: number,
+  scaleY: number
+): [number, number] {
+  let srcX: number, srcY: number;
+
+  switch (mode) {
+    case 'swap-width-height':
+      // Sample as if width and height were swapped
+      // This causes the image to be read diagonally
+      const normalizedX = x / width;
+      const normalizedY = y / height;
+      srcX = Math.floor(normalizedY * (width - 1));
+      srcY = Math.floor(normalizedX * (height - 1));
+      break;
+
+    case 'force-square':
+      // Force square aspect ratio on non-square image
+      const maxDim = Math.max(width, height);
+      srcX = Math.floor((x / width) * maxDim) % width;
+      srcY = Math.floor((y / height) * maxDim) % height;
+      break;
+
+    case 'wrong-aspect-scale':
+      // Apply incorrect scaling
+      const centerX = width / 2;
+      const centerY = height / 2;
+      srcX = Math.floor(centerX + (x - centerX) / scaleX);
+      srcY = Math.floor(centerY + (y - centerY) / scaleY);
+      srcX = Math.max(0, Math.min(width - 1, srcX));
+      srcY = Math.max(0, Math.min(height - 1, srcY));
+      break;
+
+    default:
+      srcX = x;
+      srcY = y;
+  }
+
+  // Clamp to valid range
+  return [Math.max(0, Math.min(width - 1, srcX)), Math.max(0, Math.min(height - 1, srcY))];
+}
+
+export const aspectRatio = defineGlitch({
   id: 'aspect-ratio',
   name: 'Aspect Ratio',
   category: 'coordinates',
@@ -23,83 +109,42 @@ void loadTexture(const char* filename) {
         img.width, img.height,  // Correct order
         0, GL_RGBA, GL_UNSIGNED_BYTE, img.data);
 }`,
-  params: [
-    {
-      name: 'mode',
-      type: 'select',
-      options: ['Swap Width/Height', 'Force Square', 'Wrong Aspect Scale'],
-      default: 'Swap Width/Height',
-      description: 'Type of aspect ratio error'
-    },
-    {
-      name: 'scaleX',
-      type: 'range',
-      min: 0.25,
-      max: 2,
-      step: 0.1,
-      default: 1,
-      description: 'Horizontal scale factor'
-    },
-    {
-      name: 'scaleY',
-      type: 'range',
-      min: 0.25,
-      max: 2,
-      step: 0.1,
-      default: 1,
-      description: 'Vertical scale factor'
-    }
-  ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
+  symptoms: ['stretched'],
+  testPattern: 'uv-grid',
+  params,
+  // Width and height passed in the right order map the image 1:1
+  fix: (imageData, params): PixelBuffer => aspectRatio.apply(imageData, {
+    ...params,
+    mode: 'wrong-aspect-scale',
+    scaleX: 1,
+    scaleY: 1,
+  }),
+  provenance: (x, y, width, height, params) => {
+    const [srcX, srcY] = sourcePixel(x, y, width, height, params.mode, params.scaleX, params.scaleY);
+    const srcIdx = (srcY * width + srcX) * 4;
+    const mapping = {
+      'swap-width-height': `(y / height * (width - 1), x / width * (height - 1))`,
+      'force-square': `(x / width * ${Math.max(width, height)} % width, y / height * ${Math.max(width, height)} % height)`,
+      'wrong-aspect-scale': `(width / 2 + (x - width / 2) / ${params.scaleX}, height / 2 + (y - height / 2) / ${params.scaleY})`,
+    }[params.mode];
+    return {
+      sources: [srcIdx, srcIdx + 1, srcIdx + 2, srcIdx + 3],
+      formula: `${mapping} = (${srcX}, ${srcY}), byte ${srcIdx}`,
+    };
+  },
+  apply: (imageData, params): PixelBuffer => {
     const { width, height, data } = imageData;
-    const mode = (params.mode as string) || 'Swap Width/Height';
-    const scaleX = (params.scaleX as number) || 1;
-    const scaleY = (params.scaleY as number) || 1;
-    const output = new ImageData(width, height);
+    const mode = params.mode;
+    const scaleX = params.scaleX;
+    const scaleY = params.scaleY;
+    const output = createPixelBuffer(width, height);
     const outData = output.data;
 
     for (let y = 0; y < height; y++) {
       for (let x = 0; x < width; x++) {
         const outIdx = (y * width + x) * 4;
 
-        let srcX: number, srcY: number;
-
-        switch (mode) {
-          case 'Swap Width/Height':
-            // Sample as if width and height were swapped
-            // This causes the image to be read diagonally
-            const normalizedX = x / width;
-            const normalizedY = y / height;
-            srcX = Math.floor(normalizedY * (width - 1));
-            srcY = Math.floor(normalizedX * (height - 1));
-            break;
-
-          case 'Force Square':
-            // Force square aspect ratio on non-square image
-            const maxDim = Math.max(width, height);
-            srcX = Math.floor((x / width) * maxDim) % width;
-            srcY = Math.floor((y / height) * maxDim) % height;
-            break;
-
-          case 'Wrong Aspect Scale':
-            // Apply incorrect scaling
-            const centerX = width / 2;
-            const centerY = height / 2;
-            srcX = Math.floor(centerX + (x - centerX) / scaleX);
-            srcY = Math.floor(centerY + (y - centerY) / scaleY);
-            srcX = Math.max(0, Math.min(width - 1, srcX));
-            srcY = Math.max(0, Math.min(height - 1, srcY));
-            break;
-
-          default:
-            srcX = x;
-            srcY = y;
-        }
-
-        // Clamp to valid range
-        srcX = Math.max(0, Math.min(width - 1, srcX));
-        srcY = Math.max(0, Math.min(height - 1, srcY));
-
+        const [srcX, srcY] = sourcePixel(x, y, width, height, mode, scaleX, scaleY);
         const srcIdx = (srcY * width + srcX) * 4;
 
         outData[outIdx] = data[srcIdx];
@@ -111,4 +156,4 @@ void loadTexture(const char* filename) {
 
     return output;
   }
-};
+});
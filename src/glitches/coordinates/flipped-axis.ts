@@ -1,6 +1,8 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
+import { defineGlitch } from '../types';
+import type { PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
 
-export const flippedAxis: GlitchDefinition = {
+export const flippedAxis = defineGlitch({
   id: 'flipped-axis',
   name: 'Flipped Axis',
   category: 'coordinates',
@@ -23,19 +25,42 @@ for (int y = 0; y < height; y++) {
            imageData + srcY * stride, stride);
 }
 // Or set GL_UNPACK_FLIP_Y in OpenGL`,
+  symptoms: ['flipped'],
+  testPattern: 'uv-grid',
   params: [
     {
       name: 'flipMode',
       type: 'select',
-      options: ['Flip Vertical', 'Flip Horizontal', 'Flip Both', 'Rotate 180'],
-      default: 'Flip Vertical',
+      options: [
+        { value: 'flip-vertical', label: 'Flip Vertical' },
+        { value: 'flip-horizontal', label: 'Flip Horizontal' },
+        { value: 'flip-both', label: 'Flip Both' },
+        { value: 'rotate-180', label: 'Rotate 180' }
+      ],
+      default: 'flip-vertical',
       description: 'Type of axis flip to apply'
     }
   ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
+  // Flipping twice restores the image
+  repair: (imageData, params): PixelBuffer => flippedAxis.apply(imageData, params),
+  // The fixed loader flips the stored rows back on read
+  fix: (imageData, params): PixelBuffer => flippedAxis.apply(flippedAxis.apply(imageData, params), params),
+  provenance: (x, y, width, height, params) => {
+    const flipX = params.flipMode !== 'flip-vertical';
+    const flipY = params.flipMode !== 'flip-horizontal';
+    const srcX = flipX ? width - 1 - x : x;
+    const srcY = flipY ? height - 1 - y : y;
+    const srcIdx = (srcY * width + srcX) * 4;
+    return {
+      sources: [srcIdx, srcIdx + 1, srcIdx + 2, srcIdx + 3],
+      formula: `(${flipX ? 'width - 1 - x' : 'x'}, ${flipY ? 'height - 1 - y' : 'y'}) = (${srcX}, ${srcY}), ` +
+        `byte (${srcY} * ${width} + ${srcX}) * 4 = ${srcIdx}`,
+    };
+  },
+  apply: (imageData, params): PixelBuffer => {
     const { width, height, data } = imageData;
-    const flipMode = (params.flipMode as string) || 'Flip Vertical';
-    const output = new ImageData(width, height);
+    const flipMode = params.flipMode;
+    const output = createPixelBuffer(width, height);
     const outData = output.data;
 
     for (let y = 0; y < height; y++) {
@@ -46,17 +71,17 @@ for (int y = 0; y < height; y++) {
         let srcY = y;
 
         switch (flipMode) {
-          case 'Flip Vertical':
+          case 'flip-vertical':
             srcY = height - 1 - y;
             break;
-          case 'Flip Horizontal':
+          case 'flip-horizontal':
             srcX = width - 1 - x;
             break;
-          case 'Flip Both':
+          case 'flip-both':
             srcX = width - 1 - x;
             srcY = height - 1 - y;
             break;
-          case 'Rotate 180':
+          case 'rotate-180':
             srcX = width - 1 - x;
             srcY = height - 1 - y;
             break;
@@ -73,4 +98,4 @@ for (int y = 0; y < height; y++) {
 
     return output;
   }
-};
+});
@@ -1,6 +1,8 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
+import { defineGlitch } from '../types';
+import type { PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
 
-export const halfPixel: GlitchDefinition = {
+export const halfPixel = defineGlitch({
   id: 'half-pixel',
   name: 'Half-Pixel Offset',
   category: 'coordinates',
@@ -29,24 +31,17 @@ float2 halfPixel = 0.5 / screenSize;
 float2 texCoord = screenPos / screenSize + halfPixel;
 
 // Or use SV_Position which already has the offset applied`,
+  symptoms: ['blurry', 'shifted', 'edges-only'],
+  testPattern: 'zone-plate',
   params: [
     {
-      name: 'offsetX',
-      type: 'range',
+      name: 'offset',
+      type: 'vec2',
       min: -1,
       max: 1,
       step: 0.1,
-      default: 0.5,
-      description: 'Horizontal pixel offset'
-    },
-    {
-      name: 'offsetY',
-      type: 'range',
-      min: -1,
-      max: 1,
-      step: 0.1,
-      default: 0.5,
-      description: 'Vertical pixel offset'
+      default: [0.5, 0.5],
+      description: 'Sample offset in pixels (x, y)'
     },
     {
       name: 'useFiltering',
@@ -55,12 +50,29 @@ float2 texCoord = screenPos / screenSize + halfPixel;
       description: 'Apply bilinear filtering (shows blur from bad offset)'
     }
   ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
+  presets: [
+    {
+      name: 'D3D9 half pixel',
+      description: 'D3D9 texel mapping on a modern API, bilinear filtered',
+      params: { offset: [0.5, 0.5], useFiltering: true }
+    },
+    {
+      name: 'D3D9 half pixel (point sampled)',
+      description: 'Same offset with point sampling: sharp but shifted',
+      params: { offset: [0.5, 0.5], useFiltering: false }
+    },
+    {
+      name: 'Horizontal only',
+      params: { offset: [0.5, 0] }
+    }
+  ],
+  // Sampling at texel centres lands exactly on each pixel
+  fix: (imageData, params): PixelBuffer => halfPixel.apply(imageData, { ...params, offset: [0, 0] }),
+  apply: (imageData, params): PixelBuffer => {
     const { width, height, data } = imageData;
-    const offsetX = (params.offsetX as number) ?? 0.5;
-    const offsetY = (params.offsetY as number) ?? 0.5;
+    const [offsetX, offsetY] = params.offset;
     const useFiltering = params.useFiltering !== false;
-    const output = new ImageData(width, height);
+    const output = createPixelBuffer(width, height);
     const outData = output.data;
 
     const getPixel = (x: number, y: number): [number, number, number, number] => {
@@ -115,4 +127,4 @@ float2 texCoord = screenPos / screenSize + halfPixel;
 
     return output;
   }
-};
+});
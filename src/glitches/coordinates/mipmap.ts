@@ -1,6 +1,54 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
+import { defineGlitch } from '../types';
+import type { PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
+
+/** The full chain glGenerateMipmap would build, level 0 first, each a 2x2 box filter of the last. */
+function buildMipChain(image: PixelBuffer): PixelBuffer[] {
+  const mipLevels: PixelBuffer[] = [image];
+  let mipW = image.width;
+  let mipH = image.height;
+
+  while (mipW > 1 || mipH > 1) {
+    const prevMip = mipLevels[mipLevels.length - 1];
+    const newW = Math.max(1, Math.floor(mipW / 2));
+    const newH = Math.max(1, Math.floor(mipH / 2));
+    const newMip = createPixelBuffer(newW, newH);
+
+    // Box filter downsample
+    for (let y = 0; y < newH; y++) {
+      for (let x = 0; x < newW; x++) {
+        const srcX = x * 2;
+        const srcY = y * 2;
+        let r = 0, g = 0, b = 0, a = 0, count = 0;
+
+        for (let dy = 0; dy < 2 && srcY + dy < mipH; dy++) {
+          for (let dx = 0; dx < 2 && srcX + dx < mipW; dx++) {
+            const idx = ((srcY + dy) * mipW + (srcX + dx)) * 4;
+            r += prevMip.data[idx];
+            g += prevMip.data[idx + 1];
+            b += prevMip.data[idx + 2];
+            a += prevMip.data[idx + 3];
+            count++;
+          }
+        }
+
+        const outIdx = (y * newW + x) * 4;
+        newMip.data[outIdx] = Math.round(r / count);
+        newMip.data[outIdx + 1] = Math.round(g / count);
+        newMip.data[outIdx + 2] = Math.round(b / count);
+        newMip.data[outIdx + 3] = Math.round(a / count);
+      }
+    }
 
-export const mipmap: GlitchDefinition = {
+    mipLevels.push(newMip);
+    mipW = newW;
+    mipH = newH;
+  }
+
+  return mipLevels;
+}
+
+export const mipmap = defineGlitch({
   id: 'mipmap',
   name: 'Mipmap LOD Errors',
   category: 'coordinates',
@@ -27,12 +75,19 @@ glGenerateMipmap(GL_TEXTURE_2D);  // Generate all mip levels
 glTexParameterf(GL_TEXTURE_2D, GL_TEXTURE_LOD_BIAS, 0.0);
 // Or use anisotropic filtering for better quality at angles:
 glTexParameterf(GL_TEXTURE_2D, GL_TEXTURE_MAX_ANISOTROPY, 16.0);`,
+  symptoms: ['blurry', 'pixelated'],
+  testPattern: 'zone-plate',
   params: [
     {
       name: 'mode',
       type: 'select',
-      options: ['Too blurry (high LOD)', 'Aliased (low LOD)', 'Wrong mip level', 'Visualize mip levels'],
-      default: 'Too blurry (high LOD)',
+      options: [
+        { value: 'too-blurry', label: 'Too blurry (high LOD)' },
+        { value: 'aliased', label: 'Aliased (low LOD)' },
+        { value: 'wrong-mip-level', label: 'Wrong mip level' },
+        { value: 'visualize-mip-levels', label: 'Visualize mip levels' }
+      ],
+      default: 'too-blurry',
       description: 'Type of mipmap error'
     },
     {
@@ -42,58 +97,34 @@ glTexParameterf(GL_TEXTURE_2D, GL_TEXTURE_MAX_ANISOTROPY, 16.0);`,
       max: 4,
       step: 0.5,
       default: 2,
-      description: 'LOD bias (mipmap level offset)'
+      description: 'LOD bias (mipmap level offset)',
+      visibleWhen: { param: 'mode', oneOf: ['too-blurry', 'visualize-mip-levels'] }
     }
   ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
-    const { width, height, data } = imageData;
-    const mode = (params.mode as string) || 'Too blurry (high LOD)';
-    const lodBias = (params.lodBias as number) || 2;
-    const output = new ImageData(width, height);
-    const outData = output.data;
+  // LOD bias 0 picks the full-resolution level for a 1:1 draw
+  fix: (imageData): PixelBuffer => {
+    const { width, height } = imageData;
+    const output = createPixelBuffer(width, height);
+    const level = buildMipChain(imageData)[0];
 
-    // Pre-compute mip levels
-    const mipLevels: ImageData[] = [imageData];
-    let mipW = width;
-    let mipH = height;
-
-    while (mipW > 1 || mipH > 1) {
-      const prevMip = mipLevels[mipLevels.length - 1];
-      const newW = Math.max(1, Math.floor(mipW / 2));
-      const newH = Math.max(1, Math.floor(mipH / 2));
-      const newMip = new ImageData(newW, newH);
-
-      // Box filter downsample
-      for (let y = 0; y < newH; y++) {
-        for (let x = 0; x < newW; x++) {
-          const srcX = x * 2;
-          const srcY = y * 2;
-          let r = 0, g = 0, b = 0, a = 0, count = 0;
-
-          for (let dy = 0; dy < 2 && srcY + dy < mipH; dy++) {
-            for (let dx = 0; dx < 2 && srcX + dx < mipW; dx++) {
-              const idx = ((srcY + dy) * mipW + (srcX + dx)) * 4;
-              r += prevMip.data[idx];
-              g += prevMip.data[idx + 1];
-              b += prevMip.data[idx + 2];
-              a += prevMip.data[idx + 3];
-              count++;
-            }
-          }
-
-          const outIdx = (y * newW + x) * 4;
-          newMip.data[outIdx] = Math.round(r / count);
-          newMip.data[outIdx + 1] = Math.round(g / count);
-          newMip.data[outIdx + 2] = Math.round(b / count);
-          newMip.data[outIdx + 3] = Math.round(a / count);
-        }
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const idx = (y * width + x) * 4;
+        output.data.set(level.data.subarray(idx, idx + 4), idx);
       }
-
-      mipLevels.push(newMip);
-      mipW = newW;
-      mipH = newH;
     }
 
+    return output;
+  },
+  apply: (imageData, params): PixelBuffer => {
+    const { width, height, data } = imageData;
+    const mode = params.mode;
+    const lodBias = params.lodBias;
+    const output = createPixelBuffer(width, height);
+    const outData = output.data;
+
+    const mipLevels = buildMipChain(imageData);
+
     // Mip level colors for visualization
     const mipColors = [
       [255, 0, 0], [0, 255, 0], [0, 0, 255], [255, 255, 0],
@@ -108,17 +139,17 @@ glTexParameterf(GL_TEXTURE_2D, GL_TEXTURE_MAX_ANISOTROPY, 16.0);`,
         let mipLevel: number;
 
         switch (mode) {
-          case 'Too blurry (high LOD)':
+          case 'too-blurry':
             mipLevel = Math.min(mipLevels.length - 1, Math.floor(lodBias));
             break;
-          case 'Aliased (low LOD)':
+          case 'aliased':
             mipLevel = 0; // Always use highest detail (causes aliasing at distance)
             break;
-          case 'Wrong mip level':
+          case 'wrong-mip-level':
             // Randomly wrong mip level per region
             mipLevel = Math.floor((x + y) / 32) % mipLevels.length;
             break;
-          case 'Visualize mip levels':
+          case 'visualize-mip-levels':
             mipLevel = Math.min(mipLevels.length - 1, Math.floor(lodBias));
             break;
           default:
@@ -131,7 +162,7 @@ glTexParameterf(GL_TEXTURE_2D, GL_TEXTURE_MAX_ANISOTROPY, 16.0);`,
         const srcY = Math.floor(y / scale) % mip.height;
         const srcIdx = (srcY * mip.width + srcX) * 4;
 
-        if (mode === 'Visualize mip levels') {
+        if (mode === 'visualize-mip-levels') {
           // Tint with mip level color
           const color = mipColors[mipLevel % mipColors.length];
           outData[outIdx] = Math.round((mip.data[srcIdx] + color[0]) / 2);
@@ -148,4 +179,4 @@ glTexParameterf(GL_TEXTURE_2D, GL_TEXTURE_MAX_ANISOTROPY, 16.0);`,
 
     return output;
   }
-};
+});
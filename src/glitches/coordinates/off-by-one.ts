@@ -1,6 +1,8 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
+import { defineGlitch } from '../types';
+import type { PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
 
-export const offByOne: GlitchDefinition = {
+export const offByOne = defineGlitch({
   id: 'off-by-one',
   name: 'Off-by-One',
   category: 'coordinates',
@@ -23,22 +25,26 @@ for (int y = 0; y < height; y++) {  // < not <=
         pixel = data[idx];
     }
 }`,
+  symptoms: ['shifted', 'edges-only'],
+  testPattern: 'uv-grid',
   params: [
     {
       name: 'xOffset',
-      type: 'range',
+      type: 'integer',
       min: -5,
       max: 5,
       step: 1,
+      unit: 'px',
       default: 1,
       description: 'Horizontal pixel offset'
     },
     {
       name: 'yOffset',
-      type: 'range',
+      type: 'integer',
       min: -5,
       max: 5,
       step: 1,
+      unit: 'px',
       default: 1,
       description: 'Vertical pixel offset'
     },
@@ -49,12 +55,38 @@ for (int y = 0; y < height; y++) {  // < not <=
       description: 'Wrap around at edges instead of clamping'
     }
   ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
+  // Exact when edges wrap; clamped edges lose the rows and columns shifted out
+  repair: (imageData, params): PixelBuffer => offByOne.apply(imageData, {
+    ...params,
+    xOffset: -params.xOffset,
+    yOffset: -params.yOffset,
+  }),
+  // Loop bounds of [0, width) and [0, height) read every pixel in place
+  fix: (imageData, params): PixelBuffer => offByOne.apply(imageData, { ...params, xOffset: 0, yOffset: 0 }),
+  provenance: (x, y, width, height, params) => {
+    let srcX = x + params.xOffset;
+    let srcY = y + params.yOffset;
+    const wrapEdges = params.wrapEdges !== false;
+    if (wrapEdges) {
+      srcX = ((srcX % width) + width) % width;
+      srcY = ((srcY % height) + height) % height;
+    } else {
+      srcX = Math.max(0, Math.min(width - 1, srcX));
+      srcY = Math.max(0, Math.min(height - 1, srcY));
+    }
+    const srcIdx = (srcY * width + srcX) * 4;
+    return {
+      sources: [srcIdx, srcIdx + 1, srcIdx + 2, srcIdx + 3],
+      formula: `(x + xOffset, y + yOffset) = (${x + params.xOffset}, ${y + params.yOffset}), ` +
+        `${wrapEdges ? 'wrapped' : 'clamped'} to (${srcX}, ${srcY}), byte ${srcIdx}`,
+    };
+  },
+  apply: (imageData, params): PixelBuffer => {
     const { width, height, data } = imageData;
-    const xOffset = (params.xOffset as number) || 1;
-    const yOffset = (params.yOffset as number) || 1;
+    const xOffset = params.xOffset;
+    const yOffset = params.yOffset;
     const wrapEdges = params.wrapEdges !== false;
-    const output = new ImageData(width, height);
+    const output = createPixelBuffer(width, height);
     const outData = output.data;
 
     for (let y = 0; y < height; y++) {
@@ -83,4 +115,4 @@ for (int y = 0; y < height; y++) {  // < not <=
 
     return output;
   }
-};
+});
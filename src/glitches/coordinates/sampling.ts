@@ -1,6 +1,42 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
+import { defineGlitch } from '../types';
+import type { PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
 
-export const sampling: GlitchDefinition = {
+type Rgba = [number, number, number, number];
+
+/** Nearest texel to (x, y), clamped to the edge. */
+function getPixel(image: PixelBuffer, x: number, y: number): Rgba {
+  const { width, height, data } = image;
+  x = Math.max(0, Math.min(width - 1, Math.floor(x)));
+  y = Math.max(0, Math.min(height - 1, Math.floor(y)));
+  const idx = (y * width + x) * 4;
+  return [data[idx], data[idx + 1], data[idx + 2], data[idx + 3]];
+}
+
+/** Blend of the four texels around (x, y), weighted by distance. */
+function bilinear(image: PixelBuffer, x: number, y: number): Rgba {
+  const x0 = Math.floor(x);
+  const y0 = Math.floor(y);
+  const x1 = Math.min(x0 + 1, image.width - 1);
+  const y1 = Math.min(y0 + 1, image.height - 1);
+  const fx = x - x0;
+  const fy = y - y0;
+
+  const p00 = getPixel(image, x0, y0);
+  const p10 = getPixel(image, x1, y0);
+  const p01 = getPixel(image, x0, y1);
+  const p11 = getPixel(image, x1, y1);
+
+  const result: Rgba = [0, 0, 0, 0];
+  for (let c = 0; c < 4; c++) {
+    const top = p00[c] * (1 - fx) + p10[c] * fx;
+    const bottom = p01[c] * (1 - fx) + p11[c] * fx;
+    result[c] = Math.round(top * (1 - fy) + bottom * fy);
+  }
+  return result;
+}
+
+export const sampling = defineGlitch({
   id: 'sampling',
   name: 'Wrong Texture Sampling',
   category: 'coordinates',
@@ -27,83 +63,73 @@ if (isPixelArt) {
     glTexParameteri(GL_TEXTURE_2D, GL_TEXTURE_MAG_FILTER, GL_LINEAR);
     glTexParameteri(GL_TEXTURE_2D, GL_TEXTURE_MIN_FILTER, GL_LINEAR_MIPMAP_LINEAR);
 }`,
+  symptoms: ['pixelated', 'blurry', 'blocky-grid'],
+  testPattern: 'zone-plate',
   params: [
     {
       name: 'mode',
       type: 'select',
-      options: ['Nearest (blocky)', 'Exaggerated nearest (pixelate)', 'Bad bilinear (blurry)'],
-      default: 'Nearest (blocky)',
+      options: [
+        { value: 'nearest', label: 'Nearest (blocky)' },
+        { value: 'exaggerated-nearest', label: 'Exaggerated nearest (pixelate)' },
+        { value: 'bad-bilinear', label: 'Bad bilinear (blurry)' }
+      ],
+      default: 'nearest',
       description: 'Sampling mode to simulate'
     },
     {
       name: 'scale',
-      type: 'range',
+      type: 'integer',
       min: 2,
       max: 16,
       step: 1,
+      unit: 'px',
       default: 4,
       description: 'Scale factor for pixelation/blur'
     }
   ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
-    const { width, height, data } = imageData;
-    const mode = (params.mode as string) || 'Nearest (blocky)';
-    const scale = (params.scale as number) || 4;
-    const output = new ImageData(width, height);
-    const outData = output.data;
+  // Bilinear for photographic content, nearest for pixel art; drawn 1:1 both land on texel centres
+  fix: (imageData, params): PixelBuffer => {
+    const { width, height } = imageData;
+    const output = createPixelBuffer(width, height);
 
-    // Helper to get pixel with bounds checking
-    const getPixel = (x: number, y: number): [number, number, number, number] => {
-      x = Math.max(0, Math.min(width - 1, Math.floor(x)));
-      y = Math.max(0, Math.min(height - 1, Math.floor(y)));
-      const idx = (y * width + x) * 4;
-      return [data[idx], data[idx + 1], data[idx + 2], data[idx + 3]];
-    };
-
-    // Bilinear interpolation helper
-    const bilinear = (x: number, y: number): [number, number, number, number] => {
-      const x0 = Math.floor(x);
-      const y0 = Math.floor(y);
-      const x1 = Math.min(x0 + 1, width - 1);
-      const y1 = Math.min(y0 + 1, height - 1);
-      const fx = x - x0;
-      const fy = y - y0;
-
-      const p00 = getPixel(x0, y0);
-      const p10 = getPixel(x1, y0);
-      const p01 = getPixel(x0, y1);
-      const p11 = getPixel(x1, y1);
-
-      const result: [number, number, number, number] = [0, 0, 0, 0];
-      for (let c = 0; c < 4; c++) {
-        const top = p00[c] * (1 - fx) + p10[c] * fx;
-        const bottom = p01[c] * (1 - fx) + p11[c] * fx;
-        result[c] = Math.round(top * (1 - fy) + bottom * fy);
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const pixel = params.mode === 'bad-bilinear' ? getPixel(imageData, x, y) : bilinear(imageData, x, y);
+        output.data.set(pixel, (y * width + x) * 4);
       }
-      return result;
-    };
+    }
+
+    return output;
+  },
+  apply: (imageData, params): PixelBuffer => {
+    const { width, height } = imageData;
+    const mode = params.mode;
+    const scale = params.scale;
+    const output = createPixelBuffer(width, height);
+    const outData = output.data;
 
     for (let y = 0; y < height; y++) {
       for (let x = 0; x < width; x++) {
         const outIdx = (y * width + x) * 4;
-        let pixel: [number, number, number, number];
+        let pixel: Rgba;
 
         switch (mode) {
-          case 'Nearest (blocky)':
+          case 'nearest':
             // Simulate scaling down then up with nearest neighbor
             const nx = Math.floor(x / scale) * scale + scale / 2;
             const ny = Math.floor(y / scale) * scale + scale / 2;
-            pixel = getPixel(nx, ny);
+            pixel = getPixel(imageData, nx, ny);
             break;
 
-          case 'Exaggerated nearest (pixelate)':
+          case 'exaggerated-nearest':
             // Heavy pixelation
             const px = Math.floor(x / scale) * scale;
             const py = Math.floor(y / scale) * scale;
-            pixel = getPixel(px, py);
+            pixel = getPixel(imageData, px, py);
             break;
 
-          case 'Bad bilinear (blurry)':
+          case 'bad-bilinear':
             // Simulate heavy blur from repeated bilinear sampling
             let r = 0, g = 0, b = 0, a = 0;
             const samples = scale;
@@ -111,7 +137,7 @@ if (isPixelArt) {
               for (let sx = 0; sx < samples; sx++) {
                 const sampleX = x + (sx - samples / 2) * 0.5;
                 const sampleY = y + (sy - samples / 2) * 0.5;
-                const p = bilinear(sampleX, sampleY);
+                const p = bilinear(imageData, sampleX, sampleY);
                 r += p[0];
                 g += p[1];
                 b += p[2];
@@ -128,7 +154,7 @@ if (isPixelArt) {
             break;
 
           default:
-            pixel = getPixel(x, y);
+            pixel = getPixel(imageData, x, y);
         }
 
         outData[outIdx] = pixel[0];
@@ -140,4 +166,4 @@ if (isPixelArt) {
 
     return output;
   }
-};
+});
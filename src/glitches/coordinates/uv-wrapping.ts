@@ -1,6 +1,36 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
+import { defineGlitch } from '../types';
+import type { PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
 
-export const uvWrapping: GlitchDefinition = {
+/** Wraps UVs the way each mode does; null when 'none' leaves them outside the texture. */
+function wrapUv(u: number, v: number, wrapMode: string, uvScale: number): [number, number] | null {
+  switch (wrapMode) {
+    case 'repeat':
+      u = ((u % 1) + 1) % 1;
+      v = ((v % 1) + 1) % 1;
+      break;
+    case 'mirror':
+      u = Math.abs(((u % 2) + 2) % 2 - 1);
+      v = Math.abs(((v % 2) + 2) % 2 - 1);
+      // Invert when in the "return" phase
+      if (Math.floor(Math.abs(u * uvScale)) % 2 === 1) u = 1 - u;
+      if (Math.floor(Math.abs(v * uvScale)) % 2 === 1) v = 1 - v;
+      u = ((u % 1) + 1) % 1;
+      v = ((v % 1) + 1) % 1;
+      break;
+    case 'clamp':
+      u = Math.max(0, Math.min(1, u));
+      v = Math.max(0, Math.min(1, v));
+      break;
+    case 'none':
+      // Don't handle wrapping - will show artifacts
+      if (u < 0 || u > 1 || v < 0 || v > 1) return null;
+      break;
+  }
+  return [u, v];
+}
+
+export const uvWrapping = defineGlitch({
   id: 'uv-wrapping',
   name: 'UV Wrapping',
   category: 'coordinates',
@@ -28,12 +58,19 @@ vec4 sampleTexture(vec2 uv, WrapMode mode) {
     int y = (int)(uv.y * (height - 1));
     return texture[y * width + x];
 }`,
+  symptoms: ['repeated', 'stretched', 'edges-only'],
+  testPattern: 'uv-grid',
   params: [
     {
       name: 'wrapMode',
       type: 'select',
-      options: ['Repeat', 'Mirror', 'Clamp', 'None (shows bug)'],
-      default: 'Repeat',
+      options: [
+        { value: 'repeat', label: 'Repeat' },
+        { value: 'mirror', label: 'Mirror' },
+        { value: 'clamp', label: 'Clamp' },
+        { value: 'none', label: 'None (shows bug)' }
+      ],
+      default: 'repeat',
       description: 'UV wrapping mode to demonstrate'
     },
     {
@@ -42,35 +79,69 @@ vec4 sampleTexture(vec2 uv, WrapMode mode) {
       min: 0.5,
       max: 4,
       step: 0.25,
+      scale: 'log',
       default: 2,
       description: 'UV coordinate scale (>1 causes tiling)'
     },
     {
-      name: 'uvOffsetX',
-      type: 'range',
-      min: -1,
-      max: 1,
-      step: 0.1,
-      default: 0,
-      description: 'UV X offset'
-    },
-    {
-      name: 'uvOffsetY',
-      type: 'range',
+      name: 'uvOffset',
+      type: 'vec2',
       min: -1,
       max: 1,
       step: 0.1,
-      default: 0,
-      description: 'UV Y offset'
+      default: [0, 0],
+      description: 'UV offset (u, v)'
     }
   ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
+  fix: (imageData): PixelBuffer => {
+    const { width, height, data } = imageData;
+    const output = createPixelBuffer(width, height);
+    const outData = output.data;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const outIdx = (y * width + x) * 4;
+
+        // UVs kept within [0, 1) at texel centres visit each texel once
+        const u = (x + 0.5) / width;
+        const v = (y + 0.5) / height;
+        const srcX = Math.min(width - 1, Math.floor(u * width));
+        const srcY = Math.min(height - 1, Math.floor(v * height));
+        const srcIdx = (srcY * width + srcX) * 4;
+
+        outData[outIdx] = data[srcIdx];
+        outData[outIdx + 1] = data[srcIdx + 1];
+        outData[outIdx + 2] = data[srcIdx + 2];
+        outData[outIdx + 3] = data[srcIdx + 3];
+      }
+    }
+
+    return output;
+  },
+  provenance: (x, y, width, height, params) => {
+    const [uvOffsetX, uvOffsetY] = params.uvOffset;
+    const u = (x / width) * params.uvScale + uvOffsetX;
+    const v = (y / height) * params.uvScale + uvOffsetY;
+    const uv = `uv = (x / width, y / height) * ${params.uvScale} + offset = (${u.toFixed(3)}, ${v.toFixed(3)})`;
+    const wrapped = wrapUv(u, v, params.wrapMode, params.uvScale);
+    if (!wrapped) {
+      return { sources: [null, null, null, null], formula: `${uv}, outside the texture, so nothing is read` };
+    }
+    const srcX = Math.floor(wrapped[0] * (width - 1));
+    const srcY = Math.floor(wrapped[1] * (height - 1));
+    const srcIdx = (srcY * width + srcX) * 4;
+    return {
+      sources: [srcIdx, srcIdx + 1, srcIdx + 2, srcIdx + 3],
+      formula: `${uv}, ${params.wrapMode} gives (${wrapped[0].toFixed(3)}, ${wrapped[1].toFixed(3)}), ` +
+        `texel uv * (size - 1) = (${srcX}, ${srcY}), byte ${srcIdx}`,
+    };
+  },
+  apply: (imageData, params): PixelBuffer => {
     const { width, height, data } = imageData;
-    const wrapMode = (params.wrapMode as string) || 'Repeat';
-    const uvScale = (params.uvScale as number) || 2;
-    const uvOffsetX = (params.uvOffsetX as number) || 0;
-    const uvOffsetY = (params.uvOffsetY as number) || 0;
-    const output = new ImageData(width, height);
+    const wrapMode = params.wrapMode;
+    const uvScale = params.uvScale;
+    const [uvOffsetX, uvOffsetY] = params.uvOffset;
+    const output = createPixelBuffer(width, height);
     const outData = output.data;
 
     for (let y = 0; y < height; y++) {
@@ -82,36 +153,16 @@ vec4 sampleTexture(vec2 uv, WrapMode mode) {
         let v = (y / height) * uvScale + uvOffsetY;
 
         // Apply wrapping mode
-        switch (wrapMode) {
-          case 'Repeat':
-            u = ((u % 1) + 1) % 1;
-            v = ((v % 1) + 1) % 1;
-            break;
-          case 'Mirror':
-            u = Math.abs(((u % 2) + 2) % 2 - 1);
-            v = Math.abs(((v % 2) + 2) % 2 - 1);
-            // Invert when in the "return" phase
-            if (Math.floor(Math.abs(u * uvScale)) % 2 === 1) u = 1 - u;
-            if (Math.floor(Math.abs(v * uvScale)) % 2 === 1) v = 1 - v;
-            u = ((u % 1) + 1) % 1;
-            v = ((v % 1) + 1) % 1;
-            break;
-          case 'Clamp':
-            u = Math.max(0, Math.min(1, u));
-            v = Math.max(0, Math.min(1, v));
-            break;
-          case 'None (shows bug)':
-            // Don't handle wrapping - will show artifacts
-            if (u < 0 || u > 1 || v < 0 || v > 1) {
-              // Outside bounds - show magenta error color
-              outData[outIdx] = 255;
-              outData[outIdx + 1] = 0;
-              outData[outIdx + 2] = 255;
-              outData[outIdx + 3] = 255;
-              continue;
-            }
-            break;
+        const wrapped = wrapUv(u, v, wrapMode, uvScale);
+        if (!wrapped) {
+          // Outside bounds - show magenta error color
+          outData[outIdx] = 255;
+          outData[outIdx + 1] = 0;
+          outData[outIdx + 2] = 255;
+          outData[outIdx + 3] = 255;
+          continue;
         }
+        [u, v] = wrapped;
 
         // Sample the texture
         const srcX = Math.floor(u * (width - 1));
@@ -127,4 +178,4 @@ vec4 sampleTexture(vec2 uv, WrapMode mode) {
 
     return output;
   }
-};
+});
@@ -0,0 +1,193 @@
+import { getDefaultParams, isParamVisible, normalizeParams, paramValuesEqual } from './params';
+import type { PixelBuffer } from './pixel-buffer';
+import type { GlitchDefinition, GlitchParams, ParamDefinition, ParamValue, Vec2 } from './types';
+
+export interface DiagnosisCandidate {
+  glitch: GlitchDefinition;
+  /** Best-fit params found by the search, normalized. */
+  params: GlitchParams;
+  /** Mean absolute RGB difference from the capture, 0 (identical) to 1. */
+  error: number;
+}
+
+export interface DiagnosisOptions {
+  /** Values tried per numeric param in each coordinate pass. */
+  samples?: number;
+  /** Coordinate-descent passes over all params. */
+  passes?: number;
+}
+
+const DEFAULT_SAMPLES = 9;
+const DEFAULT_PASSES = 2;
+/**
+ * Integer params with at most this many values are searched exhaustively:
+ * byte offsets and strides only match at one exact value, which a coarse
+ * grid steps straight over.
+ */
+const EXHAUSTIVE_LIMIT = 64;
+const PROBE_COLORS = ['#000000', '#404040', '#808080', '#c0c0c0', '#ffffff', '#ff0000', '#00ff00', '#0000ff'];
+
+/** Mean absolute difference over RGB, scaled to 0..1. Alpha is ignored. */
+export function imageError(a: PixelBuffer, b: PixelBuffer): number {
+  if (a.width !== b.width || a.height !== b.height) {
+    throw new Error(`Image sizes differ: ${a.width}x${a.height} vs ${b.width}x${b.height}`);
+  }
+  let sum = 0;
+  for (let i = 0; i < a.data.length; i += 4) {
+    sum += Math.abs(a.data[i] - b.data[i]) +
+      Math.abs(a.data[i + 1] - b.data[i + 1]) +
+      Math.abs(a.data[i + 2] - b.data[i + 2]);
+  }
+  return sum / (a.width * a.height * 3 * 255);
+}
+
+function snap(value: number, min: number, step: number): number {
+  // Trim float noise from the snapping (e.g. 1.2000000000000002)
+  return Number((min + Math.round((value - min) / step) * step).toFixed(6));
+}
+
+/** Evenly spread values for one param, log-spaced where the param says so. */
+function sampleValues(param: ParamDefinition, count: number): ParamValue[] {
+  switch (param.type) {
+    case 'boolean':
+      return [false, true];
+    case 'select':
+      return param.options.map(o => o.value);
+    case 'color':
+      return PROBE_COLORS;
+    case 'range':
+    case 'integer': {
+      const step = param.step ?? (param.type === 'integer' ? 1 : 0.01);
+      const values = new Set<number>();
+      if (param.type === 'integer' && (param.max - param.min) / step < EXHAUSTIVE_LIMIT) {
+        for (let v = param.min; v <= param.max; v += step) values.add(v);
+        return [...values];
+      }
+      for (let i = 0; i < count; i++) {
+        const t = i / (count - 1);
+        const raw = param.type === 'range' && param.scale === 'log'
+          ? param.min * Math.pow(param.max / param.min, t)
+          : param.min + (param.max - param.min) * t;
+        values.add(snap(raw, param.min, step));
+      }
+      return [...values];
+    }
+    case 'vec2': {
+      const step = param.step ?? 0.01;
+      const axis = Math.max(3, Math.round(Math.sqrt(count)));
+      const coords: number[] = [];
+      for (let i = 0; i < axis; i++) {
+        coords.push(snap(param.min + (param.max - param.min) * i / (axis - 1), param.min, step));
+      }
+      return coords.flatMap(x => coords.map(y => [x, y] as Vec2));
+    }
+  }
+}
+
+/**
+ * Values around `current` at shrinking distances, for polishing a numeric
+ * param after the coarse grid has found the right neighbourhood.
+ */
+function refineValues(param: ParamDefinition, current: ParamValue, radius: number): ParamValue[] {
+  if (param.type === 'range' || param.type === 'integer') {
+    const step = param.step ?? (param.type === 'integer' ? 1 : 0.01);
+    const value = current as number;
+    return [value - radius, value + radius].map(v => snap(v, param.min, step));
+  }
+  if (param.type === 'vec2') {
+    const step = param.step ?? 0.01;
+    const [x, y] = current as Vec2;
+    return [[x - radius, y], [x + radius, y], [x, y - radius], [x, y + radius]]
+      .map(([vx, vy]) => [snap(vx, param.min, step), snap(vy, param.min, step)] as Vec2);
+  }
+  return [];
+}
+
+function numericSpan(param: ParamDefinition): { span: number; step: number } | null {
+  if (param.type === 'range' || param.type === 'integer' || param.type === 'vec2') {
+    return { span: param.max - param.min, step: param.step ?? (param.type === 'integer' ? 1 : 0.01) };
+  }
+  return null;
+}
+
+/**
+ * Finds the params that make `glitch` applied to `reference` look most like
+ * `capture`: presets and defaults seed a coordinate descent over sampled
+ * values, then numeric params are polished with a shrinking local search.
+ */
+export function diagnoseGlitch(
+  glitch: GlitchDefinition,
+  reference: PixelBuffer,
+  capture: PixelBuffer,
+  options: DiagnosisOptions = {}
+): DiagnosisCandidate {
+  const samples = options.samples ?? DEFAULT_SAMPLES;
+  const passes = options.passes ?? DEFAULT_PASSES;
+  const tried = new Map<string, number>();
+
+  const evaluate = (params: GlitchParams): number => {
+    const normalized = normalizeParams(glitch, params);
+    const key = JSON.stringify(normalized);
+    let error = tried.get(key);
+    if (error === undefined) {
+      error = imageError(glitch.apply(reference, normalized), capture);
+      tried.set(key, error);
+    }
+    return error;
+  };
+
+  let best = normalizeParams(glitch, getDefaultParams(glitch));
+  let bestError = evaluate(best);
+
+  const consider = (params: GlitchParams): void => {
+    const error = evaluate(params);
+    if (error < bestError) {
+      best = normalizeParams(glitch, params);
+      bestError = error;
+    }
+  };
+
+  for (const preset of glitch.presets ?? []) {
+    consider(normalizeParams(glitch, { ...getDefaultParams(glitch), ...preset.params }));
+  }
+
+  for (let pass = 0; pass < passes; pass++) {
+    for (const param of glitch.params) {
+      if (!isParamVisible(param, best)) continue;
+      for (const value of sampleValues(param, samples)) {
+        if (!paramValuesEqual(value, best[param.name])) {
+          consider({ ...best, [param.name]: value });
+        }
+      }
+    }
+  }
+
+  for (const param of glitch.params) {
+    const numeric = numericSpan(param);
+    if (!numeric || !isParamVisible(param, best)) continue;
+
+    // Start just under the grid spacing and halve down to the param's step
+    let radius = numeric.span / (samples - 1) / 2;
+    while (radius >= numeric.step) {
+      const before = bestError;
+      for (const value of refineValues(param, best[param.name], radius)) {
+        consider({ ...best, [param.name]: value });
+      }
+      if (bestError === before) radius /= 2;
+    }
+  }
+
+  return { glitch, params: best, error: bestError };
+}
+
+/** Runs diagnoseGlitch for every glitch and ranks them, best fit first. */
+export function diagnose(
+  glitches: readonly GlitchDefinition[],
+  reference: PixelBuffer,
+  capture: PixelBuffer,
+  options: DiagnosisOptions = {}
+): DiagnosisCandidate[] {
+  return glitches
+    .map(glitch => diagnoseGlitch(glitch, reference, capture, options))
+    .sort((a, b) => a.error - b.error);
+}
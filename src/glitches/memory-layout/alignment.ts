@@ -1,6 +1,8 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
+import { defineGlitch } from '../types';
+import type { PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
 
-export const alignment: GlitchDefinition = {
+export const alignment = defineGlitch({
   id: 'alignment',
   name: 'Byte Alignment',
   category: 'memory-layout',
@@ -29,31 +31,50 @@ void processImage(uint8_t* buffer) {
     uint32_t* pixels = (uint32_t*)buffer;
     // Now safe to access
 }`,
+  symptoms: ['colors-wrong-shapes-right', 'blocky-grid', 'shifted'],
+  testPattern: 'uv-grid',
   params: [
     {
       name: 'offsetBytes',
-      type: 'range',
+      type: 'integer',
       min: 1,
       max: 7,
       step: 1,
+      unit: 'bytes',
       default: 1,
       description: 'Byte offset to simulate misalignment'
     },
     {
       name: 'blockSize',
-      type: 'range',
+      type: 'integer',
       min: 4,
       max: 64,
       step: 4,
+      unit: 'bytes',
       default: 16,
       description: 'Block size for alignment boundary'
     }
   ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
+  // Aligned access reads each pixel from its own offset
+  fix: (imageData, params): PixelBuffer => alignment.apply(imageData, { ...params, offsetBytes: 0 }),
+  provenance: (x, y, width, height, params) => {
+    const length = width * height * 4;
+    const i = (y * width + x) * 4;
+    const blockIndex = Math.floor(i / params.blockSize);
+    const offset = blockIndex % 2 === 0 ? params.offsetBytes : 0;
+    const srcIdx = (i + offset) % length;
+    return {
+      sources: [srcIdx, Math.min(srcIdx + 1, length - 1), Math.min(srcIdx + 2, length - 1), i + 3],
+      formula: `(y * width + x) * 4 + offset = ${i} + ${offset} = ${i + offset}` +
+        (srcIdx !== i + offset ? `, wrapped to ${srcIdx}` : '') +
+        ` (block ${blockIndex} is ${offset === 0 ? 'aligned' : 'misaligned'})`,
+    };
+  },
+  apply: (imageData, params): PixelBuffer => {
     const { width, height, data } = imageData;
-    const offsetBytes = (params.offsetBytes as number) || 1;
-    const blockSize = (params.blockSize as number) || 16;
-    const output = new ImageData(width, height);
+    const offsetBytes = params.offsetBytes;
+    const blockSize = params.blockSize;
+    const output = createPixelBuffer(width, height);
     const outData = output.data;
 
     // Simulate reading from an offset position
@@ -73,4 +94,4 @@ void processImage(uint8_t* buffer) {
 
     return output;
   }
-};
+});
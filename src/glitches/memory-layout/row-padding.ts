@@ -1,6 +1,42 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
+import { defineGlitch } from '../types';
+import type { GlitchProducer, ParamsOf, PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
+import { readBack, readRows, writeRows } from '../producer';
+import type { RowLayout } from '../producer';
 
-export const rowPadding: GlitchDefinition = {
+const params = [
+  {
+    name: 'paddingBytes',
+    type: 'integer',
+    min: 0,
+    max: 16,
+    step: 1,
+    unit: 'bytes',
+    default: 4,
+    description: 'Simulated missing padding bytes per row'
+  },
+  {
+    name: 'simulateBMP',
+    type: 'boolean',
+    default: false,
+    description: 'Simulate BMP 3-byte RGB with 4-byte alignment'
+  }
+] as const;
+
+/** RGB rows rounded up to 4 bytes for BMP, otherwise RGBA rows followed by `paddingBytes`. */
+function rowLayout(width: number, values: ParamsOf<typeof params>): RowLayout {
+  return values.simulateBMP
+    ? { bytesPerPixel: 3, stride: Math.ceil(width * 3 / 4) * 4 }
+    : { bytesPerPixel: 4, stride: width * 4 + values.paddingBytes };
+}
+
+const producer: GlitchProducer<typeof params> = {
+  write: (imageData, params) => writeRows(imageData, rowLayout(imageData.width, params)),
+  // Step to the next row by the padded stride, not by the row size
+  read: (bytes, width, height, params) => readRows(bytes, width, height, rowLayout(width, params)),
+};
+
+export const rowPadding = defineGlitch({
   id: 'row-padding',
   name: 'Row Padding',
   category: 'memory-layout',
@@ -27,28 +63,75 @@ for (int y = 0; y < height; y++) {
         // Now correctly aligned
     }
 }`,
-  params: [
+  symptoms: ['diagonal-shear'],
+  testPattern: 'uv-grid',
+  params,
+  presets: [
     {
-      name: 'paddingBytes',
-      type: 'range',
-      min: 0,
-      max: 16,
-      step: 1,
-      default: 4,
-      description: 'Simulated missing padding bytes per row'
+      name: 'BMP 24-bit row padding',
+      description: 'BGR rows padded to 4 bytes, read as if tightly packed',
+      params: { simulateBMP: true }
     },
     {
-      name: 'simulateBMP',
-      type: 'boolean',
-      default: false,
-      description: 'Simulate BMP 3-byte RGB with 4-byte alignment'
+      name: 'GL_UNPACK_ALIGNMENT mismatch',
+      description: 'Rows uploaded with 4-byte alignment, read with 1',
+      params: { paddingBytes: 3, simulateBMP: false }
     }
   ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
+  rawLayout: (width, height, params) => {
+    if (params.simulateBMP) {
+      // 24-bit BMP rows: BGR, padded to a multiple of 4 bytes
+      const stride = Math.ceil(width * 3 / 4) * 4;
+      return { width, height, offset: 0, stride, format: 'bgr8', littleEndian: true, tiling: 'linear' };
+    }
+    if (params.paddingBytes === 0) return null;
+    return {
+      width,
+      height,
+      offset: 0,
+      stride: width * 4 + params.paddingBytes,
+      format: 'rgba8',
+      littleEndian: true,
+      tiling: 'linear'
+    };
+  },
+  producer,
+  fix: (imageData, params) => readBack(producer, imageData, params),
+  readStride: (width, params) => {
+    if (params.simulateBMP) {
+      // 3-byte pixels, stepping over the padding that rounds rows up to 4 bytes
+      const rowSizeUnpadded = width * 3;
+      return { stride: rowSizeUnpadded + (4 - (rowSizeUnpadded % 4)) % 4, rowBytes: rowSizeUnpadded };
+    }
+    return params.paddingBytes === 0 ? null : { stride: width * 4 + params.paddingBytes, rowBytes: width * 4 };
+  },
+  provenance: (x, y, width, height, params) => {
+    const length = width * height * 4;
+    if (params.simulateBMP) {
+      const rowSizeUnpadded = width * 3;
+      const padding = (4 - (rowSizeUnpadded % 4)) % 4;
+      const effectiveOffset = y * rowSizeUnpadded + x * 3 + y * padding;
+      const srcIdx = Math.floor(effectiveOffset / 4) * 4;
+      return {
+        sources: srcIdx + 3 < length ? [srcIdx, srcIdx + 1, srcIdx + 2, null] : [null, null, null, null],
+        formula: `y * (width * 3) + x * 3 + y * padding = ${y} * ${rowSizeUnpadded} + ${x} * 3 + ${y} * ${padding} = ${effectiveOffset}, in pixel ${srcIdx / 4}`,
+      };
+    }
+
+    const outIdx = (y * width + x) * 4;
+    const unwrapped = outIdx + y * params.paddingBytes;
+    const srcIdx = unwrapped % length;
+    return {
+      sources: [srcIdx, Math.min(srcIdx + 1, length - 1), Math.min(srcIdx + 2, length - 1), null],
+      formula: `(y * width + x) * 4 + y * padding = ${outIdx} + ${y} * ${params.paddingBytes} = ${unwrapped}` +
+        (srcIdx !== unwrapped ? `, wrapped to ${srcIdx}` : ''),
+    };
+  },
+  apply: (imageData, params): PixelBuffer => {
     const { width, height, data } = imageData;
-    const paddingBytes = (params.paddingBytes as number) || 4;
-    const simulateBMP = (params.simulateBMP as boolean) || false;
-    const output = new ImageData(width, height);
+    const paddingBytes = params.paddingBytes;
+    const simulateBMP = params.simulateBMP;
+    const output = createPixelBuffer(width, height);
     const outData = output.data;
 
     if (simulateBMP) {
@@ -97,4 +180,4 @@ for (int y = 0; y < height; y++) {
 
     return output;
   }
-};
+});
@@ -1,6 +1,44 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
+import { defineGlitch } from '../types';
+import type { GlitchProducer, ParamsOf, PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
+import { readBack, writeRows } from '../producer';
 
-export const wrongPitch: GlitchDefinition = {
+const params = [
+  {
+    name: 'pitchMultiplier',
+    type: 'range',
+    min: 0.5,
+    max: 2,
+    step: 0.1,
+    scale: 'log',
+    default: 1.25,
+    description: 'Multiply the pitch by this factor'
+  }
+] as const;
+
+/** The source's real pitch: rows padded out to `pitchMultiplier` times the row size, never less than a row. */
+function sourcePitch(width: number, values: ParamsOf<typeof params>): number {
+  return Math.max(width * 4, Math.floor(width * 4 * values.pitchMultiplier));
+}
+
+const producer: GlitchProducer<typeof params> = {
+  write: (imageData, params) =>
+    writeRows(imageData, { bytesPerPixel: 4, stride: sourcePitch(imageData.width, params) }),
+  read: (bytes, width, height, params): PixelBuffer => {
+    const output = createPixelBuffer(width, height);
+    const srcPitch = sourcePitch(width, params);
+    const dstPitch = width * 4;
+
+    // Copy row by row, stepping each side by its own pitch
+    for (let y = 0; y < height; y++) {
+      output.data.set(bytes.subarray(y * srcPitch, y * srcPitch + width * 4), y * dstPitch);
+    }
+
+    return output;
+  },
+};
+
+export const wrongPitch = defineGlitch({
   id: 'wrong-pitch',
   name: 'Wrong Pitch',
   category: 'memory-layout',
@@ -23,21 +61,32 @@ void copyImage(uint8_t* src, uint8_t* dst,
                width * 4);  // Only copy actual pixel data
     }
 }`,
-  params: [
-    {
-      name: 'pitchMultiplier',
-      type: 'range',
-      min: 0.5,
-      max: 2,
-      step: 0.1,
-      default: 1.25,
-      description: 'Multiply the pitch by this factor'
-    }
-  ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
+  symptoms: ['stretched', 'repeated'],
+  testPattern: 'uv-grid',
+  params,
+  producer,
+  fix: (imageData, params) => readBack(producer, imageData, params),
+  readStride: (width, params) => {
+    const wrongPitch = Math.floor(width * 4 * params.pitchMultiplier);
+    return wrongPitch === width * 4 ? null : { stride: wrongPitch, rowBytes: width * 4 };
+  },
+  provenance: (x, y, width, height, params) => {
+    const length = width * height * 4;
+    const wrongPitch = Math.floor(width * 4 * params.pitchMultiplier);
+    const wrongOffset = y * wrongPitch + x * 4;
+    const wrongIdx = wrongOffset % length;
+    return {
+      sources: wrongIdx + 3 < length
+        ? [wrongIdx, wrongIdx + 1, wrongIdx + 2, null]
+        : [null, null, null, null],
+      formula: `y * wrongPitch + x * 4 = ${y} * ${wrongPitch} + ${x} * 4 = ${wrongOffset}` +
+        (wrongIdx !== wrongOffset ? `, wrapped to ${wrongIdx}` : ''),
+    };
+  },
+  apply: (imageData, params): PixelBuffer => {
     const { width, height, data } = imageData;
-    const pitchMultiplier = (params.pitchMultiplier as number) || 1.25;
-    const output = new ImageData(width, height);
+    const pitchMultiplier = params.pitchMultiplier;
+    const output = createPixelBuffer(width, height);
     const outData = output.data;
 
     const correctPitch = width * 4;
@@ -67,4 +116,4 @@ void copyImage(uint8_t* src, uint8_t* dst,
 
     return output;
   }
-};
+});
@@ -1,6 +1,33 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
+import { defineGlitch } from '../types';
+import type { GlitchProducer, ParamsOf, PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
+import { readBack, readRows, writeRows } from '../producer';
+import type { RowLayout } from '../producer';
 
-export const wrongStride: GlitchDefinition = {
+const params = [
+  {
+    name: 'strideError',
+    type: 'integer',
+    min: -20,
+    max: 20,
+    step: 1,
+    unit: 'bytes',
+    default: 4,
+    description: 'Bytes to add/subtract from correct stride'
+  }
+] as const;
+
+/** RGBA rows padded by `strideError` bytes; a stride shorter than a row can't hold one, so those rows are packed. */
+function rowLayout(width: number, values: ParamsOf<typeof params>): RowLayout {
+  return { bytesPerPixel: 4, stride: Math.max(width * 4, width * 4 + values.strideError) };
+}
+
+const producer: GlitchProducer<typeof params> = {
+  write: (imageData, params) => writeRows(imageData, rowLayout(imageData.width, params)),
+  read: (bytes, width, height, params) => readRows(bytes, width, height, rowLayout(width, params)),
+};
+
+export const wrongStride = defineGlitch({
   id: 'wrong-stride',
   name: 'Wrong Stride',
   category: 'memory-layout',
@@ -24,21 +51,48 @@ for (int y = 0; y < height; y++) {
         int idx = y * stride + x * 4;
     }
 }`,
-  params: [
+  symptoms: ['diagonal-shear'],
+  testPattern: 'uv-grid',
+  params,
+  presets: [
+    {
+      name: 'One pixel per row',
+      description: 'Stride off by exactly one RGBA pixel',
+      params: { strideError: 4 }
+    },
     {
-      name: 'strideError',
-      type: 'range',
-      min: -20,
-      max: 20,
-      step: 1,
-      default: 4,
-      description: 'Bytes to add/subtract from correct stride'
+      name: 'One byte per row',
+      description: 'Misaligned by a byte: shear plus channel drift',
+      params: { strideError: 1 }
+    },
+    {
+      name: 'Ignored padding (RGB24)',
+      description: 'Padded source read with the packed stride',
+      params: { strideError: -3 }
     }
   ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
+  producer,
+  fix: (imageData, params) => readBack(producer, imageData, params),
+  readStride: (width, params) => params.strideError === 0
+    ? null
+    : { stride: width * 4 + params.strideError, rowBytes: width * 4 },
+  provenance: (x, y, width, height, params) => {
+    const length = width * height * 4;
+    const wrongStride = width * 4 + params.strideError;
+    const wrongOffset = y * wrongStride + x * 4;
+    const wrongIdx = wrongOffset % length;
+    return {
+      sources: wrongIdx >= 0 && wrongIdx + 3 < length
+        ? [wrongIdx, wrongIdx + 1, wrongIdx + 2, null]
+        : [null, null, null, null],
+      formula: `y * wrongStride + x * 4 = ${y} * ${wrongStride} + ${x} * 4 = ${wrongOffset}` +
+        (wrongIdx !== wrongOffset ? `, wrapped to ${wrongIdx}` : ''),
+    };
+  },
+  apply: (imageData, params): PixelBuffer => {
     const { width, height, data } = imageData;
-    const strideError = (params.strideError as number) || 4;
-    const output = new ImageData(width, height);
+    const strideError = params.strideError;
+    const output = createPixelBuffer(width, height);
     const outData = output.data;
 
     const correctStride = width * 4;
@@ -69,4 +123,4 @@ for (int y = 0; y < height; y++) {
 
     return output;
   }
-};
+});
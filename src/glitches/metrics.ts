@@ -0,0 +1,278 @@
+import { createPixelBuffer } from './pixel-buffer';
+import type { PixelBuffer } from './pixel-buffer';
+
+export type Lab = readonly [number, number, number];
+
+export interface ChannelError {
+  /** Mean absolute difference in 0-255 levels. */
+  mean: number;
+  /** Largest absolute difference in 0-255 levels. */
+  max: number;
+}
+
+export interface ImageMetrics {
+  /** Peak signal-to-noise ratio over RGB in dB; Infinity when identical. */
+  psnr: number;
+  /** Structural similarity of luma, 1 when identical. */
+  ssim: number;
+  channels: Record<'r' | 'g' | 'b' | 'a', ChannelError>;
+  /** CIEDE2000 per pixel; around 1 is the smallest difference people notice. */
+  deltaE: { mean: number; max: number };
+}
+
+/** SSIM windows are this many pixels square, overlapping by half. */
+const SSIM_WINDOW = 8;
+const SSIM_STEP = 4;
+const SSIM_C1 = (0.01 * 255) ** 2;
+const SSIM_C2 = (0.03 * 255) ** 2;
+
+/** Stops for the heatmap, from no difference to the largest one. */
+const HEATMAP_STOPS: readonly (readonly [number, number, number])[] = [
+  [0, 0, 0],
+  [80, 18, 123],
+  [182, 54, 121],
+  [251, 136, 97],
+  [252, 253, 191],
+];
+
+function assertSameSize(a: PixelBuffer, b: PixelBuffer): void {
+  if (a.width !== b.width || a.height !== b.height) {
+    throw new Error(`Image sizes differ: ${a.width}x${a.height} vs ${b.width}x${b.height}`);
+  }
+}
+
+const SRGB_TO_LINEAR = Array.from({ length: 256 }, (_, i) => {
+  const c = i / 255;
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+});
+
+/** sRGB 0-255 to CIELAB under D65. */
+export function rgbToLab(r: number, g: number, b: number): Lab {
+  const lr = SRGB_TO_LINEAR[r];
+  const lg = SRGB_TO_LINEAR[g];
+  const lb = SRGB_TO_LINEAR[b];
+
+  const x = (0.4124564 * lr + 0.3575761 * lg + 0.1804375 * lb) / 0.95047;
+  const y = 0.2126729 * lr + 0.7151522 * lg + 0.0721750 * lb;
+  const z = (0.0193339 * lr + 0.1191920 * lg + 0.9503041 * lb) / 1.08883;
+
+  const f = (t: number) => t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116;
+  const fx = f(x);
+  const fy = f(y);
+  const fz = f(z);
+  return [116 * fy - 16, 500 * (fx - fy), 200 * (fy - fz)];
+}
+
+/** CIEDE2000 color difference (Sharma, Wu and Dalal 2005) with unit weights. */
+export function ciede2000(lab1: Lab, lab2: Lab): number {
+  const [L1, a1, b1] = lab1;
+  const [L2, a2, b2] = lab2;
+  const rad = Math.PI / 180;
+
+  const C1 = Math.hypot(a1, b1);
+  const C2 = Math.hypot(a2, b2);
+  const meanC7 = ((C1 + C2) / 2) ** 7;
+  const G = 0.5 * (1 - Math.sqrt(meanC7 / (meanC7 + 25 ** 7)));
+  const a1p = (1 + G) * a1;
+  const a2p = (1 + G) * a2;
+  const C1p = Math.hypot(a1p, b1);
+  const C2p = Math.hypot(a2p, b2);
+
+  const hue = (b: number, a: number) => {
+    if (a === 0 && b === 0) return 0;
+    const h = Math.atan2(b, a) / rad;
+    return h < 0 ? h + 360 : h;
+  };
+  const h1p = hue(b1, a1p);
+  const h2p = hue(b2, a2p);
+
+  const dLp = L2 - L1;
+  const dCp = C2p - C1p;
+  let dhp = 0;
+  if (C1p * C2p !== 0) {
+    dhp = h2p - h1p;
+    if (dhp > 180) dhp -= 360;
+    else if (dhp < -180) dhp += 360;
+  }
+  const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin((dhp / 2) * rad);
+
+  const meanLp = (L1 + L2) / 2;
+  const meanCp = (C1p + C2p) / 2;
+  let meanHp = h1p + h2p;
+  if (C1p * C2p !== 0) {
+    if (Math.abs(h1p - h2p) <= 180) meanHp /= 2;
+    else meanHp = h1p + h2p < 360 ? (meanHp + 360) / 2 : (meanHp - 360) / 2;
+  }
+
+  const T = 1
+    - 0.17 * Math.cos((meanHp - 30) * rad)
+    + 0.24 * Math.cos(2 * meanHp * rad)
+    + 0.32 * Math.cos((3 * meanHp + 6) * rad)
+    - 0.20 * Math.cos((4 * meanHp - 63) * rad);
+  const dTheta = 30 * Math.exp(-(((meanHp - 275) / 25) ** 2));
+  const meanCp7 = meanCp ** 7;
+  const Rc = 2 * Math.sqrt(meanCp7 / (meanCp7 + 25 ** 7));
+  const Sl = 1 + (0.015 * (meanLp - 50) ** 2) / Math.sqrt(20 + (meanLp - 50) ** 2);
+  const Sc = 1 + 0.045 * meanCp;
+  const Sh = 1 + 0.015 * meanCp * T;
+  const Rt = -Math.sin(2 * dTheta * rad) * Rc;
+
+  return Math.sqrt(
+    (dLp / Sl) ** 2 + (dCp / Sc) ** 2 + (dHp / Sh) ** 2 + Rt * (dCp / Sc) * (dHp / Sh)
+  );
+}
+
+/** Peak signal-to-noise ratio over RGB, in dB. */
+export function psnr(a: PixelBuffer, b: PixelBuffer): number {
+  assertSameSize(a, b);
+  let sum = 0;
+  for (let i = 0; i < a.data.length; i += 4) {
+    for (let c = 0; c < 3; c++) {
+      const d = a.data[i + c] - b.data[i + c];
+      sum += d * d;
+    }
+  }
+  const mse = sum / (a.width * a.height * 3);
+  return mse === 0 ? Infinity : 10 * Math.log10((255 * 255) / mse);
+}
+
+function luma(image: PixelBuffer): Float64Array {
+  const { data } = image;
+  const y = new Float64Array(image.width * image.height);
+  for (let p = 0; p < y.length; p++) {
+    y[p] = 0.299 * data[p * 4] + 0.587 * data[p * 4 + 1] + 0.114 * data[p * 4 + 2];
+  }
+  return y;
+}
+
+/**
+ * Mean SSIM of luma over overlapping square windows. Images smaller than a
+ * window are compared as a single window.
+ */
+export function ssim(a: PixelBuffer, b: PixelBuffer): number {
+  assertSameSize(a, b);
+  const { width, height } = a;
+  const ya = luma(a);
+  const yb = luma(b);
+  const windowW = Math.min(SSIM_WINDOW, width);
+  const windowH = Math.min(SSIM_WINDOW, height);
+
+  let total = 0;
+  let windows = 0;
+  for (let y0 = 0; y0 + windowH <= height; y0 += SSIM_STEP) {
+    for (let x0 = 0; x0 + windowW <= width; x0 += SSIM_STEP) {
+      let sumA = 0, sumB = 0, sumAA = 0, sumBB = 0, sumAB = 0;
+      for (let y = y0; y < y0 + windowH; y++) {
+        for (let x = x0; x < x0 + windowW; x++) {
+          const va = ya[y * width + x];
+          const vb = yb[y * width + x];
+          sumA += va;
+          sumB += vb;
+          sumAA += va * va;
+          sumBB += vb * vb;
+          sumAB += va * vb;
+        }
+      }
+      const n = windowW * windowH;
+      const meanA = sumA / n;
+      const meanB = sumB / n;
+      const varA = sumAA / n - meanA * meanA;
+      const varB = sumBB / n - meanB * meanB;
+      const cov = sumAB / n - meanA * meanB;
+      total += ((2 * meanA * meanB + SSIM_C1) * (2 * cov + SSIM_C2)) /
+        ((meanA * meanA + meanB * meanB + SSIM_C1) * (varA + varB + SSIM_C2));
+      windows++;
+    }
+  }
+  return windows === 0 ? 1 : total / windows;
+}
+
+/** Every metric for a reference image `a` against a test image `b`. */
+export function measureImages(a: PixelBuffer, b: PixelBuffer): ImageMetrics {
+  assertSameSize(a, b);
+  const pixels = a.width * a.height;
+  const sums = [0, 0, 0, 0];
+  const maxes = [0, 0, 0, 0];
+  let deltaSum = 0;
+  let deltaMax = 0;
+
+  for (let i = 0; i < a.data.length; i += 4) {
+    for (let c = 0; c < 4; c++) {
+      const d = Math.abs(a.data[i + c] - b.data[i + c]);
+      sums[c] += d;
+      if (d > maxes[c]) maxes[c] = d;
+    }
+    if (a.data[i] !== b.data[i] || a.data[i + 1] !== b.data[i + 1] || a.data[i + 2] !== b.data[i + 2]) {
+      const delta = ciede2000(
+        rgbToLab(a.data[i], a.data[i + 1], a.data[i + 2]),
+        rgbToLab(b.data[i], b.data[i + 1], b.data[i + 2])
+      );
+      deltaSum += delta;
+      if (delta > deltaMax) deltaMax = delta;
+    }
+  }
+
+  const channel = (c: number): ChannelError => ({ mean: sums[c] / pixels, max: maxes[c] });
+  return {
+    psnr: psnr(a, b),
+    ssim: ssim(a, b),
+    channels: { r: channel(0), g: channel(1), b: channel(2), a: channel(3) },
+    deltaE: { mean: deltaSum / pixels, max: deltaMax },
+  };
+}
+
+/**
+ * Colors each pixel by its largest RGB difference, scaled so the biggest
+ * difference in the image is the hottest color. Identical pixels are black,
+ * so even one-level changes stand out.
+ */
+export function diffHeatmap(a: PixelBuffer, b: PixelBuffer): PixelBuffer {
+  assertSameSize(a, b);
+  const output = createPixelBuffer(a.width, a.height);
+  const diffs = new Uint8Array(a.width * a.height);
+  let peak = 0;
+
+  for (let p = 0; p < diffs.length; p++) {
+    const i = p * 4;
+    diffs[p] = Math.max(
+      Math.abs(a.data[i] - b.data[i]),
+      Math.abs(a.data[i + 1] - b.data[i + 1]),
+      Math.abs(a.data[i + 2] - b.data[i + 2])
+    );
+    if (diffs[p] > peak) peak = diffs[p];
+  }
+
+  const segments = HEATMAP_STOPS.length - 1;
+  for (let p = 0; p < diffs.length; p++) {
+    const t = peak === 0 ? 0 : (diffs[p] / peak) * segments;
+    const stop = Math.min(segments - 1, Math.floor(t));
+    const f = t - stop;
+    const from = HEATMAP_STOPS[stop];
+    const to = HEATMAP_STOPS[stop + 1];
+    const i = p * 4;
+    output.data[i] = Math.round(from[0] + (to[0] - from[0]) * f);
+    output.data[i + 1] = Math.round(from[1] + (to[1] - from[1]) * f);
+    output.data[i + 2] = Math.round(from[2] + (to[2] - from[2]) * f);
+    output.data[i + 3] = 255;
+  }
+
+  return output;
+}
+
+/**
+ * The signed RGB difference `b - a` multiplied by `gain` around mid-grey:
+ * brighter where `b` gained a channel, darker where it lost it.
+ */
+export function amplifyDifference(a: PixelBuffer, b: PixelBuffer, gain: number): PixelBuffer {
+  assertSameSize(a, b);
+  const output = createPixelBuffer(a.width, a.height);
+
+  for (let i = 0; i < a.data.length; i += 4) {
+    output.data[i] = 128 + (b.data[i] - a.data[i]) * gain;
+    output.data[i + 1] = 128 + (b.data[i + 1] - a.data[i + 1]) * gain;
+    output.data[i + 2] = 128 + (b.data[i + 2] - a.data[i + 2]) * gain;
+    output.data[i + 3] = 255;
+  }
+
+  return output;
+}
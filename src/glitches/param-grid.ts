@@ -0,0 +1,103 @@
+import { findSelectOption, normalizeParams } from './params';
+import type { GlitchDefinition, GlitchParams, ParamDefinition, ParamValue } from './types';
+
+/** Params a contact sheet can lay out along an axis; colors and vectors have no natural order. */
+export function isGridParam(param: ParamDefinition): boolean {
+  return param.type === 'range' || param.type === 'integer' || param.type === 'select' || param.type === 'boolean';
+}
+
+/**
+ * The values a contact sheet shows for `param`: every option of a select,
+ * both states of a boolean, and `count` steps across a numeric range, spaced
+ * by ratio on log sliders and snapped to the param's step.
+ */
+export function gridValues(param: ParamDefinition, count: number): ParamValue[] {
+  switch (param.type) {
+    case 'select':
+      return param.options.map(o => o.value);
+    case 'boolean':
+      return [false, true];
+    case 'range':
+    case 'integer': {
+      const { min, max } = param;
+      const step = param.step ?? (param.type === 'integer' ? 1 : 0.01);
+      const values = Array.from({ length: Math.max(1, count) }, (_, i) => {
+        const t = count <= 1 ? 0 : i / (count - 1);
+        const value = param.type === 'range' && param.scale === 'log'
+          ? min * Math.pow(max / min, t)
+          : min + (max - min) * t;
+        // Trim float noise from the snapping (e.g. 0.30000000000000004)
+        return Math.max(min, Math.min(max, Number((Math.round(value / step) * step).toFixed(6))));
+      });
+      return [...new Set(values)];
+    }
+    default:
+      return [param.default];
+  }
+}
+
+/** A value as its axis label shows it: option labels for selects, units for integers. */
+export function formatGridValue(param: ParamDefinition, value: ParamValue): string {
+  if (param.type === 'select') {
+    return findSelectOption(param, value)?.label ?? String(value);
+  }
+  if (param.type === 'boolean') {
+    return value ? 'on' : 'off';
+  }
+  if (param.type === 'integer' && param.unit) {
+    return `${value} ${param.unit}`;
+  }
+  return String(value);
+}
+
+export interface ParamGrid {
+  rowParam: ParamDefinition | null;
+  columnParam: ParamDefinition | null;
+  rows: ParamValue[];
+  columns: ParamValue[];
+  /** `cells[row][column]`, normalized and ready to apply. */
+  cells: GlitchParams[][];
+}
+
+/**
+ * Params for every cell of a contact sheet: `base` with the row param set to
+ * each row value and the column param to each column value. A null param
+ * leaves a single row or column, so one param alone makes a strip.
+ */
+export function paramGrid(
+  glitch: GlitchDefinition,
+  rowName: string | null,
+  columnName: string | null,
+  count: number,
+  base: GlitchParams
+): ParamGrid {
+  const find = (name: string | null) => {
+    if (name === null) return null;
+    const param = glitch.params.find(p => p.name === name);
+    if (!param) {
+      throw new Error(`${glitch.name} has no param named ${name}`);
+    }
+    return param;
+  };
+  const rowParam = find(rowName);
+  const columnParam = find(columnName);
+  const rows = rowParam ? gridValues(rowParam, count) : [];
+  const columns = columnParam ? gridValues(columnParam, count) : [];
+
+  const cellParams = (row: ParamValue | undefined, column: ParamValue | undefined) => {
+    const params = { ...base };
+    if (rowParam && row !== undefined) params[rowParam.name] = row;
+    if (columnParam && column !== undefined) params[columnParam.name] = column;
+    return normalizeParams(glitch, params);
+  };
+  const rowsOrOne = rows.length > 0 ? rows : [undefined];
+  const columnsOrOne = columns.length > 0 ? columns : [undefined];
+
+  return {
+    rowParam,
+    columnParam,
+    rows,
+    columns,
+    cells: rowsOrOne.map(row => columnsOrOne.map(column => cellParams(row, column))),
+  };
+}
@@ -0,0 +1,259 @@
+import type {
+  GlitchDefinition,
+  GlitchParams,
+  ParamDefinition,
+  ParamsOf,
+  ParamValue,
+  SelectOption,
+  SelectParamDefinition,
+  Vec2,
+} from './types';
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export function getDefaultParams(glitch: Pick<GlitchDefinition, 'params'>): GlitchParams {
+  const params: GlitchParams = {};
+  for (const param of glitch.params) {
+    params[param.name] = param.default;
+  }
+  return params;
+}
+
+/**
+ * Finds the select option for a value. Text such as URL params or form values
+ * matches by its string form, so `'8'` finds the option whose value is `8`.
+ */
+export function findSelectOption(param: SelectParamDefinition, value: unknown): SelectOption | undefined {
+  return param.options.find(o => o.value === value || String(o.value) === String(value));
+}
+
+export function paramValuesEqual(a: ParamValue | undefined, b: ParamValue | undefined): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a[0] === b[0] && a[1] === b[1];
+  }
+  return a === b;
+}
+
+export function hexToRgb(hex: string): { r: number; g: number; b: number } {
+  const value = parseInt(hex.slice(1), 16);
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 };
+}
+
+/**
+ * Whether a param applies under the current values of its siblings.
+ * Hidden params keep their value; they just stop being shown.
+ */
+export function isParamVisible(param: ParamDefinition, params: GlitchParams): boolean {
+  const rule = param.visibleWhen;
+  if (!rule) return true;
+  return rule.oneOf.some(v => paramValuesEqual(v, params[rule.param]));
+}
+
+function toNumber(value: unknown): number {
+  if (typeof value === 'boolean') return NaN;
+  return typeof value === 'string' ? parseFloat(value) : Number(value);
+}
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function coerceParam(param: ParamDefinition, value: unknown): ParamValue {
+  switch (param.type) {
+    case 'range': {
+      const number = toNumber(value);
+      return Number.isFinite(number) ? clamp(number, param.min, param.max) : param.default;
+    }
+    case 'integer': {
+      const number = Math.round(toNumber(value));
+      return Number.isFinite(number) ? clamp(number, param.min, param.max) : param.default;
+    }
+    case 'boolean':
+      if (typeof value === 'string') {
+        return value === 'true' || value === '1';
+      }
+      return typeof value === 'boolean' ? value : Boolean(value);
+    case 'color':
+      return typeof value === 'string' && HEX_COLOR.test(value) ? value.toLowerCase() : param.default;
+    case 'vec2': {
+      const parts = typeof value === 'string' ? value.split(',') : value;
+      if (!Array.isArray(parts) || parts.length !== 2) return param.default;
+      const x = toNumber(parts[0]);
+      const y = toNumber(parts[1]);
+      if (!Number.isFinite(x) || !Number.isFinite(y)) return param.default;
+      const vec: Vec2 = [clamp(x, param.min, param.max), clamp(y, param.min, param.max)];
+      return vec;
+    }
+    case 'select':
+      return findSelectOption(param, value)?.value ?? param.default;
+  }
+}
+
+/**
+ * Returns a complete params object for `glitch`: missing values take their
+ * defaults, numbers are clamped to [min, max], strings are coerced to the
+ * declared type, unknown select options fall back to the default, and keys the
+ * glitch does not declare are dropped. Glitches can then trust what they read.
+ */
+export function normalizeParams<Defs extends readonly ParamDefinition[]>(
+  glitch: { params: Defs },
+  params: Partial<GlitchParams>
+): ParamsOf<Defs> {
+  const normalized: GlitchParams = {};
+  for (const param of glitch.params) {
+    const value = params[param.name];
+    normalized[param.name] = value === undefined ? param.default : coerceParam(param, value);
+  }
+  // coerceParam keeps each value to its declaration's type
+  return normalized as ParamsOf<Defs>;
+}
+
+function lintBounds(where: string, min: number, max: number, step: number | undefined): string[] {
+  const issues: string[] = [];
+  if (min > max) {
+    issues.push(`${where}: min ${min} is greater than max ${max}`);
+  }
+  if (step !== undefined && step <= 0) {
+    issues.push(`${where}: step must be positive`);
+  }
+  return issues;
+}
+
+function outside(value: number, min: number, max: number): boolean {
+  return value < min || value > max;
+}
+
+function lintParam(glitch: GlitchDefinition, param: ParamDefinition): string[] {
+  const where = `${glitch.id}.${param.name}`;
+  const issues: string[] = [];
+
+  switch (param.type) {
+    case 'range':
+      issues.push(...lintBounds(where, param.min, param.max, param.step));
+      if (outside(param.default, param.min, param.max)) {
+        issues.push(`${where}: default ${param.default} is outside [${param.min}, ${param.max}]`);
+      }
+      if (param.scale === 'log' && param.min <= 0) {
+        issues.push(`${where}: log scale needs min > 0`);
+      }
+      break;
+    case 'integer':
+      issues.push(...lintBounds(where, param.min, param.max, param.step));
+      if (outside(param.default, param.min, param.max)) {
+        issues.push(`${where}: default ${param.default} is outside [${param.min}, ${param.max}]`);
+      }
+      if (![param.min, param.max, param.default, param.step ?? 1].every(Number.isInteger)) {
+        issues.push(`${where}: integer bounds, step and default must be whole numbers`);
+      }
+      break;
+    case 'color':
+      if (!HEX_COLOR.test(param.default)) {
+        issues.push(`${where}: default "${param.default}" is not a #rrggbb color`);
+      }
+      break;
+    case 'vec2':
+      issues.push(...lintBounds(where, param.min, param.max, param.step));
+      if (param.default.some(v => outside(v, param.min, param.max))) {
+        issues.push(`${where}: default ${param.default.join(',')} is outside [${param.min}, ${param.max}]`);
+      }
+      break;
+    case 'select':
+      if (param.options.length === 0) {
+        issues.push(`${where}: select has no options`);
+      } else {
+        if (!param.options.some(o => o.value === param.default)) {
+          issues.push(`${where}: default "${param.default}" is not one of its options`);
+        }
+        if (new Set(param.options.map(o => String(o.value))).size !== param.options.length) {
+          issues.push(`${where}: duplicate option values`);
+        }
+      }
+      break;
+  }
+
+  if (param.visibleWhen) {
+    const { param: controlName, oneOf } = param.visibleWhen;
+    const index = glitch.params.indexOf(param);
+    const control = glitch.params.find(p => p.name === controlName);
+
+    if (!control) {
+      issues.push(`${where}: visibleWhen refers to unknown param "${controlName}"`);
+    } else if (glitch.params.indexOf(control) > index) {
+      issues.push(`${where}: visibleWhen param "${controlName}" must be declared before it`);
+    } else if (control.type === 'select') {
+      for (const value of oneOf) {
+        if (!control.options.some(o => o.value === value)) {
+          issues.push(`${where}: visibleWhen value "${value}" is not an option of "${controlName}"`);
+        }
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Checks a single definition for internal consistency.
+ */
+export function lintGlitchDefinition(glitch: GlitchDefinition): string[] {
+  const issues: string[] = [];
+
+  if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(glitch.id)) {
+    issues.push(`${glitch.id}: id must be kebab-case`);
+  }
+
+  const names = new Set<string>();
+  for (const param of glitch.params) {
+    if (names.has(param.name)) {
+      issues.push(`${glitch.id}.${param.name}: duplicate param name`);
+    }
+    names.add(param.name);
+    issues.push(...lintParam(glitch, param));
+  }
+
+  if (glitch.symptoms.length === 0) {
+    issues.push(`${glitch.id}: needs at least one symptom`);
+  }
+  if (new Set(glitch.symptoms).size !== glitch.symptoms.length) {
+    issues.push(`${glitch.id}: duplicate symptom`);
+  }
+
+  const presetNames = new Set<string>();
+  for (const preset of glitch.presets ?? []) {
+    const where = `${glitch.id} preset "${preset.name}"`;
+    if (presetNames.has(preset.name)) {
+      issues.push(`${where}: duplicate preset name`);
+    }
+    presetNames.add(preset.name);
+
+    const normalized = normalizeParams(glitch, preset.params);
+    for (const [name, value] of Object.entries(preset.params)) {
+      if (!names.has(name)) {
+        issues.push(`${where}: unknown param "${name}"`);
+      } else if (!paramValuesEqual(value, normalized[name])) {
+        issues.push(`${where}: invalid value ${String(value)} for "${name}"`);
+      }
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Checks every definition plus registry-wide invariants such as unique ids.
+ * Returns human-readable issues; an empty array means the registry is sound.
+ */
+export function lintRegistry(registry: readonly GlitchDefinition[]): string[] {
+  const issues: string[] = [];
+  const ids = new Set<string>();
+
+  for (const glitch of registry) {
+    if (ids.has(glitch.id)) {
+      issues.push(`${glitch.id}: duplicate glitch id`);
+    }
+    ids.add(glitch.id);
+    issues.push(...lintGlitchDefinition(glitch));
+  }
+
+  return issues;
+}
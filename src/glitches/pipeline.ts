@@ -0,0 +1,252 @@
+import type { ChannelSources, GlitchDefinition, GlitchParams, ParamValue, PixelBuffer, PixelProvenance } from './types';
+import { getDefaultParams, normalizeParams } from './params';
+import type { RecipeStep } from './recipe';
+
+export interface PipelineStep extends RecipeStep {
+  key: number;
+}
+
+/**
+ * 'structure' covers adding, removing, reordering and toggling steps;
+ * 'params' covers value changes within a step.
+ */
+export type PipelineChange = 'structure' | 'params';
+
+export type PipelineListener = (change: PipelineChange) => void;
+
+/** One step's part in a trace: the pixel of its output being followed and where it read it. */
+export interface TracedStep {
+  step: PipelineStep;
+  x: number;
+  y: number;
+  provenance: PixelProvenance;
+}
+
+export interface PixelTrace {
+  /** For each output channel, the byte of the pipeline's input it ends up coming from. */
+  sources: ChannelSources;
+  /**
+   * The enabled steps in order. Channels can travel through different pixels,
+   * so each step shows the pixel the first still-traced channel passes through.
+   */
+  steps: TracedStep[];
+}
+
+/**
+ * An ordered stack of glitches applied one after another.
+ * Real bugs rarely come alone (e.g. wrong stride plus BGR swap plus an sRGB mismatch),
+ * so each step keeps its own params and can be toggled or reordered independently.
+ */
+export class GlitchPipeline {
+  private steps: PipelineStep[] = [];
+  private nextKey = 1;
+  private listeners: PipelineListener[] = [];
+
+  public getSteps(): readonly PipelineStep[] {
+    return this.steps;
+  }
+
+  public getStep(key: number): PipelineStep | undefined {
+    return this.steps.find(s => s.key === key);
+  }
+
+  public get length(): number {
+    return this.steps.length;
+  }
+
+  public add(glitch: GlitchDefinition, params?: GlitchParams, enabled = true): PipelineStep {
+    const step: PipelineStep = {
+      key: this.nextKey++,
+      glitch,
+      params: { ...getDefaultParams(glitch), ...params },
+      enabled,
+    };
+    this.steps.push(step);
+    this.notify();
+    return step;
+  }
+
+  public remove(key: number): void {
+    this.steps = this.steps.filter(s => s.key !== key);
+    this.notify();
+  }
+
+  public clear(): void {
+    this.steps = [];
+    this.notify();
+  }
+
+  /**
+   * Replaces the whole stack, e.g. when restoring a recipe from a permalink.
+   */
+  public load(recipe: readonly RecipeStep[]): void {
+    this.steps = recipe.map(step => ({
+      key: this.nextKey++,
+      glitch: step.glitch,
+      params: { ...getDefaultParams(step.glitch), ...step.params },
+      enabled: step.enabled,
+    }));
+    this.notify();
+  }
+
+  public toRecipe(): RecipeStep[] {
+    return this.steps.map(({ glitch, params, enabled }) => ({
+      glitch,
+      params: { ...params },
+      enabled,
+    }));
+  }
+
+  public move(fromIndex: number, toIndex: number): void {
+    if (fromIndex === toIndex) return;
+    if (fromIndex < 0 || fromIndex >= this.steps.length) return;
+
+    const clampedTo = Math.max(0, Math.min(this.steps.length - 1, toIndex));
+    const [step] = this.steps.splice(fromIndex, 1);
+    this.steps.splice(clampedTo, 0, step);
+    this.notify();
+  }
+
+  public setEnabled(key: number, enabled: boolean): void {
+    const step = this.getStep(key);
+    if (!step || step.enabled === enabled) return;
+    step.enabled = enabled;
+    this.notify();
+  }
+
+  /** Replaces all params of a step at once, e.g. when applying a preset. */
+  public setParams(key: number, params: GlitchParams): void {
+    const step = this.getStep(key);
+    if (!step) return;
+    step.params = { ...params };
+    this.notify('params');
+  }
+
+  public setParam(key: number, name: string, value: ParamValue): void {
+    const step = this.getStep(key);
+    if (!step) return;
+    step.params[name] = value;
+    this.notify('params');
+  }
+
+  /**
+   * Runs the enabled steps in order. When `untilIndex` is given, processing stops
+   * after that step so intermediate stages can be previewed.
+   */
+  public run(imageData: PixelBuffer, untilIndex = this.steps.length - 1): PixelBuffer {
+    let result = imageData;
+    const last = Math.min(untilIndex, this.steps.length - 1);
+
+    for (let i = 0; i <= last; i++) {
+      const step = this.steps[i];
+      if (!step.enabled) continue;
+      result = step.glitch.apply(result, normalizeParams(step.glitch, step.params));
+    }
+
+    return result;
+  }
+
+  /**
+   * Like `run`, but every enabled step takes its fixed path, showing what the
+   * same pipeline produces once each bug is corrected.
+   */
+  public fix(imageData: PixelBuffer, untilIndex = this.steps.length - 1): PixelBuffer {
+    let result = imageData;
+    const last = Math.min(untilIndex, this.steps.length - 1);
+
+    for (let i = 0; i <= last; i++) {
+      const step = this.steps[i];
+      if (!step.enabled) continue;
+      result = step.glitch.fix(result, normalizeParams(step.glitch, step.params));
+    }
+
+    return result;
+  }
+
+  /**
+   * Undoes the enabled steps, last first, turning a buggy image back into
+   * the correct one. Throws if any of them has no repair.
+   */
+  public repair(imageData: PixelBuffer): PixelBuffer {
+    let result = imageData;
+
+    for (const step of [...this.steps].reverse()) {
+      if (!step.enabled) continue;
+      if (!step.glitch.repair) {
+        throw new Error(`${step.glitch.name} cannot be repaired`);
+      }
+      result = step.glitch.repair(result, normalizeParams(step.glitch, step.params));
+    }
+
+    return result;
+  }
+
+  /**
+   * Follows output pixel (x, y) back through the enabled steps to the input
+   * bytes it was read from. Returns null if any of them has no provenance,
+   * since its output is computed rather than moved.
+   */
+  public trace(x: number, y: number, width: number, height: number, untilIndex = this.steps.length - 1): PixelTrace | null {
+    const last = Math.min(untilIndex, this.steps.length - 1);
+    const enabled = this.steps.slice(0, last + 1).filter(s => s.enabled);
+    if (enabled.some(s => !s.glitch.provenance)) return null;
+
+    // Byte offsets into the output of the step being walked back through
+    const start = (y * width + x) * 4;
+    let sources: (number | null)[] = [start, start + 1, start + 2, start + 3];
+    const steps: TracedStep[] = [];
+
+    for (const step of enabled.reverse()) {
+      const params = normalizeParams(step.glitch, step.params);
+      const cache = new Map<number, PixelProvenance>();
+      const provenanceOf = (pixel: number): PixelProvenance => {
+        let provenance = cache.get(pixel);
+        if (!provenance) {
+          provenance = step.glitch.provenance!(pixel % width, Math.floor(pixel / width), width, height, params);
+          cache.set(pixel, provenance);
+        }
+        return provenance;
+      };
+
+      const followed = sources.find(offset => offset !== null);
+      if (followed === undefined || followed === null) break;
+      const pixel = Math.floor(followed / 4);
+      steps.unshift({ step, x: pixel % width, y: Math.floor(pixel / width), provenance: provenanceOf(pixel) });
+
+      sources = sources.map(offset => offset === null ? null : provenanceOf(Math.floor(offset / 4)).sources[offset % 4]);
+    }
+
+    return { sources: [sources[0], sources[1], sources[2], sources[3]], steps };
+  }
+
+  /**
+   * Returns the output after every step, in order. Disabled steps pass their
+   * input through unchanged.
+   */
+  public runStages(imageData: PixelBuffer): PixelBuffer[] {
+    const stages: PixelBuffer[] = [];
+    let result = imageData;
+
+    for (const step of this.steps) {
+      if (step.enabled) {
+        result = step.glitch.apply(result, normalizeParams(step.glitch, step.params));
+      }
+      stages.push(result);
+    }
+
+    return stages;
+  }
+
+  public onChange(listener: PipelineListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      this.listeners = this.listeners.filter(l => l !== listener);
+    };
+  }
+
+  private notify(change: PipelineChange = 'structure'): void {
+    for (const listener of this.listeners) {
+      listener(change);
+    }
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Minimal RGBA8 image: the shape glitches read and write. Browser `ImageData`
+ * already satisfies it, and under Node any `{ width, height, data }` does, so
+ * the glitch core never has to touch the DOM.
+ */
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray<ArrayBuffer>;
+}
+
+export function createPixelBuffer(width: number, height: number): PixelBuffer {
+  return { width, height, data: new Uint8ClampedArray(width * height * 4) };
+}
+
+export function clonePixelBuffer(buffer: PixelBuffer): PixelBuffer {
+  return { width: buffer.width, height: buffer.height, data: buffer.data.slice() };
+}
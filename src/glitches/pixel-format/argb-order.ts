@@ -1,6 +1,28 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
+import { defineGlitch } from '../types';
+import type { PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
 
-export const argbOrder: GlitchDefinition = {
+type ChannelOrder = 'rgba-as-argb' | 'rgba-as-abgr' | 'rgba-as-bgra' | 'rotate-channels-left' | 'rotate-channels-right';
+
+/** The order that puts each mode's channels back; ARGB reads are a right rotation. */
+const INVERSE_ORDER: Record<ChannelOrder, ChannelOrder> = {
+  'rgba-as-argb': 'rotate-channels-left',
+  'rgba-as-abgr': 'rgba-as-abgr',
+  'rgba-as-bgra': 'rgba-as-bgra',
+  'rotate-channels-left': 'rotate-channels-right',
+  'rotate-channels-right': 'rotate-channels-left',
+};
+
+/** Which input byte of the pixel each output channel comes from, in RGBA order. */
+const SOURCE_BYTES: Record<ChannelOrder, readonly [number, number, number, number]> = {
+  'rgba-as-argb': [3, 0, 1, 2],
+  'rgba-as-abgr': [3, 2, 1, 0],
+  'rgba-as-bgra': [2, 1, 0, 3],
+  'rotate-channels-left': [1, 2, 3, 0],
+  'rotate-channels-right': [3, 0, 1, 2],
+};
+
+export const argbOrder = defineGlitch({
   id: 'argb-order',
   name: 'ARGB/ABGR Order',
   category: 'pixel-format',
@@ -32,19 +54,42 @@ for (int i = 0; i < numPixels; i++) {
         color.a = pixel[3];
     }
 }`,
+  symptoms: ['colors-wrong-shapes-right', 'color-tint', 'transparency-wrong'],
+  testPattern: 'color-bars',
   params: [
     {
       name: 'format',
       type: 'select',
-      options: ['RGBA as ARGB', 'RGBA as ABGR', 'RGBA as BGRA', 'Rotate channels left', 'Rotate channels right'],
-      default: 'RGBA as ARGB',
+      options: [
+        { value: 'rgba-as-argb', label: 'RGBA as ARGB' },
+        { value: 'rgba-as-abgr', label: 'RGBA as ABGR' },
+        { value: 'rgba-as-bgra', label: 'RGBA as BGRA' },
+        { value: 'rotate-channels-left', label: 'Rotate channels left' },
+        { value: 'rotate-channels-right', label: 'Rotate channels right' }
+      ],
+      default: 'rgba-as-argb',
       description: 'Which byte order mismatch to simulate'
     }
   ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
+  repair: (imageData, params): PixelBuffer => argbOrder.apply(imageData, {
+    format: INVERSE_ORDER[params.format],
+  }),
+  // The fixed loader reorders what the producer wrote before using it
+  fix: (imageData, params): PixelBuffer => argbOrder.apply(argbOrder.apply(imageData, params), {
+    format: INVERSE_ORDER[params.format],
+  }),
+  provenance: (x, y, width, _height, params) => {
+    const i = (y * width + x) * 4;
+    const bytes = SOURCE_BYTES[params.format];
+    return {
+      sources: [i + bytes[0], i + bytes[1], i + bytes[2], i + bytes[3]],
+      formula: `(y * width + x) * 4 = ${i}; R, G, B, A read from bytes ${bytes.map(b => `+${b}`).join(', ')}`,
+    };
+  },
+  apply: (imageData, params): PixelBuffer => {
     const { width, height, data } = imageData;
-    const format = (params.format as string) || 'RGBA as ARGB';
-    const output = new ImageData(width, height);
+    const format = params.format;
+    const output = createPixelBuffer(width, height);
     const outData = output.data;
 
     for (let i = 0; i < data.length; i += 4) {
@@ -54,7 +99,7 @@ for (int i = 0; i < numPixels; i++) {
       const a = data[i + 3];
 
       switch (format) {
-        case 'RGBA as ARGB':
+        case 'rgba-as-argb':
           // Reading ARGB data as if it were RGBA (alpha appears as red)
           outData[i] = a;      // A -> R
           outData[i + 1] = r;  // R -> G
@@ -62,7 +107,7 @@ for (int i = 0; i < numPixels; i++) {
           outData[i + 3] = b;  // B -> A (makes things transparent!)
           break;
 
-        case 'RGBA as ABGR':
+        case 'rgba-as-abgr':
           // Reading ABGR data as RGBA
           outData[i] = a;      // A -> R
           outData[i + 1] = b;  // B -> G
@@ -70,7 +115,7 @@ for (int i = 0; i < numPixels; i++) {
           outData[i + 3] = r;  // R -> A
           break;
 
-        case 'RGBA as BGRA':
+        case 'rgba-as-bgra':
           // Reading BGRA data as RGBA (common Windows/DirectX issue)
           outData[i] = b;      // B -> R
           outData[i + 1] = g;  // G -> G (stays same)
@@ -78,7 +123,7 @@ for (int i = 0; i < numPixels; i++) {
           outData[i + 3] = a;  // A -> A (stays same)
           break;
 
-        case 'Rotate channels left':
+        case 'rotate-channels-left':
           // Channels shifted one position left
           outData[i] = g;
           outData[i + 1] = b;
@@ -86,7 +131,7 @@ for (int i = 0; i < numPixels; i++) {
           outData[i + 3] = r;
           break;
 
-        case 'Rotate channels right':
+        case 'rotate-channels-right':
           // Channels shifted one position right
           outData[i] = a;
           outData[i + 1] = r;
@@ -104,4 +149,4 @@ for (int i = 0; i < numPixels; i++) {
 
     return output;
   }
-};
+});
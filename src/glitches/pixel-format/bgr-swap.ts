@@ -1,6 +1,15 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
+import { defineGlitch } from '../types';
+import type { PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
 
-export const bgrSwap: GlitchDefinition = {
+/** Which input byte of the pixel each output channel comes from, in RGBA order. */
+const SOURCE_BYTES = {
+  'rgb-to-bgr': [2, 1, 0, 3],
+  'swap-r-and-g': [1, 0, 2, 3],
+  'swap-g-and-b': [0, 2, 1, 3],
+} as const;
+
+export const bgrSwap = defineGlitch({
   id: 'bgr-swap',
   name: 'BGR Swap',
   category: 'pixel-format',
@@ -19,19 +28,37 @@ for (int i = 0; i < numPixels; i++) {
     pixels[i].g = data[i * 4 + 1];  // G stays in the middle
     pixels[i].b = data[i * 4 + 0];  // B is at offset 0 in BGR
 }`,
+  symptoms: ['colors-wrong-shapes-right', 'red-blue-swapped'],
+  testPattern: 'color-bars',
   params: [
     {
       name: 'swapMode',
       type: 'select',
-      options: ['RGB to BGR', 'Swap R and G', 'Swap G and B'],
-      default: 'RGB to BGR',
+      options: [
+        { value: 'rgb-to-bgr', label: 'RGB to BGR' },
+        { value: 'swap-r-and-g', label: 'Swap R and G' },
+        { value: 'swap-g-and-b', label: 'Swap G and B' }
+      ],
+      default: 'rgb-to-bgr',
       description: 'Which channels to swap'
     }
   ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
+  // Every mode swaps two channels, so applying it again swaps them back
+  repair: (imageData, params): PixelBuffer => bgrSwap.apply(imageData, params),
+  // The producer wrote BGR; the fixed loader swaps it back on read
+  fix: (imageData, params): PixelBuffer => bgrSwap.apply(bgrSwap.apply(imageData, params), params),
+  provenance: (x, y, width, _height, params) => {
+    const i = (y * width + x) * 4;
+    const bytes = SOURCE_BYTES[params.swapMode];
+    return {
+      sources: [i + bytes[0], i + bytes[1], i + bytes[2], i + bytes[3]],
+      formula: `(y * width + x) * 4 = ${i}; R, G, B, A read from bytes ${bytes.map(b => `+${b}`).join(', ')}`,
+    };
+  },
+  apply: (imageData, params): PixelBuffer => {
     const { width, height, data } = imageData;
-    const swapMode = (params.swapMode as string) || 'RGB to BGR';
-    const output = new ImageData(width, height);
+    const swapMode = params.swapMode;
+    const output = createPixelBuffer(width, height);
     const outData = output.data;
 
     for (let i = 0; i < data.length; i += 4) {
@@ -41,17 +68,17 @@ for (int i = 0; i < numPixels; i++) {
       const a = data[i + 3];
 
       switch (swapMode) {
-        case 'RGB to BGR':
+        case 'rgb-to-bgr':
           outData[i] = b;
           outData[i + 1] = g;
           outData[i + 2] = r;
           break;
-        case 'Swap R and G':
+        case 'swap-r-and-g':
           outData[i] = g;
           outData[i + 1] = r;
           outData[i + 2] = b;
           break;
-        case 'Swap G and B':
+        case 'swap-g-and-b':
           outData[i] = r;
           outData[i + 1] = b;
           outData[i + 2] = g;
@@ -66,4 +93,4 @@ for (int i = 0; i < numPixels; i++) {
 
     return output;
   }
-};
+});
@@ -1,6 +1,58 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
+import { defineGlitch } from '../types';
+import type { GlitchProducer, PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
+import { readBack } from '../producer';
 
-export const bitDepth: GlitchDefinition = {
+const params = [
+  {
+    name: 'mode',
+    type: 'select',
+    options: [
+      { value: 'posterize', label: 'Posterize (reduce bits)' },
+      { value: 'simulate-16-bit-as-8-bit', label: 'Simulate 16-bit as 8-bit' },
+      { value: 'bit-truncation', label: 'Bit truncation' }
+    ],
+    default: 'posterize',
+    description: 'Type of bit depth error to simulate'
+  },
+  {
+    name: 'bits',
+    type: 'integer',
+    min: 1,
+    max: 7,
+    step: 1,
+    unit: 'bits',
+    default: 3,
+    description: 'Effective bit depth per channel'
+  }
+] as const;
+
+/** 16-bit little-endian RGBA, each 8-bit value widened to fill the range (v * 257). */
+const producer: GlitchProducer<typeof params> = {
+  write: (imageData) => {
+    const { data } = imageData;
+    const bytes = new Uint8Array(data.length * 2);
+    const view = new DataView(bytes.buffer);
+    for (let i = 0; i < data.length; i++) {
+      view.setUint16(i * 2, data[i] * 257, true);
+    }
+    return bytes;
+  },
+  read: (bytes, width, height): PixelBuffer => {
+    const output = createPixelBuffer(width, height);
+    const outData = output.data;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    for (let i = 0; i < outData.length; i++) {
+      // Scale down from 16-bit to 8-bit range
+      outData[i] = view.getUint16(i * 2, true) >> 8;
+    }
+
+    return output;
+  },
+};
+
+export const bitDepth = defineGlitch({
   id: 'bit-depth',
   name: 'Bit Depth Mismatch',
   category: 'pixel-format',
@@ -23,29 +75,16 @@ for (int i = 0; i < numPixels; i++) {
     // Or for more precision:
     // uint8_t value = (uint8_t)((data16[i] * 255) / 65535);
 }`,
-  params: [
-    {
-      name: 'mode',
-      type: 'select',
-      options: ['Posterize (reduce bits)', 'Simulate 16-bit as 8-bit', 'Bit truncation'],
-      default: 'Posterize (reduce bits)',
-      description: 'Type of bit depth error to simulate'
-    },
-    {
-      name: 'bits',
-      type: 'range',
-      min: 1,
-      max: 7,
-      step: 1,
-      default: 3,
-      description: 'Effective bit depth per channel'
-    }
-  ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
+  symptoms: ['colors-wrong-shapes-right', 'banding'],
+  testPattern: 'ramps',
+  params,
+  producer,
+  fix: (imageData, params) => readBack(producer, imageData, params),
+  apply: (imageData, params): PixelBuffer => {
     const { width, height, data } = imageData;
-    const mode = (params.mode as string) || 'Posterize (reduce bits)';
-    const bits = (params.bits as number) || 3;
-    const output = new ImageData(width, height);
+    const mode = params.mode;
+    const bits = params.bits;
+    const output = createPixelBuffer(width, height);
     const outData = output.data;
 
     const levels = Math.pow(2, bits);
@@ -57,14 +96,14 @@ for (int i = 0; i < numPixels; i++) {
       let b = data[i + 2];
 
       switch (mode) {
-        case 'Posterize (reduce bits)':
+        case 'posterize':
           // Reduce to fewer bits then scale back up
           r = Math.round(Math.round(r / factor) * factor);
           g = Math.round(Math.round(g / factor) * factor);
           b = Math.round(Math.round(b / factor) * factor);
           break;
 
-        case 'Simulate 16-bit as 8-bit':
+        case 'simulate-16-bit-as-8-bit':
           // Simulate reading high byte of 16-bit value
           // This causes bright values to wrap around
           r = (r * 256) % 256;
@@ -72,7 +111,7 @@ for (int i = 0; i < numPixels; i++) {
           b = (b * 256) % 256;
           break;
 
-        case 'Bit truncation':
+        case 'bit-truncation':
           // Mask out lower bits
           const mask = (0xFF << (8 - bits)) & 0xFF;
           r = r & mask;
@@ -89,4 +128,4 @@ for (int i = 0; i < numPixels; i++) {
 
     return output;
   }
-};
+});
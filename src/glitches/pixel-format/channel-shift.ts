@@ -1,6 +1,8 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
+import { defineGlitch } from '../types';
+import type { PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
 
-export const channelShift: GlitchDefinition = {
+export const channelShift = defineGlitch({
   id: 'channel-shift',
   name: 'Channel Shift',
   category: 'pixel-format',
@@ -30,41 +32,69 @@ void readChannels(uint8_t* data, int width, int height) {
         }
     }
 }`,
+  symptoms: ['color-fringes', 'shifted', 'edges-only'],
+  testPattern: 'uv-grid',
   params: [
     {
       name: 'redShift',
-      type: 'range',
+      type: 'integer',
       min: -20,
       max: 20,
       step: 1,
+      unit: 'px',
       default: 5,
       description: 'Pixel shift for red channel'
     },
     {
       name: 'greenShift',
-      type: 'range',
+      type: 'integer',
       min: -20,
       max: 20,
       step: 1,
+      unit: 'px',
       default: 0,
       description: 'Pixel shift for green channel'
     },
     {
       name: 'blueShift',
-      type: 'range',
+      type: 'integer',
       min: -20,
       max: 20,
       step: 1,
+      unit: 'px',
       default: -5,
       description: 'Pixel shift for blue channel'
     }
   ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
+  // Shifting back restores everything except the columns clamped at the edges
+  repair: (imageData, params): PixelBuffer => channelShift.apply(imageData, {
+    redShift: -params.redShift,
+    greenShift: -params.greenShift,
+    blueShift: -params.blueShift,
+  }),
+  // Every channel read from the same pixel
+  fix: (imageData, params): PixelBuffer => channelShift.apply(imageData, {
+    ...params,
+    redShift: 0,
+    greenShift: 0,
+    blueShift: 0,
+  }),
+  provenance: (x, y, width, _height, params) => {
+    const rowStart = y * width;
+    const redX = Math.max(0, Math.min(width - 1, x + params.redShift));
+    const greenX = Math.max(0, Math.min(width - 1, x + params.greenShift));
+    const blueX = Math.max(0, Math.min(width - 1, x + params.blueShift));
+    return {
+      sources: [(rowStart + redX) * 4, (rowStart + greenX) * 4 + 1, (rowStart + blueX) * 4 + 2, (rowStart + x) * 4 + 3],
+      formula: `R from x + redShift = ${redX}, G from x + greenShift = ${greenX}, B from x + blueShift = ${blueX} (clamped to the row)`,
+    };
+  },
+  apply: (imageData, params): PixelBuffer => {
     const { width, height, data } = imageData;
-    const redShift = (params.redShift as number) || 0;
-    const greenShift = (params.greenShift as number) || 0;
-    const blueShift = (params.blueShift as number) || 0;
-    const output = new ImageData(width, height);
+    const redShift = params.redShift;
+    const greenShift = params.greenShift;
+    const blueShift = params.blueShift;
+    const output = createPixelBuffer(width, height);
     const outData = output.data;
 
     for (let y = 0; y < height; y++) {
@@ -89,4 +119,4 @@ void readChannels(uint8_t* data, int width, int height) {
 
     return output;
   }
-};
+});
@@ -1,6 +1,8 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
+import { defineGlitch } from '../types';
+import type { PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
 
-export const compression: GlitchDefinition = {
+export const compression = defineGlitch({
   id: 'compression',
   name: 'Compression Artifacts',
   category: 'pixel-format',
@@ -26,17 +28,23 @@ stbi_write_jpg("texture.jpg", w, h, 4, data, 90);  // Higher quality
 glCompressedTexImage2D(GL_TEXTURE_2D, 0, GL_COMPRESSED_RGBA_S3TC_DXT5_EXT, ...);
 // Or BC7 for best quality:
 glCompressedTexImage2D(GL_TEXTURE_2D, 0, GL_COMPRESSED_RGBA_BPTC_UNORM, ...);`,
+  symptoms: ['blocky-grid', 'banding'],
+  testPattern: 'ramps',
   params: [
     {
       name: 'blockSize',
       type: 'select',
-      options: ['4x4 (DXT/BCn)', '8x8 (JPEG)', '16x16 (heavy)'],
-      default: '8x8 (JPEG)',
+      options: [
+        { value: 4, label: '4x4 (DXT/BCn)' },
+        { value: 8, label: '8x8 (JPEG)' },
+        { value: 16, label: '16x16 (heavy)' }
+      ],
+      default: 8,
       description: 'Compression block size'
     },
     {
       name: 'quality',
-      type: 'range',
+      type: 'integer',
       min: 1,
       max: 10,
       step: 1,
@@ -44,15 +52,15 @@ glCompressedTexImage2D(GL_TEXTURE_2D, 0, GL_COMPRESSED_RGBA_BPTC_UNORM, ...);`,
       description: 'Quality level (lower = more artifacts)'
     }
   ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
+  // Still lossy at the highest quality, but the blocks are hard to see
+  fix: (imageData, params): PixelBuffer => compression.apply(imageData, { ...params, quality: 10 }),
+  apply: (imageData, params): PixelBuffer => {
     const { width, height, data } = imageData;
-    const blockSizeStr = (params.blockSize as string) || '8x8 (JPEG)';
-    const quality = (params.quality as number) || 3;
-    const output = new ImageData(width, height);
+    const blockSize = params.blockSize;
+    const quality = params.quality;
+    const output = createPixelBuffer(width, height);
     const outData = output.data;
 
-    const blockSize = blockSizeStr.startsWith('4') ? 4 : blockSizeStr.startsWith('8') ? 8 : 16;
-
     // Quantization factor (lower quality = higher quantization)
     const quantFactor = Math.floor(32 / quality);
 
@@ -109,4 +117,4 @@ glCompressedTexImage2D(GL_TEXTURE_2D, 0, GL_COMPRESSED_RGBA_BPTC_UNORM, ...);`,
 
     return output;
   }
-};
+});
@@ -1,6 +1,15 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
+import { defineGlitch } from '../types';
+import type { PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
 
-export const endianness: GlitchDefinition = {
+/** Which input byte of the pixel each output channel comes from, in RGBA order. */
+const SOURCE_BYTES = {
+  'swap-32-bit': [3, 2, 1, 0],
+  'swap-16-bit-pairs': [1, 0, 3, 2],
+  'swap-within-16-bit': [1, 0, 2, 3],
+} as const;
+
+export const endianness = defineGlitch({
   id: 'endianness',
   name: 'Endianness Swap',
   category: 'pixel-format',
@@ -25,19 +34,59 @@ uint8_t r = data[i];
 uint8_t g = data[i + 1];
 uint8_t b = data[i + 2];
 uint8_t a = data[i + 3];`,
+  symptoms: ['colors-wrong-shapes-right', 'color-tint', 'transparency-wrong'],
+  testPattern: 'color-bars',
   params: [
     {
       name: 'swapMode',
       type: 'select',
-      options: ['Swap 32-bit (full reverse)', 'Swap 16-bit pairs', 'Swap within 16-bit'],
-      default: 'Swap 32-bit (full reverse)',
+      options: [
+        { value: 'swap-32-bit', label: 'Swap 32-bit (full reverse)' },
+        { value: 'swap-16-bit-pairs', label: 'Swap 16-bit pairs' },
+        { value: 'swap-within-16-bit', label: 'Swap within 16-bit' }
+      ],
+      default: 'swap-32-bit',
       description: 'Type of byte swap to apply'
     }
   ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
+  presets: [
+    {
+      name: 'Big-endian ARGB read on x86',
+      params: { swapMode: 'swap-32-bit' }
+    },
+    {
+      name: 'RGB565 bytes swapped',
+      params: { swapMode: 'swap-within-16-bit' }
+    }
+  ],
+  rawLayout: (width, height, params) => {
+    // Pixels stored as native words on a little-endian machine, read back as bytes
+    switch (params.swapMode) {
+      case 'swap-32-bit':
+        return { width, height, offset: 0, stride: 0, format: 'rgba8888', littleEndian: true, tiling: 'linear' };
+      case 'swap-16-bit-pairs':
+        return { width, height, offset: 0, stride: 0, format: 'rgba16x2', littleEndian: true, tiling: 'linear' };
+      default:
+        // Swapping only the first pair has no consistent word layout
+        return null;
+    }
+  },
+  // Each swap is its own inverse
+  repair: (imageData, params): PixelBuffer => endianness.apply(imageData, params),
+  // The fixed loader byte-swaps the other machine's data on read
+  fix: (imageData, params): PixelBuffer => endianness.apply(endianness.apply(imageData, params), params),
+  provenance: (x, y, width, _height, params) => {
+    const i = (y * width + x) * 4;
+    const bytes = SOURCE_BYTES[params.swapMode];
+    return {
+      sources: [i + bytes[0], i + bytes[1], i + bytes[2], i + bytes[3]],
+      formula: `(y * width + x) * 4 = ${i}; R, G, B, A read from bytes ${bytes.map(b => `+${b}`).join(', ')}`,
+    };
+  },
+  apply: (imageData, params): PixelBuffer => {
     const { width, height, data } = imageData;
-    const swapMode = (params.swapMode as string) || 'Swap 32-bit (full reverse)';
-    const output = new ImageData(width, height);
+    const swapMode = params.swapMode;
+    const output = createPixelBuffer(width, height);
     const outData = output.data;
 
     for (let i = 0; i < data.length; i += 4) {
@@ -47,7 +96,7 @@ uint8_t a = data[i + 3];`,
       const a = data[i + 3];
 
       switch (swapMode) {
-        case 'Swap 32-bit (full reverse)':
+        case 'swap-32-bit':
           // Complete byte reversal: RGBA -> ABGR
           outData[i] = a;
           outData[i + 1] = b;
@@ -55,7 +104,7 @@ uint8_t a = data[i + 3];`,
           outData[i + 3] = r;
           break;
 
-        case 'Swap 16-bit pairs':
+        case 'swap-16-bit-pairs':
           // Swap as two 16-bit values: RGBA -> GBAR
           outData[i] = g;
           outData[i + 1] = r;
@@ -63,7 +112,7 @@ uint8_t a = data[i + 3];`,
           outData[i + 3] = b;
           break;
 
-        case 'Swap within 16-bit':
+        case 'swap-within-16-bit':
           // Swap bytes within each 16-bit pair: RGBA -> GRBA
           outData[i] = g;
           outData[i + 1] = r;
@@ -81,4 +130,4 @@ uint8_t a = data[i + 3];`,
 
     return output;
   }
-};
+});
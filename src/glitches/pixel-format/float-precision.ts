@@ -1,6 +1,62 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
+import { defineGlitch } from '../types';
+import type { GlitchProducer, PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
+import { readBack } from '../producer';
 
-export const floatPrecision: GlitchDefinition = {
+const params = [
+  {
+    name: 'mode',
+    type: 'select',
+    options: [
+      { value: 'nan-holes', label: 'NaN holes (black spots)' },
+      { value: 'infinity-clipping', label: 'Infinity clipping' },
+      { value: 'precision-banding', label: 'Precision banding' },
+      { value: 'denormal-visualization', label: 'Denormal visualization' },
+      { value: 'random-corruption', label: 'Random corruption' }
+    ],
+    default: 'nan-holes',
+    description: 'Type of float precision error'
+  },
+  {
+    name: 'intensity',
+    type: 'range',
+    min: 1,
+    max: 10,
+    step: 1,
+    default: 5,
+    description: 'Effect intensity'
+  }
+] as const;
+
+/** FP32 little-endian RGBA in 0..1, as a float render target would hold it. */
+const producer: GlitchProducer<typeof params> = {
+  write: (imageData) => {
+    const { data } = imageData;
+    const bytes = new Uint8Array(data.length * 4);
+    const view = new DataView(bytes.buffer);
+    for (let i = 0; i < data.length; i++) {
+      view.setFloat32(i * 4, data[i] / 255, true);
+    }
+    return bytes;
+  },
+  read: (bytes, width, height): PixelBuffer => {
+    const output = createPixelBuffer(width, height);
+    const outData = output.data;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    for (let i = 0; i < outData.length; i++) {
+      let value = view.getFloat32(i * 4, true);
+      // NaN and Infinity become 0, the rest clamps to 0..1
+      if (!Number.isFinite(value)) value = 0;
+      value = Math.min(1, Math.max(0, value));
+      outData[i] = Math.round(value * 255);
+    }
+
+    return output;
+  },
+};
+
+export const floatPrecision = defineGlitch({
   id: 'float-precision',
   name: 'Float Precision Errors',
   category: 'pixel-format',
@@ -31,29 +87,16 @@ float len = lenSq > 0.0 ? sqrt(lenSq) : 0.0;
 // Fix: Flush denormals to zero
 hdrColor = max(hdrColor, vec3(0.0));  // Clamp small values
 // Or enable FTZ (Flush To Zero) mode on GPU`,
-  params: [
-    {
-      name: 'mode',
-      type: 'select',
-      options: ['NaN holes (black spots)', 'Infinity clipping', 'Precision banding', 'Denormal visualization', 'Random corruption'],
-      default: 'NaN holes (black spots)',
-      description: 'Type of float precision error'
-    },
-    {
-      name: 'intensity',
-      type: 'range',
-      min: 1,
-      max: 10,
-      step: 1,
-      default: 5,
-      description: 'Effect intensity'
-    }
-  ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
+  symptoms: ['noise-speckles', 'banding'],
+  testPattern: 'ramps',
+  params,
+  producer,
+  fix: (imageData, params) => readBack(producer, imageData, params),
+  apply: (imageData, params): PixelBuffer => {
     const { width, height, data } = imageData;
-    const mode = (params.mode as string) || 'NaN holes (black spots)';
-    const intensity = (params.intensity as number) || 5;
-    const output = new ImageData(width, height);
+    const mode = params.mode;
+    const intensity = params.intensity;
+    const output = createPixelBuffer(width, height);
     const outData = output.data;
 
     // Simple hash for deterministic randomness
@@ -71,7 +114,7 @@ hdrColor = max(hdrColor, vec3(0.0));  // Clamp small values
         let b = data[idx + 2];
 
         switch (mode) {
-          case 'NaN holes (black spots)':
+          case 'nan-holes':
             // Simulate NaN appearing in certain areas (based on values)
             const threshold = intensity * 10;
             if ((r + g + b) / 3 < threshold || (r + g + b) / 3 > 255 - threshold) {
@@ -82,7 +125,7 @@ hdrColor = max(hdrColor, vec3(0.0));  // Clamp small values
             }
             break;
 
-          case 'Infinity clipping':
+          case 'infinity-clipping':
             // Simulate HDR values that overflow and clip
             const brightness = (r + g + b) / 3;
             if (brightness > 255 - intensity * 10) {
@@ -98,7 +141,7 @@ hdrColor = max(hdrColor, vec3(0.0));  // Clamp small values
             }
             break;
 
-          case 'Precision banding':
+          case 'precision-banding':
             // Simulate reduced precision in dark areas
             const precision = Math.max(1, Math.floor(intensity * 3));
             // More quantization in darker values
@@ -110,7 +153,7 @@ hdrColor = max(hdrColor, vec3(0.0));  // Clamp small values
             b = Math.round(b / quantB) * quantB;
             break;
 
-          case 'Denormal visualization':
+          case 'denormal-visualization':
             // Show where denormals would occur (very dark values)
             const denormalThreshold = intensity;
             if (r < denormalThreshold) r = (r > 0 ? 128 : 0);  // Highlight near-zero
@@ -118,7 +161,7 @@ hdrColor = max(hdrColor, vec3(0.0));  // Clamp small values
             if (b < denormalThreshold) b = (b > 0 ? 128 : 0);
             break;
 
-          case 'Random corruption':
+          case 'random-corruption':
             // Simulate random float corruption from uninitialized memory or GPU bugs
             if (hash(x, y) < intensity / 100) {
               const corruptType = Math.floor(hash(x + 100, y) * 4);
@@ -145,4 +188,4 @@ hdrColor = max(hdrColor, vec3(0.0));  // Clamp small values
 
     return output;
   }
-};
+});
@@ -1,6 +1,16 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
+import { defineGlitch } from '../types';
+import type { PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
 
-export const gamma: GlitchDefinition = {
+function srgbToLinear(c: number): number {
+  return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+}
+
+function linearToSrgb(c: number): number {
+  return c <= 0.0031308 ? c * 12.92 : 1.055 * Math.pow(c, 1 / 2.4) - 0.055;
+}
+
+export const gamma = defineGlitch({
   id: 'gamma',
   name: 'Gamma / sRGB Mismatch',
   category: 'pixel-format',
@@ -28,12 +38,19 @@ float srgbToLinear(float c) {
     return c <= 0.04045 ? c / 12.92
          : pow((c + 0.055) / 1.055, 2.4);
 }`,
+  symptoms: ['colors-wrong-shapes-right', 'too-dark-or-washed-out'],
+  testPattern: 'ramps',
   params: [
     {
       name: 'mode',
       type: 'select',
-      options: ['sRGB treated as Linear (washed out)', 'Linear treated as sRGB (too dark)', 'Double gamma', 'Inverse gamma'],
-      default: 'sRGB treated as Linear (washed out)',
+      options: [
+        { value: 'srgb-treated-as-linear', label: 'sRGB treated as Linear (washed out)' },
+        { value: 'linear-treated-as-srgb', label: 'Linear treated as sRGB (too dark)' },
+        { value: 'double-gamma', label: 'Double gamma' },
+        { value: 'inverse-gamma', label: 'Inverse gamma' }
+      ],
+      default: 'srgb-treated-as-linear',
       description: 'Type of gamma mismatch'
     },
     {
@@ -46,11 +63,41 @@ float srgbToLinear(float c) {
       description: 'Gamma value (sRGB is ~2.2)'
     }
   ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
+  presets: [
+    {
+      name: 'sRGB texture sampled as UNORM',
+      params: { mode: 'srgb-treated-as-linear', gamma: 2.2 }
+    },
+    {
+      name: 'Linear render target shown without encoding',
+      params: { mode: 'linear-treated-as-srgb', gamma: 2.2 }
+    },
+    {
+      name: 'Classic Mac gamma 1.8',
+      params: { mode: 'srgb-treated-as-linear', gamma: 1.8 }
+    }
+  ],
+  fix: (imageData): PixelBuffer => {
+    const { width, height, data } = imageData;
+    const output = createPixelBuffer(width, height);
+    const outData = output.data;
+
+    for (let i = 0; i < data.length; i += 4) {
+      for (let c = 0; c < 3; c++) {
+        // Decode to linear for the math, encode back to sRGB for display
+        const linear = srgbToLinear(data[i + c] / 255);
+        outData[i + c] = Math.round(linearToSrgb(linear) * 255);
+      }
+      outData[i + 3] = data[i + 3];
+    }
+
+    return output;
+  },
+  apply: (imageData, params): PixelBuffer => {
     const { width, height, data } = imageData;
-    const mode = (params.mode as string) || 'sRGB treated as Linear (washed out)';
-    const gamma = (params.gamma as number) || 2.2;
-    const output = new ImageData(width, height);
+    const mode = params.mode;
+    const gamma = params.gamma;
+    const output = createPixelBuffer(width, height);
     const outData = output.data;
 
     for (let i = 0; i < data.length; i += 4) {
@@ -59,7 +106,7 @@ float srgbToLinear(float c) {
       let b = data[i + 2] / 255;
 
       switch (mode) {
-        case 'sRGB treated as Linear (washed out)':
+        case 'srgb-treated-as-linear':
           // Data is sRGB but we're treating it as linear and displaying as sRGB
           // This applies gamma twice, washing out the image
           r = Math.pow(r, 1 / gamma);
@@ -67,7 +114,7 @@ float srgbToLinear(float c) {
           b = Math.pow(b, 1 / gamma);
           break;
 
-        case 'Linear treated as sRGB (too dark)':
+        case 'linear-treated-as-srgb':
           // Data is linear but we're treating it as sRGB
           // Missing the gamma expansion makes it too dark
           r = Math.pow(r, gamma);
@@ -75,14 +122,14 @@ float srgbToLinear(float c) {
           b = Math.pow(b, gamma);
           break;
 
-        case 'Double gamma':
+        case 'double-gamma':
           // Gamma applied twice
           r = Math.pow(r, gamma / 2.2 * 2);
           g = Math.pow(g, gamma / 2.2 * 2);
           b = Math.pow(b, gamma / 2.2 * 2);
           break;
 
-        case 'Inverse gamma':
+        case 'inverse-gamma':
           // Completely wrong gamma direction
           r = Math.pow(r, 1 / (gamma * gamma / 2.2));
           g = Math.pow(g, 1 / (gamma * gamma / 2.2));
@@ -98,4 +145,4 @@ float srgbToLinear(float c) {
 
     return output;
   }
-};
+});
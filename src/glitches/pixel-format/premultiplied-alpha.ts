@@ -1,6 +1,9 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
+import { defineGlitch } from '../types';
+import type { PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
+import { hexToRgb } from '../params';
 
-export const premultipliedAlpha: GlitchDefinition = {
+export const premultipliedAlpha = defineGlitch({
   id: 'premultiplied-alpha',
   name: 'Premultiplied Alpha',
   category: 'pixel-format',
@@ -27,49 +30,54 @@ if (premult.a > 0.0) {
     straight.rgb = premult.rgb / premult.a;
     straight.a = premult.a;
 }`,
+  symptoms: ['transparency-wrong', 'edges-only', 'too-dark-or-washed-out'],
+  testPattern: 'alpha-checker',
   params: [
     {
       name: 'mode',
       type: 'select',
-      options: ['Straight as Premultiplied (dark fringes)', 'Premultiplied as Straight (too bright)', 'Double premultiply', 'Show alpha errors'],
-      default: 'Straight as Premultiplied (dark fringes)',
+      options: [
+        { value: 'straight-as-premultiplied', label: 'Straight as Premultiplied (dark fringes)' },
+        { value: 'premultiplied-as-straight', label: 'Premultiplied as Straight (too bright)' },
+        { value: 'double-premultiply', label: 'Double premultiply' },
+        { value: 'show-alpha-errors', label: 'Show alpha errors' }
+      ],
+      default: 'straight-as-premultiplied',
       description: 'Type of alpha handling error'
     },
     {
-      name: 'backgroundR',
-      type: 'range',
-      min: 0,
-      max: 255,
-      step: 1,
-      default: 128,
-      description: 'Background red (to show blending errors)'
-    },
-    {
-      name: 'backgroundG',
-      type: 'range',
-      min: 0,
-      max: 255,
-      step: 1,
-      default: 128,
-      description: 'Background green'
-    },
-    {
-      name: 'backgroundB',
-      type: 'range',
-      min: 0,
-      max: 255,
-      step: 1,
-      default: 128,
-      description: 'Background blue'
+      name: 'background',
+      type: 'color',
+      default: '#808080',
+      description: 'Background color (to show blending errors)'
     }
   ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
+  fix: (imageData, params): PixelBuffer => {
+    const { width, height, data } = imageData;
+    const background = hexToRgb(params.background);
+    const output = createPixelBuffer(width, height);
+    const outData = output.data;
+
+    for (let i = 0; i < data.length; i += 4) {
+      const a = data[i + 3] / 255;
+
+      // Premultiply the straight color once, then composite
+      outData[i] = Math.round(data[i] * a + background.r * (1 - a));
+      outData[i + 1] = Math.round(data[i + 1] * a + background.g * (1 - a));
+      outData[i + 2] = Math.round(data[i + 2] * a + background.b * (1 - a));
+      outData[i + 3] = 255;
+    }
+
+    return output;
+  },
+  apply: (imageData, params): PixelBuffer => {
     const { width, height, data } = imageData;
-    const mode = (params.mode as string) || 'Straight as Premultiplied (dark fringes)';
-    const bgR = ((params.backgroundR as number) || 128) / 255;
-    const bgG = ((params.backgroundG as number) || 128) / 255;
-    const bgB = ((params.backgroundB as number) || 128) / 255;
-    const output = new ImageData(width, height);
+    const mode = params.mode;
+    const background = hexToRgb(params.background);
+    const bgR = background.r / 255;
+    const bgG = background.g / 255;
+    const bgB = background.b / 255;
+    const output = createPixelBuffer(width, height);
     const outData = output.data;
 
     for (let i = 0; i < data.length; i += 4) {
@@ -81,7 +89,7 @@ if (premult.a > 0.0) {
       let outR: number, outG: number, outB: number;
 
       switch (mode) {
-        case 'Straight as Premultiplied (dark fringes)':
+        case 'straight-as-premultiplied':
           // Treat straight alpha as premultiplied (don't multiply by alpha)
           // This makes semi-transparent areas too dark
           outR = r + bgR * (1 - a);
@@ -90,7 +98,7 @@ if (premult.a > 0.0) {
           // Result is darkened because RGB wasn't premultiplied
           break;
 
-        case 'Premultiplied as Straight (too bright)':
+        case 'premultiplied-as-straight':
           // Treating already-premultiplied as straight (multiply again)
           // Simulated by showing what double-multiply looks like
           const pm_r = r * a;
@@ -102,7 +110,7 @@ if (premult.a > 0.0) {
           outB = pm_b * a + bgB * (1 - a);
           break;
 
-        case 'Double premultiply':
+        case 'double-premultiply':
           // Alpha applied twice - very dark transparent areas
           const a2 = a * a;
           outR = r * a2 + bgR * (1 - a);
@@ -110,7 +118,7 @@ if (premult.a > 0.0) {
           outB = b * a2 + bgB * (1 - a);
           break;
 
-        case 'Show alpha errors':
+        case 'show-alpha-errors':
           // Highlight pixels where premultiply would cause issues
           // Areas where RGB > Alpha indicate wrong premultiply
           const maxRGB = Math.max(r, g, b);
@@ -140,4 +148,4 @@ if (premult.a > 0.0) {
 
     return output;
   }
-};
+});
@@ -1,6 +1,8 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
+import { defineGlitch } from '../types';
+import type { PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
 
-export const rgbAsRgba: GlitchDefinition = {
+export const rgbAsRgba = defineGlitch({
   id: 'rgb-as-rgba',
   name: 'RGB as RGBA',
   category: 'pixel-format',
@@ -25,6 +27,8 @@ for (int i = 0; i < width * height; i++) {
     uint8_t b = data[offset + 2];
     uint8_t a = bytesPerPixel == 4 ? data[offset + 3] : 255;
 }`,
+  symptoms: ['diagonal-shear', 'stretched', 'repeated'],
+  testPattern: 'uv-grid',
   params: [
     {
       name: 'intensity',
@@ -36,10 +40,45 @@ for (int i = 0; i < width * height; i++) {
       description: 'How strongly to apply the effect'
     }
   ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
+  fix: (imageData): PixelBuffer => {
     const { width, height, data } = imageData;
-    const intensity = (params.intensity as number) || 1;
-    const output = new ImageData(width, height);
+    const pixelCount = width * height;
+    const output = createPixelBuffer(width, height);
+    const outData = output.data;
+
+    // The producer's tightly packed 3-byte pixels
+    const rgb = new Uint8Array(pixelCount * 3);
+    for (let p = 0; p < pixelCount; p++) {
+      rgb[p * 3] = data[p * 4];
+      rgb[p * 3 + 1] = data[p * 4 + 1];
+      rgb[p * 3 + 2] = data[p * 4 + 2];
+    }
+
+    // Read them back 3 bytes at a time, supplying an opaque alpha
+    for (let p = 0; p < pixelCount; p++) {
+      outData[p * 4] = rgb[p * 3];
+      outData[p * 4 + 1] = rgb[p * 3 + 1];
+      outData[p * 4 + 2] = rgb[p * 3 + 2];
+      outData[p * 4 + 3] = 255;
+    }
+
+    return output;
+  },
+  provenance: (x, y, width, height, params) => {
+    const wrongByteOffset = (y * width + x) * 4;
+    const actualPixelIndex = Math.floor(wrongByteOffset / 3);
+    const srcIdx = (actualPixelIndex % (width * height)) * 4;
+    const blend = params.intensity < 1 ? `, blended ${Math.round(params.intensity * 100)}% over the correct pixel` : '';
+    return {
+      sources: [srcIdx, srcIdx + 1, srcIdx + 2, null],
+      formula: `(y * width + x) * 4 / 3 = ${wrongByteOffset} / 3, in 3-byte pixel ${actualPixelIndex}` +
+        (srcIdx / 4 !== actualPixelIndex ? `, wrapped to ${srcIdx / 4}` : '') + blend,
+    };
+  },
+  apply: (imageData, params): PixelBuffer => {
+    const { width, height, data } = imageData;
+    const intensity = params.intensity;
+    const output = createPixelBuffer(width, height);
     const outData = output.data;
 
     // Simulate reading RGB (3 byte) data as if it were RGBA (4 byte)
@@ -81,4 +120,4 @@ for (int i = 0; i < width * height; i++) {
 
     return output;
   }
-};
+});
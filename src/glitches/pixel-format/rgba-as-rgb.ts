@@ -1,6 +1,27 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
+import { defineGlitch } from '../types';
+import type { GlitchProducer, PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
+import { readBack, readRows, writeRows } from '../producer';
 
-export const rgbaAsRgb: GlitchDefinition = {
+const params = [
+  {
+    name: 'intensity',
+    type: 'range',
+    min: 0.1,
+    max: 1,
+    step: 0.1,
+    default: 1,
+    description: 'How strongly to apply the effect'
+  }
+] as const;
+
+/** Tightly packed RGBA, 4 bytes per pixel. */
+const producer: GlitchProducer<typeof params> = {
+  write: (imageData) => writeRows(imageData, { bytesPerPixel: 4, stride: imageData.width * 4 }),
+  read: (bytes, width, height) => readRows(bytes, width, height, { bytesPerPixel: 4, stride: width * 4 }),
+};
+
+export const rgbaAsRgb = defineGlitch({
   id: 'rgba-as-rgb',
   name: 'RGBA as RGB',
   category: 'pixel-format',
@@ -22,21 +43,32 @@ for (int i = 0; i < width * height; i++) {
     uint8_t b = data[offset + 2];
     uint8_t a = data[offset + 3];
 }`,
-  params: [
-    {
-      name: 'intensity',
-      type: 'range',
-      min: 0.1,
-      max: 1,
-      step: 0.1,
-      default: 1,
-      description: 'How strongly to apply the effect'
+  symptoms: ['diagonal-shear', 'color-fringes'],
+  testPattern: 'uv-grid',
+  params,
+  producer,
+  fix: (imageData, params) => readBack(producer, imageData, params),
+  provenance: (x, y, width, height, params) => {
+    const correctIdx = (y * width + x) * 4;
+    const wrongByteOffset = (y * width + x) * 3;
+    const wrongIdx = wrongByteOffset % (width * height * 4);
+    const blend = params.intensity < 1 ? `, blended ${Math.round(params.intensity * 100)}% over the correct pixel` : '';
+    if (wrongIdx + 2 >= width * height * 4) {
+      return {
+        sources: [correctIdx, correctIdx + 1, correctIdx + 2, null],
+        formula: `(y * width + x) * 3 = ${wrongByteOffset} runs past the buffer, so the correct pixel shows through`,
+      };
     }
-  ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
+    return {
+      sources: [wrongIdx, wrongIdx + 1, wrongIdx + 2, null],
+      formula: `(y * width + x) * 3 = ${y * width + x} * 3 = ${wrongByteOffset}` +
+        (wrongIdx !== wrongByteOffset ? `, wrapped to ${wrongIdx}` : '') + blend,
+    };
+  },
+  apply: (imageData, params): PixelBuffer => {
     const { width, height, data } = imageData;
-    const intensity = (params.intensity as number) || 1;
-    const output = new ImageData(width, height);
+    const intensity = params.intensity;
+    const output = createPixelBuffer(width, height);
     const outData = output.data;
 
     // Simulate reading RGBA data as if it were RGB
@@ -78,4 +110,4 @@ for (int i = 0; i < width * height; i++) {
 
     return output;
   }
-};
+});
@@ -1,6 +1,59 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
+import { defineGlitch } from '../types';
+import type { GlitchProducer, PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
+import { readBack } from '../producer';
 
-export const signedUnsigned: GlitchDefinition = {
+const params = [
+  {
+    name: 'mode',
+    type: 'select',
+    options: [
+      { value: 'unsigned-as-signed', label: 'Unsigned as Signed (bright becomes dark)' },
+      { value: 'signed-range-visualization', label: 'Signed range visualization' },
+      { value: 'normalize-to-signed', label: 'Normalize to signed (-1 to 1)' },
+      { value: 'absolute-value', label: 'Absolute value (fold negatives)' }
+    ],
+    default: 'unsigned-as-signed',
+    description: 'Type of signed/unsigned error'
+  }
+] as const;
+
+/**
+ * Unsigned RGBA bytes for 'unsigned-as-signed'. The other modes store RGB as
+ * signed bytes (value - 128, like an SNORM texture); alpha stays unsigned.
+ */
+const producer: GlitchProducer<typeof params> = {
+  write: (imageData, params) => {
+    const bytes = new Uint8Array(imageData.data);
+    if (params.mode !== 'unsigned-as-signed') {
+      const signed = new Int8Array(bytes.buffer);
+      for (let i = 0; i < bytes.length; i += 4) {
+        for (let c = 0; c < 3; c++) {
+          signed[i + c] = imageData.data[i + c] - 128;
+        }
+      }
+    }
+    return bytes;
+  },
+  read: (bytes, width, height, params): PixelBuffer => {
+    const output = createPixelBuffer(width, height);
+    const outData = output.data;
+    // Unsigned char for unsigned data, signed char for the signed channels
+    const pixels = new Uint8Array(bytes.buffer, bytes.byteOffset, bytes.length);
+    const signed = new Int8Array(bytes.buffer, bytes.byteOffset, bytes.length);
+
+    for (let i = 0; i < pixels.length; i += 4) {
+      for (let c = 0; c < 3; c++) {
+        outData[i + c] = params.mode === 'unsigned-as-signed' ? pixels[i + c] : signed[i + c] + 128;
+      }
+      outData[i + 3] = pixels[i + 3];
+    }
+
+    return output;
+  },
+};
+
+export const signedUnsigned = defineGlitch({
   id: 'signed-unsigned',
   name: 'Signed/Unsigned Mismatch',
   category: 'pixel-format',
@@ -29,19 +82,15 @@ for (int i = 0; i < size; i++) {
 // Fix: Properly decode signed normal map
 vec3 encodedNormal = texture(normalMap, uv).xyz;
 vec3 normal = encodedNormal * 2.0 - 1.0;  // Convert 0..1 to -1..1`,
-  params: [
-    {
-      name: 'mode',
-      type: 'select',
-      options: ['Unsigned as Signed (bright becomes dark)', 'Signed range visualization', 'Normalize to signed (-1 to 1)', 'Absolute value (fold negatives)'],
-      default: 'Unsigned as Signed (bright becomes dark)',
-      description: 'Type of signed/unsigned error'
-    }
-  ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
+  symptoms: ['colors-wrong-shapes-right', 'inverted-values'],
+  testPattern: 'ramps',
+  params,
+  producer,
+  fix: (imageData, params) => readBack(producer, imageData, params),
+  apply: (imageData, params): PixelBuffer => {
     const { width, height, data } = imageData;
-    const mode = (params.mode as string) || 'Unsigned as Signed (bright becomes dark)';
-    const output = new ImageData(width, height);
+    const mode = params.mode;
+    const output = createPixelBuffer(width, height);
     const outData = output.data;
 
     for (let i = 0; i < data.length; i += 4) {
@@ -50,7 +99,7 @@ vec3 normal = encodedNormal * 2.0 - 1.0;  // Convert 0..1 to -1..1`,
       let b = data[i + 2];
 
       switch (mode) {
-        case 'Unsigned as Signed (bright becomes dark)':
+        case 'unsigned-as-signed':
           // Interpret as signed byte: 128-255 becomes -128 to -1
           // Then we have to display it somehow, so map back oddly
           r = r > 127 ? r - 256 : r;
@@ -66,7 +115,7 @@ vec3 normal = encodedNormal * 2.0 - 1.0;  // Convert 0..1 to -1..1`,
           b = (b + 128) % 256;
           break;
 
-        case 'Signed range visualization':
+        case 'signed-range-visualization':
           // Show what the signed interpretation would look like
           // Values > 127 shown as "negative" (darker, shifted)
           if (r > 127 || g > 127 || b > 127) {
@@ -76,7 +125,7 @@ vec3 normal = encodedNormal * 2.0 - 1.0;  // Convert 0..1 to -1..1`,
           }
           break;
 
-        case 'Normalize to signed (-1 to 1)':
+        case 'normalize-to-signed':
           // Show effect of interpreting 0-255 as -1 to 1 (like normal maps)
           // Without proper conversion, this causes wrong values
           r = Math.round(((r / 255) * 2 - 1) * 127 + 128);
@@ -84,7 +133,7 @@ vec3 normal = encodedNormal * 2.0 - 1.0;  // Convert 0..1 to -1..1`,
           b = Math.round(((b / 255) * 2 - 1) * 127 + 128);
           break;
 
-        case 'Absolute value (fold negatives)':
+        case 'absolute-value':
           // What happens if you abs() signed data incorrectly
           // Values 128-255 get "folded" back
           r = r > 127 ? 255 - r : r;
@@ -105,4 +154,4 @@ vec3 normal = encodedNormal * 2.0 - 1.0;  // Convert 0..1 to -1..1`,
 
     return output;
   }
-};
+});
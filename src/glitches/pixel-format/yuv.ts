@@ -1,6 +1,24 @@
-import type { GlitchDefinition, GlitchParams } from '../types';
-
-export const yuv: GlitchDefinition = {
+import { defineGlitch } from '../types';
+import type { PixelBuffer } from '../types';
+import { createPixelBuffer } from '../pixel-buffer';
+
+// RGB to YUV (BT.709)
+function rgbToYuv(r: number, g: number, b: number): [number, number, number] {
+  const y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
+  const u = -0.1146 * r - 0.3854 * g + 0.5 * b + 128;
+  const v = 0.5 * r - 0.4542 * g - 0.0458 * b + 128;
+  return [y, u, v];
+}
+
+// YUV to RGB (BT.709)
+function yuvToRgb(y: number, u: number, v: number): [number, number, number] {
+  const r = y + 1.5748 * (v - 128);
+  const g = y - 0.1873 * (u - 128) - 0.4681 * (v - 128);
+  const b = y + 1.8556 * (u - 128);
+  return [r, g, b];
+}
+
+export const yuv = defineGlitch({
   id: 'yuv',
   name: 'YUV/Color Space Errors',
   category: 'pixel-format',
@@ -34,36 +52,60 @@ if (tvRange) {
     Cb = (Cb - 16) * 255 / 224;
     Cr = (Cr - 16) * 255 / 224;
 }`,
+  symptoms: ['colors-wrong-shapes-right', 'color-tint', 'too-dark-or-washed-out'],
+  testPattern: 'color-bars',
   params: [
     {
       name: 'mode',
       type: 'select',
-      options: ['YUV interpreted as RGB', 'Swapped U/V (green/purple)', 'Wrong range (washed out)', 'Wrong matrix (color shift)', 'Missing chroma (grayscale bleed)'],
-      default: 'YUV interpreted as RGB',
+      options: [
+        { value: 'yuv-interpreted-as-rgb', label: 'YUV interpreted as RGB' },
+        { value: 'swapped-uv', label: 'Swapped U/V (green/purple)' },
+        { value: 'wrong-range', label: 'Wrong range (washed out)' },
+        { value: 'wrong-matrix', label: 'Wrong matrix (color shift)' },
+        { value: 'missing-chroma', label: 'Missing chroma (grayscale bleed)' }
+      ],
+      default: 'yuv-interpreted-as-rgb',
       description: 'Type of YUV conversion error'
     }
   ],
-  apply: (imageData: ImageData, params: GlitchParams): ImageData => {
+  presets: [
+    {
+      name: 'BT.601 decoded as BT.709',
+      params: { mode: 'wrong-matrix' }
+    },
+    {
+      name: 'Limited range shown as full',
+      params: { mode: 'wrong-range' }
+    },
+    {
+      name: 'NV12 read as NV21',
+      params: { mode: 'swapped-uv' }
+    }
+  ],
+  fix: (imageData): PixelBuffer => {
     const { width, height, data } = imageData;
-    const mode = (params.mode as string) || 'YUV interpreted as RGB';
-    const output = new ImageData(width, height);
+    const output = createPixelBuffer(width, height);
     const outData = output.data;
 
-    // RGB to YUV (BT.709)
-    const rgbToYuv = (r: number, g: number, b: number): [number, number, number] => {
-      const y = 0.2126 * r + 0.7152 * g + 0.0722 * b;
-      const u = -0.1146 * r - 0.3854 * g + 0.5 * b + 128;
-      const v = 0.5 * r - 0.4542 * g - 0.0458 * b + 128;
-      return [y, u, v];
-    };
+    for (let i = 0; i < data.length; i += 4) {
+      // Full-range BT.709 in both directions
+      const [y, u, v] = rgbToYuv(data[i], data[i + 1], data[i + 2]);
+      const [r, g, b] = yuvToRgb(y, u, v);
 
-    // YUV to RGB (BT.709)
-    const yuvToRgb = (y: number, u: number, v: number): [number, number, number] => {
-      const r = y + 1.5748 * (v - 128);
-      const g = y - 0.1873 * (u - 128) - 0.4681 * (v - 128);
-      const b = y + 1.8556 * (u - 128);
-      return [r, g, b];
-    };
+      outData[i] = Math.max(0, Math.min(255, Math.round(r)));
+      outData[i + 1] = Math.max(0, Math.min(255, Math.round(g)));
+      outData[i + 2] = Math.max(0, Math.min(255, Math.round(b)));
+      outData[i + 3] = data[i + 3];
+    }
+
+    return output;
+  },
+  apply: (imageData, params): PixelBuffer => {
+    const { width, height, data } = imageData;
+    const mode = params.mode;
+    const output = createPixelBuffer(width, height);
+    const outData = output.data;
 
     // Wrong matrix (BT.601 instead of BT.709)
     const yuvToRgbWrong = (y: number, u: number, v: number): [number, number, number] => {
@@ -84,19 +126,19 @@ if (tvRange) {
       let outR: number, outG: number, outB: number;
 
       switch (mode) {
-        case 'YUV interpreted as RGB':
+        case 'yuv-interpreted-as-rgb':
           // Just use YUV values directly as RGB (very wrong)
           outR = y;
           outG = u;
           outB = v;
           break;
 
-        case 'Swapped U/V (green/purple)':
+        case 'swapped-uv':
           // Swap U and V channels
           [outR, outG, outB] = yuvToRgb(y, v, u);  // v and u swapped
           break;
 
-        case 'Wrong range (washed out)':
+        case 'wrong-range':
           // Treat full range as TV range (adds wrong offset/scale)
           const yLimited = (y - 16) * 255 / 219;
           const uLimited = (u - 16) * 255 / 224;
@@ -104,12 +146,12 @@ if (tvRange) {
           [outR, outG, outB] = yuvToRgb(yLimited, uLimited, vLimited);
           break;
 
-        case 'Wrong matrix (color shift)':
+        case 'wrong-matrix':
           // Use BT.601 matrix when BT.709 is correct
           [outR, outG, outB] = yuvToRgbWrong(y, u, v);
           break;
 
-        case 'Missing chroma (grayscale bleed)':
+        case 'missing-chroma':
           // Subsample chroma too aggressively / don't interpolate
           const blockX = Math.floor((i / 4) % width / 4);
           const blockY = Math.floor(Math.floor(i / 4 / width) / 4);
@@ -136,4 +178,4 @@ if (tvRange) {
 
     return output;
   }
-};
+});
@@ -0,0 +1,58 @@
+import { createPixelBuffer } from './pixel-buffer';
+import type { PixelBuffer } from './pixel-buffer';
+import type { GlitchProducer, ParamDefinition, ParamsOf } from './types';
+
+/** Rows of 3- or 4-byte RGB(A) pixels, each starting `stride` bytes after the last. */
+export interface RowLayout {
+  bytesPerPixel: 3 | 4;
+  stride: number;
+}
+
+/** `fix` for a glitch with a producer: what the fixed reader makes of the producer's bytes. */
+export function readBack<Defs extends readonly ParamDefinition[]>(
+  producer: GlitchProducer<Defs>,
+  imageData: PixelBuffer,
+  params: ParamsOf<Defs>
+): PixelBuffer {
+  return producer.read(producer.write(imageData, params), imageData.width, imageData.height, params);
+}
+
+/** Lays `image` out in rows as `layout` describes; padding bytes stay zero. */
+export function writeRows(image: PixelBuffer, layout: RowLayout): Uint8Array {
+  const { width, height, data } = image;
+  const { bytesPerPixel, stride } = layout;
+  const memory = new Uint8Array(stride * height);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const srcIdx = (y * width + x) * 4;
+      const dstIdx = y * stride + x * bytesPerPixel;
+      for (let c = 0; c < bytesPerPixel; c++) {
+        memory[dstIdx + c] = data[srcIdx + c];
+      }
+    }
+  }
+  return memory;
+}
+
+/**
+ * Reads rows laid out as `layout` describes, stepping by the stride rather
+ * than the row size. 3-byte pixels come out opaque.
+ */
+export function readRows(bytes: Uint8Array, width: number, height: number, layout: RowLayout): PixelBuffer {
+  const { bytesPerPixel, stride } = layout;
+  const output = createPixelBuffer(width, height);
+  const outData = output.data;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const outIdx = (y * width + x) * 4;
+      const srcIdx = y * stride + x * bytesPerPixel;
+      outData[outIdx] = bytes[srcIdx];
+      outData[outIdx + 1] = bytes[srcIdx + 1];
+      outData[outIdx + 2] = bytes[srcIdx + 2];
+      outData[outIdx + 3] = bytesPerPixel === 4 ? bytes[srcIdx + 3] : 255;
+    }
+  }
+  return output;
+}
@@ -0,0 +1,137 @@
+import type { GlitchDefinition, GlitchParams, ParamDefinition, ParamValue, Vec2 } from './types';
+import { findSelectOption, getDefaultParams, paramValuesEqual } from './params';
+import { glitchById } from './registry';
+
+/**
+ * A serializable description of a glitch stack: which glitches run, in which
+ * order, with which params. Used for permalinks and anything else that needs
+ * to hand a pipeline around as text.
+ */
+export interface RecipeStep {
+  glitch: GlitchDefinition;
+  params: GlitchParams;
+  enabled: boolean;
+}
+
+/** One step of a recipe before its glitch id and param values are checked. */
+export interface RecipeStepText {
+  id: string;
+  enabled: boolean;
+  /** `name=value` pairs in the order given, values still as text. */
+  params: [string, string][];
+}
+
+const STEP_SEPARATOR = '/';
+const DISABLED_PREFIX = '!';
+
+/**
+ * Parses the text form of a param value (as used in URLs and on the command
+ * line). Returns undefined when the text is not a valid value of that type;
+ * range checks are left to `normalizeParams`.
+ */
+export function parseParamValue(param: ParamDefinition, raw: string): ParamValue | undefined {
+  switch (param.type) {
+    case 'range': {
+      const value = parseFloat(raw);
+      return Number.isFinite(value) ? value : undefined;
+    }
+    case 'integer': {
+      const value = Number(raw);
+      return Number.isInteger(value) ? value : undefined;
+    }
+    case 'boolean':
+      return raw === 'true' || raw === '1';
+    case 'color':
+      return /^#[0-9a-f]{6}$/i.test(raw) ? raw.toLowerCase() : undefined;
+    case 'vec2': {
+      const parts = raw.split(',').map(Number);
+      if (parts.length !== 2 || !parts.every(Number.isFinite)) return undefined;
+      const vec: Vec2 = [parts[0], parts[1]];
+      return vec;
+    }
+    case 'select':
+      return findSelectOption(param, raw)?.value;
+  }
+}
+
+/**
+ * Formats a single step as `glitch-id?name=value&...`. Params that still hold
+ * their default value are left out to keep links short.
+ */
+export function formatRecipeStep(step: RecipeStep): string {
+  const defaults = getDefaultParams(step.glitch);
+  const query = new URLSearchParams();
+
+  for (const param of step.glitch.params) {
+    const value = step.params[param.name];
+    if (value === undefined || paramValuesEqual(value, defaults[param.name])) continue;
+    query.set(param.name, String(value));
+  }
+
+  const prefix = step.enabled ? '' : DISABLED_PREFIX;
+  const queryString = query.toString();
+  return `${prefix}${step.glitch.id}${queryString ? `?${queryString}` : ''}`;
+}
+
+export function formatRecipe(steps: readonly RecipeStep[]): string {
+  return steps.map(formatRecipeStep).join(STEP_SEPARATOR);
+}
+
+/** Splits a single `!glitch-id?name=value` step into its parts, checking nothing. */
+export function splitRecipeStep(text: string): RecipeStepText {
+  let enabled = true;
+  if (text.startsWith(DISABLED_PREFIX)) {
+    enabled = false;
+    text = text.slice(DISABLED_PREFIX.length);
+  }
+
+  const queryStart = text.indexOf('?');
+  const id = queryStart === -1 ? text : text.slice(0, queryStart);
+  const params = queryStart === -1 ? [] : [...new URLSearchParams(text.slice(queryStart + 1))];
+  return { id, enabled, params };
+}
+
+/**
+ * Splits a recipe into its steps, skipping empty ones. Callers decide how
+ * strict to be about ids and values; `parseRecipe` falls back to defaults.
+ */
+export function splitRecipe(text: string): RecipeStepText[] {
+  return text.split(STEP_SEPARATOR).filter(Boolean).map(splitRecipeStep);
+}
+
+/**
+ * Parses a single `glitch-id?name=value` step. Returns null for unknown glitch
+ * ids; unknown or malformed params fall back to their defaults.
+ */
+export function parseRecipeStep(text: string): RecipeStep | null {
+  const { id, enabled, params: pairs } = splitRecipeStep(text);
+  const glitch = glitchById.get(id);
+  if (!glitch) return null;
+
+  const params = getDefaultParams(glitch);
+  for (const [name, raw] of pairs) {
+    const param = glitch.params.find(p => p.name === name);
+    const value = param && parseParamValue(param, raw);
+    if (param && value !== undefined) {
+      params[param.name] = value;
+    }
+  }
+
+  return { glitch, params, enabled };
+}
+
+export function parseRecipe(text: string): RecipeStep[] {
+  const steps: RecipeStep[] = [];
+
+  for (const part of text.split(STEP_SEPARATOR)) {
+    if (!part) continue;
+    const step = parseRecipeStep(part);
+    if (step) {
+      steps.push(step);
+    } else {
+      console.warn(`Unknown glitch in recipe: ${part}`);
+    }
+  }
+
+  return steps;
+}
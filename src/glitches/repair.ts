@@ -0,0 +1,94 @@
+import { getDefaultParams, normalizeParams } from './params';
+import type { PixelBuffer } from './pixel-buffer';
+import type { GlitchDefinition, GlitchParams } from './types';
+
+/**
+ * How much of the image survives glitching and then repairing: all of it,
+ * most of it (edges clamped, bits dropped), or none because nothing undoes
+ * the glitch.
+ */
+export type Reversibility = 'exact' | 'lossy' | 'irreversible';
+
+export interface RoundTrip {
+  reversibility: Reversibility;
+  /**
+   * Mean absolute RGBA difference from the original after the round trip,
+   * 0..1. Without a repair it is the damage the glitch alone leaves.
+   */
+  error: number;
+  /** Fraction of pixels that did not come back byte-for-byte. */
+  changedPixels: number;
+}
+
+export interface RoundTripReport extends RoundTrip {
+  glitch: GlitchDefinition;
+  /** The params of the worst case found. */
+  params: GlitchParams;
+  cases: number;
+}
+
+const SEVERITY: Record<Reversibility, number> = { exact: 0, lossy: 1, irreversible: 2 };
+
+function compare(original: PixelBuffer, result: PixelBuffer): { error: number; changedPixels: number } {
+  if (original.width !== result.width || original.height !== result.height) {
+    return { error: 1, changedPixels: 1 };
+  }
+  let sum = 0;
+  let changed = 0;
+  for (let i = 0; i < original.data.length; i += 4) {
+    let pixel = 0;
+    for (let c = 0; c < 4; c++) {
+      pixel += Math.abs(original.data[i + c] - result.data[i + c]);
+    }
+    sum += pixel;
+    if (pixel > 0) changed++;
+  }
+  const pixels = original.width * original.height;
+  return { error: sum / (pixels * 4 * 255), changedPixels: changed / pixels };
+}
+
+/** Applies `glitch` and then its repair, and measures what came back. */
+export function checkRoundTrip(glitch: GlitchDefinition, image: PixelBuffer, params: GlitchParams): RoundTrip {
+  const normalized = normalizeParams(glitch, params);
+  const glitched = glitch.apply(image, normalized);
+  if (!glitch.repair) {
+    return { reversibility: 'irreversible', ...compare(image, glitched) };
+  }
+  const result = compare(image, glitch.repair(glitched, normalized));
+  return { reversibility: result.changedPixels === 0 ? 'exact' : 'lossy', ...result };
+}
+
+/** Defaults, every preset, and every value of each select or boolean param. */
+function roundTripCases(glitch: GlitchDefinition): GlitchParams[] {
+  const defaults = getDefaultParams(glitch);
+  const cases = [defaults, ...(glitch.presets ?? []).map(p => ({ ...defaults, ...p.params } as GlitchParams))];
+  for (const param of glitch.params) {
+    if (param.type === 'select') {
+      for (const option of param.options) {
+        cases.push({ ...defaults, [param.name]: option.value });
+      }
+    } else if (param.type === 'boolean') {
+      cases.push({ ...defaults, [param.name]: !param.default });
+    }
+  }
+  return cases;
+}
+
+/**
+ * The worst round trip over a glitch's representative settings, so
+ * "exact" means exact in every mode tried, not just the default.
+ */
+export function reportRoundTrip(glitch: GlitchDefinition, image: PixelBuffer): RoundTripReport {
+  const cases = roundTripCases(glitch);
+  let worst: RoundTripReport | null = null;
+
+  for (const params of cases) {
+    const result = checkRoundTrip(glitch, image, params);
+    if (!worst ||
+        SEVERITY[result.reversibility] > SEVERITY[worst.reversibility] ||
+        (result.reversibility === worst.reversibility && result.error > worst.error)) {
+      worst = { ...result, glitch, params: normalizeParams(glitch, params), cases: cases.length };
+    }
+  }
+  return worst!;
+}
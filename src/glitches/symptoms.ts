@@ -0,0 +1,79 @@
+import type { GlitchDefinition, GlitchSymptom } from './types';
+
+export interface SymptomQuestion {
+  symptom: GlitchSymptom;
+  question: string;
+  hint?: string;
+}
+
+export type SymptomAnswer = 'yes' | 'no' | 'unsure';
+
+export type SymptomAnswers = Partial<Record<GlitchSymptom, SymptomAnswer>>;
+
+/** One question per symptom, in the order ties are broken. */
+export const SYMPTOM_QUESTIONS: readonly SymptomQuestion[] = [
+  { symptom: 'colors-wrong-shapes-right', question: 'Are the colors wrong while the shapes look right?', hint: 'Everything is where it should be, it just has the wrong colors.' },
+  { symptom: 'diagonal-shear', question: 'Is the image sheared diagonally?', hint: 'Each row starts a little further left or right than the one above.' },
+  { symptom: 'blocky-grid', question: 'Is there a blocky grid, e.g. 8x8 squares?' },
+  { symptom: 'edges-only', question: 'Do only the edges look wrong?', hint: 'Object outlines or the image border, while flat areas are fine.' },
+  { symptom: 'too-dark-or-washed-out', question: 'Is the image too dark, too bright or washed out?' },
+  { symptom: 'color-tint', question: 'Is there an overall tint, e.g. green or purple?' },
+  { symptom: 'red-blue-swapped', question: 'Do reds look blue and blues look red?', hint: 'Skin tones turn blue; blue skies turn orange.' },
+  { symptom: 'inverted-values', question: 'Do the brightest areas wrap around to dark?' },
+  { symptom: 'banding', question: 'Do smooth gradients show visible bands or steps?' },
+  { symptom: 'transparency-wrong', question: 'Is transparency wrong?', hint: 'Dark fringes or halos around cut-outs, or opaque areas showing through.' },
+  { symptom: 'color-fringes', question: 'Are there colored fringes where channels do not line up?' },
+  { symptom: 'noise-speckles', question: 'Are there random speckles, holes or noisy pixels?' },
+  { symptom: 'scrambled-blocks', question: 'Are blocks of the image shuffled out of order?' },
+  { symptom: 'repeated', question: 'Does the image repeat, tile or smear out at the borders?' },
+  { symptom: 'stretched', question: 'Is the image stretched, squashed or the wrong scale?' },
+  { symptom: 'flipped', question: 'Is the image upside down or mirrored?' },
+  { symptom: 'shifted', question: 'Is the image, or one color of it, shifted by a few pixels?' },
+  { symptom: 'blurry', question: 'Is it blurrier than it should be?' },
+  { symptom: 'pixelated', question: 'Is it pixelated or jagged, with shimmering fine detail?' },
+];
+
+export const symptomQuestionBySymptom = new Map<GlitchSymptom, SymptomQuestion>(
+  SYMPTOM_QUESTIONS.map(q => [q.symptom, q])
+);
+
+/**
+ * Glitches consistent with the answers: every "yes" symptom must be listed
+ * and no "no" symptom may be. "Unsure" rules nothing out.
+ */
+export function matchSymptoms(
+  registry: readonly GlitchDefinition[],
+  answers: SymptomAnswers
+): GlitchDefinition[] {
+  return registry.filter(glitch =>
+    Object.entries(answers).every(([symptom, answer]) => {
+      const has = glitch.symptoms.includes(symptom as GlitchSymptom);
+      return answer === 'yes' ? has : answer === 'no' ? !has : true;
+    })
+  );
+}
+
+/**
+ * The unanswered question that splits `candidates` most evenly, or null once
+ * one candidate is left or no question tells the rest apart.
+ */
+export function nextSymptomQuestion(
+  candidates: readonly GlitchDefinition[],
+  answers: SymptomAnswers
+): SymptomQuestion | null {
+  if (candidates.length <= 1) return null;
+
+  let best: SymptomQuestion | null = null;
+  let bestBalance = 0;
+  for (const question of SYMPTOM_QUESTIONS) {
+    if (answers[question.symptom]) continue;
+    const count = candidates.filter(g => g.symptoms.includes(question.symptom)).length;
+    // Size of the smaller side; 0 means the answer would change nothing
+    const balance = Math.min(count, candidates.length - count);
+    if (balance > bestBalance) {
+      best = question;
+      bestBalance = balance;
+    }
+  }
+  return best;
+}
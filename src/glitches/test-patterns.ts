@@ -0,0 +1,283 @@
+import { createPixelBuffer } from './pixel-buffer';
+import { normalizeParams } from './params';
+import type { GlitchParams, IntegerParamDefinition, ParamsOf, PixelBuffer, TestPatternId } from './types';
+
+export interface TestPattern<Defs extends readonly IntegerParamDefinition[] = readonly IntegerParamDefinition[]> {
+  id: TestPatternId;
+  name: string;
+  description: string;
+  /** Declared like glitch params, so getDefaultParams and normalizeParams work on them. */
+  params: Defs;
+  /** Draws the pattern; `params` are already normalized. */
+  generate(width: number, height: number, params: ParamsOf<Defs>): PixelBuffer;
+}
+
+/** Declares a test pattern with `generate`'s params typed from its `params` array, as `defineGlitch` does. */
+function defineTestPattern<const Defs extends readonly IntegerParamDefinition[]>(
+  pattern: TestPattern<Defs>
+): TestPattern<Defs> {
+  return pattern;
+}
+
+/** 3x5 glyphs for grid labels, one string of three bits per row. */
+const GLYPHS: Record<string, readonly string[]> = {
+  '0': ['111', '101', '101', '101', '111'],
+  '1': ['010', '110', '010', '010', '111'],
+  '2': ['111', '001', '111', '100', '111'],
+  '3': ['111', '001', '111', '001', '111'],
+  '4': ['101', '101', '111', '001', '001'],
+  '5': ['111', '100', '111', '001', '111'],
+  '6': ['111', '100', '111', '101', '111'],
+  '7': ['111', '001', '010', '010', '010'],
+  '8': ['111', '101', '111', '101', '111'],
+  '9': ['111', '101', '111', '001', '111'],
+  ',': ['000', '000', '000', '010', '100'],
+};
+
+function setPixel(image: PixelBuffer, x: number, y: number, r: number, g: number, b: number, a = 255): void {
+  if (x < 0 || y < 0 || x >= image.width || y >= image.height) return;
+  image.data.set([r, g, b, a], (y * image.width + x) * 4);
+}
+
+/**
+ * Writes `text` in black on a white tag with its top left at (x, y), each
+ * glyph pixel `scale` pixels across, so it reads on any background.
+ */
+function drawLabel(image: PixelBuffer, text: string, x: number, y: number, scale: number): void {
+  for (let dy = -scale; dy < 6 * scale; dy++) {
+    for (let dx = -scale; dx < text.length * 4 * scale; dx++) {
+      setPixel(image, x + dx, y + dy, 255, 255, 255);
+    }
+  }
+  for (const [i, char] of [...text].entries()) {
+    const glyph = GLYPHS[char];
+    if (!glyph) continue;
+    for (let row = 0; row < 5; row++) {
+      for (let column = 0; column < 3; column++) {
+        if (glyph[row][column] !== '1') continue;
+        for (let dy = 0; dy < scale; dy++) {
+          for (let dx = 0; dx < scale; dx++) {
+            setPixel(image, x + (i * 4 + column) * scale + dx, y + row * scale + dy, 0, 0, 0);
+          }
+        }
+      }
+    }
+  }
+}
+
+const ramps = defineTestPattern({
+  id: 'ramps',
+  name: 'Ramps',
+  description: 'Left-to-right ramps in grey, red, green and blue, and a shadow ramp over the darkest quarter. Banding, clipping and wrong curves show as uneven steps.',
+  params: [
+    {
+      name: 'steps',
+      type: 'integer',
+      min: 0,
+      max: 64,
+      default: 0,
+      description: 'Quantize each ramp to this many levels; 0 keeps them smooth'
+    }
+  ],
+  generate: (width, height, params) => {
+    const image = createPixelBuffer(width, height);
+    const steps = params.steps;
+    // Grey, red, green, blue, then grey again over 0..63 for the shadows
+    const bands: [number, number, number, number][] = [[1, 1, 1, 255], [1, 0, 0, 255], [0, 1, 0, 255], [0, 0, 1, 255], [1, 1, 1, 63]];
+
+    for (let y = 0; y < height; y++) {
+      const [r, g, b, top] = bands[Math.min(bands.length - 1, Math.floor(y * bands.length / height))];
+      for (let x = 0; x < width; x++) {
+        let t = width > 1 ? x / (width - 1) : 0;
+        if (steps > 1) t = Math.round(t * (steps - 1)) / (steps - 1);
+        const value = Math.round(t * top);
+        setPixel(image, x, y, r * value, g * value, b * value);
+      }
+    }
+    return image;
+  },
+});
+
+const alphaChecker = defineTestPattern({
+  id: 'alpha-checker',
+  name: 'Alpha Ramp over Checker',
+  description: 'Red, green, blue and white bands with a light and dark checker in their color, fading from transparent on the left to opaque on the right. Alpha mistakes show as dark fringes or a checker that leaks where it should be invisible.',
+  params: [
+    {
+      name: 'checkSize',
+      type: 'integer',
+      min: 2,
+      max: 64,
+      unit: 'px',
+      default: 16,
+      description: 'Size of each checker square'
+    }
+  ],
+  generate: (width, height, params) => {
+    const image = createPixelBuffer(width, height);
+    const size = params.checkSize;
+    const bands = [[255, 64, 64], [64, 255, 64], [64, 64, 255], [255, 255, 255]];
+
+    for (let y = 0; y < height; y++) {
+      const color = bands[Math.min(bands.length - 1, Math.floor(y * bands.length / height))];
+      for (let x = 0; x < width; x++) {
+        const shade = (Math.floor(x / size) + Math.floor(y / size)) % 2 === 0 ? 1 : 0.5;
+        const alpha = Math.round(width > 1 ? x / (width - 1) * 255 : 255);
+        setPixel(image, x, y, Math.round(color[0] * shade), Math.round(color[1] * shade), Math.round(color[2] * shade), alpha);
+      }
+    }
+    return image;
+  },
+});
+
+const colorBars = defineTestPattern({
+  id: 'color-bars',
+  name: 'SMPTE Color Bars',
+  description: 'The broadcast test card: seven bars from white to blue, reversed castellations, then -I, white, +Q and near-black PLUGE steps. Swapped channels and wrong YUV matrices or ranges change bars you can name.',
+  params: [
+    {
+      name: 'level',
+      type: 'integer',
+      min: 50,
+      max: 100,
+      unit: '%',
+      default: 75,
+      description: 'Brightness of the main bars'
+    }
+  ],
+  generate: (width, height, params) => {
+    const image = createPixelBuffer(width, height);
+    const on = Math.round(params.level / 100 * 255);
+    const main = [[on, on, on], [on, on, 0], [0, on, on], [0, on, 0], [on, 0, on], [on, 0, 0], [0, 0, on]];
+    const castellations = [[0, 0, on], [0, 0, 0], [on, 0, on], [0, 0, 0], [0, on, on], [0, 0, 0], [on, on, on]];
+    // -I, full white, +Q, black, then PLUGE: black and two steps just above it, to check black level
+    const bottom: [number, number[]][] = [
+      [5 / 4, [0, 33, 76]], [5 / 4, [255, 255, 255]], [5 / 4, [50, 0, 106]], [5 / 4, [0, 0, 0]],
+      [1 / 3, [0, 0, 0]], [1 / 3, [10, 10, 10]], [1 / 3, [20, 20, 20]], [1, [0, 0, 0]],
+    ];
+
+    for (let y = 0; y < height; y++) {
+      const section = y < height * 2 / 3 ? 0 : y < height * 3 / 4 ? 1 : 2;
+      for (let x = 0; x < width; x++) {
+        const bar = Math.min(6, Math.floor(x * 7 / width));
+        let color = section === 0 ? main[bar] : castellations[bar];
+        if (section === 2) {
+          // Bottom row widths are in sevenths of the width, as on the card
+          let edge = 0;
+          color = bottom[bottom.length - 1][1];
+          for (const [span, c] of bottom) {
+            edge += span;
+            if (x < edge * width / 7) {
+              color = c;
+              break;
+            }
+          }
+        }
+        setPixel(image, x, y, color[0], color[1], color[2]);
+      }
+    }
+    return image;
+  },
+});
+
+const uvGrid = defineTestPattern({
+  id: 'uv-grid',
+  name: 'Labelled UV Grid',
+  description: 'Red grows left to right and green top to bottom, under a grid of checkered cells labelled "column,row" from 0,0 at the top left. Flips, shifts, shears and wraps show as labels in the wrong place.',
+  params: [
+    {
+      name: 'cells',
+      type: 'integer',
+      min: 2,
+      max: 16,
+      default: 8,
+      description: 'Grid cells across and down'
+    }
+  ],
+  generate: (width, height, params) => {
+    const image = createPixelBuffer(width, height);
+    const cells = params.cells;
+    const cellWidth = width / cells;
+    const cellHeight = height / cells;
+
+    for (let y = 0; y < height; y++) {
+      const row = Math.floor(y / cellHeight);
+      for (let x = 0; x < width; x++) {
+        const column = Math.floor(x / cellWidth);
+        const u = width > 1 ? x / (width - 1) : 0;
+        const v = height > 1 ? y / (height - 1) : 0;
+        const onLine = Math.floor((x + 1) / cellWidth) !== column || Math.floor((y + 1) / cellHeight) !== row || x === 0 || y === 0;
+        if (onLine) {
+          setPixel(image, x, y, 255, 255, 255);
+        } else {
+          setPixel(image, x, y, Math.round(u * 255), Math.round(v * 255), (row + column) % 2 === 0 ? 64 : 160);
+        }
+      }
+    }
+
+    // Glyphs are 3x5, so a scale of 1 needs cells of at least 10 pixels
+    const scale = Math.floor(Math.min(cellWidth, cellHeight) / 10);
+    if (scale >= 1) {
+      for (let row = 0; row < cells; row++) {
+        for (let column = 0; column < cells; column++) {
+          const x = Math.round(column * cellWidth) + 2 * scale;
+          const y = Math.round(row * cellHeight) + 2 * scale;
+          drawLabel(image, `${column},${row}`, x, y, scale);
+        }
+      }
+    }
+    return image;
+  },
+});
+
+const zonePlate = defineTestPattern({
+  id: 'zone-plate',
+  name: 'Zone Plate',
+  description: 'Concentric rings whose frequency rises steadily from the centre outwards. Aliasing shows as phantom rings and moiré; blurring as rings fading out early.',
+  params: [
+    {
+      name: 'edgeFrequency',
+      type: 'integer',
+      min: 25,
+      max: 400,
+      unit: '% Nyquist',
+      default: 100,
+      description: 'Ring frequency at the edge; past 100% the pattern itself aliases'
+    }
+  ],
+  generate: (width, height, params) => {
+    const image = createPixelBuffer(width, height);
+    const radius = Math.max(1, Math.min(width, height) / 2);
+    // Local frequency is k * r / π cycles per pixel, reaching the chosen share of 0.5 at the edge
+    const k = params.edgeFrequency / 100 * Math.PI / (2 * radius);
+    const cx = (width - 1) / 2;
+    const cy = (height - 1) / 2;
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const r2 = (x - cx) ** 2 + (y - cy) ** 2;
+        const value = Math.round(127.5 + 127.5 * Math.cos(k * r2));
+        setPixel(image, x, y, value, value, value);
+      }
+    }
+    return image;
+  },
+});
+
+export const testPatterns: readonly TestPattern[] = [ramps, alphaChecker, colorBars, uvGrid, zonePlate];
+
+export const testPatternById = new Map<TestPatternId, TestPattern>(testPatterns.map(p => [p.id, p]));
+
+/** Draws a test pattern; params not given take their defaults and the rest are clamped. */
+export function generateTestPattern(
+  id: TestPatternId,
+  width: number,
+  height: number,
+  params: Partial<GlitchParams> = {}
+): PixelBuffer {
+  const pattern = testPatternById.get(id);
+  if (!pattern) {
+    throw new Error(`Unknown test pattern: ${id}`);
+  }
+  return pattern.generate(width, height, normalizeParams(pattern, params));
+}
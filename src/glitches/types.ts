@@ -1,21 +1,157 @@
+import type { PixelBuffer } from './pixel-buffer';
+import type { RawLayout } from '../raw/formats';
+
+export type { PixelBuffer };
+
+export type Vec2 = readonly [number, number];
+
+export type ParamValue = number | boolean | string | Vec2;
+
+/**
+ * Untyped params, as they travel through pipelines, recipes and the UI.
+ * Inside `apply` each glitch sees its own typed `ParamsOf<...>` instead.
+ */
 export interface GlitchParams {
-  [key: string]: number | boolean | string;
+  [key: string]: ParamValue;
+}
+
+/**
+ * Shows a param only while another param of the same glitch holds one of the
+ * listed values, e.g. scale factors that only matter in one mode.
+ */
+export interface ParamVisibilityRule {
+  param: string;
+  oneOf: readonly ParamValue[];
 }
 
-export interface ParamDefinition {
+interface BaseParamDefinition {
   name: string;
-  type: 'range' | 'boolean' | 'select';
-  min?: number;
-  max?: number;
-  step?: number;
-  options?: string[];
-  default: number | boolean | string;
   description: string;
+  visibleWhen?: ParamVisibilityRule;
+}
+
+export interface RangeParamDefinition extends BaseParamDefinition {
+  type: 'range';
+  min: number;
+  max: number;
+  step?: number;
+  /** 'log' spreads the slider evenly over ratios; requires min > 0. */
+  scale?: 'linear' | 'log';
+  default: number;
+}
+
+/** A whole-number quantity such as a byte count or pixel offset. */
+export interface IntegerParamDefinition extends BaseParamDefinition {
+  type: 'integer';
+  min: number;
+  max: number;
+  step?: number;
+  unit?: string;
+  default: number;
+}
+
+export interface BooleanParamDefinition extends BaseParamDefinition {
+  type: 'boolean';
+  default: boolean;
+}
+
+/** An sRGB color as `#rrggbb`. */
+export interface ColorParamDefinition extends BaseParamDefinition {
+  type: 'color';
+  default: string;
+}
+
+/** A 2D vector; both components share `min`, `max` and `step`. */
+export interface Vec2ParamDefinition extends BaseParamDefinition {
+  type: 'vec2';
+  min: number;
+  max: number;
+  step?: number;
+  default: Vec2;
+}
+
+/** A select choice: `value` is what `apply` receives, `label` is what users see. */
+export interface SelectOption<V extends string | number = string | number> {
+  value: V;
+  label: string;
+}
+
+export interface SelectParamDefinition<V extends string | number = string | number> extends BaseParamDefinition {
+  type: 'select';
+  options: readonly SelectOption<V>[];
+  default: V;
+}
+
+export type ParamDefinition =
+  | RangeParamDefinition
+  | IntegerParamDefinition
+  | BooleanParamDefinition
+  | ColorParamDefinition
+  | Vec2ParamDefinition
+  | SelectParamDefinition;
+
+type ValueOf<D extends ParamDefinition> =
+  D extends RangeParamDefinition | IntegerParamDefinition ? number :
+  D extends BooleanParamDefinition ? boolean :
+  D extends ColorParamDefinition ? string :
+  D extends Vec2ParamDefinition ? Vec2 :
+  D extends { type: 'select'; options: readonly SelectOption<infer V>[] } ? V :
+  never;
+
+/** Maps a tuple of param declarations to the typed params object `apply` receives. */
+export type ParamsOf<Defs extends readonly ParamDefinition[]> = {
+  [D in Defs[number] as D['name']]: ValueOf<D>;
+};
+
+/** A named starting point shipped with a glitch, e.g. "BMP 24-bit row padding". */
+export interface GlitchPreset<Defs extends readonly ParamDefinition[] = readonly ParamDefinition[]> {
+  name: string;
+  description?: string;
+  /** Params not listed keep their defaults. */
+  params: Partial<ParamsOf<Defs>>;
 }
 
 export type GlitchCategory = 'pixel-format' | 'memory-layout' | 'coordinates';
 
-export interface GlitchDefinition {
+/**
+ * Something a user can see in a broken image without a reference to compare
+ * against. The symptom wizard asks about these to narrow down the glitch.
+ */
+export type GlitchSymptom =
+  | 'colors-wrong-shapes-right'
+  | 'red-blue-swapped'
+  | 'color-tint'
+  | 'too-dark-or-washed-out'
+  | 'inverted-values'
+  | 'banding'
+  | 'transparency-wrong'
+  | 'color-fringes'
+  | 'noise-speckles'
+  | 'diagonal-shear'
+  | 'blocky-grid'
+  | 'scrambled-blocks'
+  | 'repeated'
+  | 'stretched'
+  | 'flipped'
+  | 'shifted'
+  | 'edges-only'
+  | 'blurry'
+  | 'pixelated';
+
+/**
+ * A synthetic input built to make some class of bug obvious, e.g. smooth
+ * ramps for banding or a labelled grid for anything that moves pixels.
+ */
+export type TestPatternId = 'ramps' | 'alpha-checker' | 'color-bars' | 'uv-grid' | 'zone-plate';
+
+export interface GlitchProducer<Defs extends readonly ParamDefinition[] = readonly ParamDefinition[]> {
+  /** What the producer stores for `imageData`, in the layout or encoding the params describe. */
+  write(imageData: PixelBuffer, params: ParamsOf<Defs>): Uint8Array;
+  /** Decodes those bytes the way `fixCode` does. */
+  read(bytes: Uint8Array, width: number, height: number, params: ParamsOf<Defs>): PixelBuffer;
+}
+
+export interface GlitchDefinition<Defs extends readonly ParamDefinition[] = readonly ParamDefinition[]> {
   id: string;
   name: string;
   category: GlitchCategory;
@@ -23,8 +159,81 @@ export interface GlitchDefinition {
   technicalDetails: string;
   bugCode: string;
   fixCode: string;
-  params: ParamDefinition[];
-  apply: (imageData: ImageData, params: GlitchParams) => ImageData;
+  /** What the bug looks like at its typical settings; at least one. */
+  symptoms: readonly GlitchSymptom[];
+  /** The test pattern this bug shows up most clearly on. */
+  testPattern: TestPatternId;
+  params: Defs;
+  presets?: readonly GlitchPreset<Defs>[];
+  // Method syntax keeps specific definitions assignable to the untyped registry type
+  apply(imageData: PixelBuffer, params: ParamsOf<Defs>): PixelBuffer;
+  /**
+   * The same producer/consumer path as `apply` with `fixCode`'s correction in
+   * place, e.g. reading with the padded stride or decoding sRGB properly.
+   * Should give back the input, or as close as the fixed code itself gets.
+   */
+  fix(imageData: PixelBuffer, params: ParamsOf<Defs>): PixelBuffer;
+  /**
+   * The bytes passed between producer and consumer, for glitches whose fix
+   * is reading a layout or encoding properly. `fix` should be
+   * `readBack(producer, ...)`, so the fixed reader runs on real bytes.
+   */
+  producer?: GlitchProducer<Defs>;
+  /**
+   * Undoes `apply` with the same params, recovering the correct image from a
+   * buggy one. Only for glitches that are bijective or nearly so; see
+   * checkRoundTrip for how close each one gets.
+   */
+  repair?(imageData: PixelBuffer, params: ParamsOf<Defs>): PixelBuffer;
+  /**
+   * The memory layout the buggy producer actually wrote, for exporting a
+   * .bin that reproduces the bug in native code. Returns null when the
+   * params describe no layout difference worth exporting.
+   */
+  rawLayout?(width: number, height: number, params: ParamsOf<Defs>): RawLayout | null;
+  /**
+   * Where `apply` read output pixel (x, y) from, for glitches whose output
+   * is a rearrangement of input bytes. Must agree with `apply` exactly; when
+   * a partial intensity blends in the correct pixel, the sources are still
+   * the bytes the buggy read fetched.
+   */
+  provenance?(x: number, y: number, width: number, height: number, params: ParamsOf<Defs>): PixelProvenance;
+  /**
+   * How the buggy reader steps through the input's bytes row by row, for
+   * glitches that get the stride wrong. Returns null when the params read
+   * packed rows after all.
+   */
+  readStride?(width: number, params: ParamsOf<Defs>): ReadStride | null;
+}
+
+/**
+ * For each output channel (R, G, B, A), the byte offset into the input's RGBA
+ * data it was read from, or null when the value isn't read from the input,
+ * e.g. a forced opaque alpha or black past the end of the buffer.
+ */
+export type ChannelSources = readonly [number | null, number | null, number | null, number | null];
+
+export interface PixelProvenance {
+  sources: ChannelSources;
+  /** The buggy read's address arithmetic with this pixel's numbers filled in. */
+  formula: string;
+}
+
+export interface ReadStride {
+  /** Bytes from the start of one row to the start of the next. */
+  stride: number;
+  /** Bytes at the start of each row read as pixels; the rest of the stride is skipped as padding. */
+  rowBytes: number;
 }
 
-export type GlitchFn = (imageData: ImageData, params: GlitchParams) => ImageData;
+export type GlitchFn = (imageData: PixelBuffer, params: GlitchParams) => PixelBuffer;
+
+/**
+ * Declares a glitch with params typed from its own `params` array, so `apply`
+ * gets e.g. `{ mode: 'repeat' | 'mirror'; uvScale: number }` with no casts.
+ */
+export function defineGlitch<const Defs extends readonly ParamDefinition[]>(
+  definition: GlitchDefinition<Defs>
+): GlitchDefinition<Defs> {
+  return definition;
+}
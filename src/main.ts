@@ -1,12 +1,23 @@
 import './style.css';
 import { Sandbox } from './components/sandbox';
 import { Gallery } from './components/gallery';
-import type { GlitchDefinition } from './glitches';
+import { Diagnosis } from './components/diagnose';
+import { formatRecipe, getDefaultParams, parseRecipe } from './glitches';
+import type { GlitchDefinition, PipelineChange, RecipeStep } from './glitches';
+import { Router } from './router';
+import type { Route, View } from './router';
+
+/** How long params must sit still before their edit gets its own history entry. */
+const PARAM_HISTORY_DELAY_MS = 500;
 
 class App {
   private _sandbox!: Sandbox;
   private _gallery!: Gallery;
-  private _currentView: 'gallery' | 'sandbox' = 'gallery';
+  private _diagnosis!: Diagnosis;
+  private _router!: Router;
+  private _currentView: View = 'gallery';
+  private _paramHistoryTimer: number | undefined;
+  private _pendingParamRoute: Route | null = null;
 
   constructor() {
     this.setupApp();
@@ -19,8 +30,26 @@ class App {
       this.switchToSandbox(glitch);
     });
 
-    // Initialize sandbox
-    this._sandbox = new Sandbox('sandbox-container');
+    // Initialize sandbox; keep the URL in sync with its glitch stack
+    this._sandbox = new Sandbox('sandbox-container', (recipe: RecipeStep[], change: PipelineChange) => {
+      if (this._currentView !== 'sandbox') return;
+      const route: Route = { view: 'sandbox', recipe: formatRecipe(recipe) };
+      if (change === 'params') {
+        // A slider drag becomes one entry once it settles, so back/forward steps over whole edits
+        clearTimeout(this._paramHistoryTimer);
+        this._pendingParamRoute = route;
+        this._paramHistoryTimer = window.setTimeout(() => this.settleParamHistory(), PARAM_HISTORY_DELAY_MS);
+      } else {
+        this.settleParamHistory();
+        this._router.navigate(route);
+      }
+    });
+
+    // Initialize diagnosis; a ranked result opens with its reference in the sandbox
+    this._diagnosis = new Diagnosis('diagnose-container', (reference: ImageData, recipe: RecipeStep[]) => {
+      this._sandbox.loadImage(reference);
+      this.openInSandbox(recipe);
+    });
   }
 
   private setupNavigation(): void {
@@ -28,26 +57,31 @@ class App {
     navLinks.forEach(link => {
       link.addEventListener('click', (e) => {
         e.preventDefault();
-        const view = link.getAttribute('data-view') as 'gallery' | 'sandbox';
+        const view = link.getAttribute('data-view') as View;
+        this.settleParamHistory();
+        const route: Route = view === 'sandbox'
+          ? { view: 'sandbox', recipe: formatRecipe(this._sandbox.getRecipe()) }
+          : { view };
+        this._router.navigate(route);
         this.switchView(view);
       });
     });
 
-    // Handle hash navigation
-    this.handleHashChange();
-    window.addEventListener('hashchange', () => this.handleHashChange());
+    // Handle hash navigation, including back/forward
+    this._router = new Router(route => this.handleRoute(route));
+    this._router.start();
   }
 
-  private handleHashChange(): void {
-    const hash = window.location.hash.slice(1);
-    if (hash === 'sandbox') {
-      this.switchView('sandbox');
-    } else {
-      this.switchView('gallery');
+  private handleRoute(route: Route): void {
+    // The user moved away from the entry an unsettled edit would have followed
+    this.discardParamHistory();
+    if (route.view === 'sandbox') {
+      this._sandbox.loadRecipe(parseRecipe(route.recipe));
     }
+    this.switchView(route.view);
   }
 
-  private switchView(view: 'gallery' | 'sandbox'): void {
+  private switchView(view: View): void {
     this._currentView = view;
 
     // Update nav
@@ -60,23 +94,31 @@ class App {
       view === 'gallery' ? 'block' : 'none';
     document.getElementById('sandbox-container')!.style.display =
       view === 'sandbox' ? 'block' : 'none';
-
-    // Update hash without triggering hashchange
-    const newHash = view === 'sandbox' ? '#sandbox' : '#gallery';
-    if (window.location.hash !== newHash) {
-      history.pushState(null, '', newHash);
-    }
+    document.getElementById('diagnose-container')!.style.display =
+      view === 'diagnose' ? 'block' : 'none';
   }
 
   private switchToSandbox(glitch: GlitchDefinition): void {
-    this.switchView('sandbox');
+    this.openInSandbox([{ glitch, params: getDefaultParams(glitch), enabled: true }]);
+  }
 
-    // Set the glitch in the sandbox dropdown
-    const select = document.getElementById('glitch-select') as HTMLSelectElement;
-    if (select) {
-      select.value = glitch.id;
-      select.dispatchEvent(new Event('change'));
-    }
+  /** Pushes the entry for a param edit still waiting to settle. */
+  private settleParamHistory(): void {
+    const route = this._pendingParamRoute;
+    this.discardParamHistory();
+    if (route) this._router.navigate(route);
+  }
+
+  private discardParamHistory(): void {
+    clearTimeout(this._paramHistoryTimer);
+    this._pendingParamRoute = null;
+  }
+
+  private openInSandbox(recipe: RecipeStep[]): void {
+    this.settleParamHistory();
+    this._router.navigate({ view: 'sandbox', recipe: formatRecipe(recipe) });
+    this._sandbox.loadRecipe(recipe);
+    this.switchView('sandbox');
 
     // Scroll to top
     window.scrollTo({ top: 0, behavior: 'smooth' });
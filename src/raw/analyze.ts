@@ -0,0 +1,225 @@
+import { decodeRaw, rawFormatById } from './formats';
+import type { RawFormatId, RawLayout } from './formats';
+import type { PixelBuffer } from '../glitches/pixel-buffer';
+
+export interface LayoutCandidate {
+  layout: RawLayout;
+  /**
+   * Neighbour difference of the decoded sample relative to the buffer's
+   * overall contrast; lower is more image-like.
+   */
+  score: number;
+}
+
+export interface LayoutAnalysis {
+  /** Best first. */
+  candidates: LayoutCandidate[];
+  /**
+   * 0..1: how image-like the best candidate is. Near 0 means every
+   * interpretation looks like noise.
+   */
+  confidence: number;
+  /**
+   * False when red and blue could not be told apart: the best candidate's
+   * colours lean neither warm nor cool, so its BGR twin is as likely.
+   */
+  channelOrderKnown: boolean;
+}
+
+export interface AnalyzeOptions {
+  formats?: readonly RawFormatId[];
+  minStride?: number;
+  maxStride?: number;
+  maxCandidates?: number;
+}
+
+const DEFAULT_FORMATS: readonly RawFormatId[] = ['rgba8', 'bgra8', 'argb8', 'rgb8', 'bgr8', 'r8', 'rgb565'];
+const RED_FIRST = new Set<RawFormatId>(['rgba8', 'argb8', 'rgb8']);
+const BLUE_FIRST = new Set<RawFormatId>(['bgra8', 'bgr8']);
+/** How far a pixel's red and blue must differ to count as warm or cool. */
+const HUE_MARGIN = 16;
+/** Below this red/blue balance the channel order is reported as unknown. */
+const MIN_ORDER_BALANCE = 0.1;
+/** Weight of the red/blue prior: enough to split channel-order twins, too little to beat a better stride. */
+const ORDER_WEIGHT = 0.02;
+const AUTOCORRELATION_SAMPLES = 1024;
+const STRIDE_CANDIDATES = 12;
+const SCORED_BYTES = 256 * 1024;
+
+/**
+ * Sample spacing for lagDifference. It is fixed per buffer so every lag sees
+ * the same positions, and is 1 mod 12 so samples cycle through all byte
+ * lanes of 3- and 4-byte pixels instead of aliasing onto one channel.
+ */
+function sampleStep(length: number): number {
+  const step = Math.max(1, Math.floor(length / AUTOCORRELATION_SAMPLES));
+  return step - (step % 12) + 1;
+}
+
+/**
+ * Mean absolute difference between bytes `lag` apart, over an evenly
+ * spread sample. Dips at the row stride and its multiples.
+ */
+function lagDifference(bytes: Uint8Array, lag: number, step: number): number {
+  const span = bytes.length - lag;
+  let sum = 0;
+  let count = 0;
+  for (let i = 0; i < span; i += step) {
+    sum += Math.abs(bytes[i] - bytes[i + lag]);
+    count++;
+  }
+  return count > 0 ? sum / count : Infinity;
+}
+
+/** The lags with the lowest byte difference, keeping only one per neighbourhood. */
+function strideCandidates(bytes: Uint8Array, minStride: number, maxStride: number): number[] {
+  const step = sampleStep(bytes.length);
+  const lags: { lag: number; diff: number }[] = [];
+  for (let lag = minStride; lag <= maxStride; lag++) {
+    lags.push({ lag, diff: lagDifference(bytes, lag, step) });
+  }
+  lags.sort((a, b) => a.diff - b.diff);
+
+  const picked: number[] = [];
+  for (const { lag } of lags) {
+    if (picked.length >= STRIDE_CANDIDATES) break;
+    if (picked.some(p => Math.abs(p - lag) <= 3)) continue;
+    picked.push(lag);
+  }
+  return picked;
+}
+
+/** Channels that carry colour for each format; r8 decodes to equal RGB. */
+function colorChannels(format: RawFormatId): number[] {
+  return format === 'r8' ? [0] : [0, 1, 2];
+}
+
+/**
+ * Mean neighbour difference over the colour channels, horizontally and
+ * vertically. The right stride makes vertical neighbours as close as
+ * horizontal ones; the right bytes per pixel and offset keep channels from
+ * bleeding into each other horizontally.
+ */
+function roughness(image: PixelBuffer, format: RawFormatId): number {
+  const { width, height, data } = image;
+  const channels = colorChannels(format);
+  let horizontal = 0;
+  let vertical = 0;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      for (const c of channels) {
+        if (x + 1 < width) horizontal += Math.abs(data[i + c] - data[i + 4 + c]);
+        if (y + 1 < height) vertical += Math.abs(data[i + c] - data[i + width * 4 + c]);
+      }
+    }
+  }
+  // Average the directions separately so wide, short candidates aren't judged mostly horizontally
+  let score = (
+    horizontal / ((width - 1) * height * channels.length) +
+    vertical / (width * (height - 1) * channels.length)
+  ) / 2;
+
+  // Real alpha is flat or smooth; an "alpha" as busy as the colours means
+  // the lanes are misaligned (e.g. reading ARGB as RGBA)
+  if (format === 'rgba8' || format === 'bgra8' || format === 'argb8') {
+    let alphaHorizontal = 0;
+    let alphaVertical = 0;
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const i = (y * width + x) * 4 + 3;
+        if (x + 1 < width) alphaHorizontal += Math.abs(data[i] - data[i + 4]);
+        if (y + 1 < height) alphaVertical += Math.abs(data[i] - data[i + width * 4]);
+      }
+    }
+    score += (alphaHorizontal / ((width - 1) * height) + alphaVertical / (width * (height - 1))) / 2;
+  }
+  return score;
+}
+
+/**
+ * Share of warm pixels (red above blue) minus share of cool ones, -1..1.
+ * Swapping red and blue negates it, which no smoothness measure can see.
+ * Photos lean warm (skin, wood, earth, indoor light), so the warm reading is
+ * the likelier order; a picture mostly of sky or water leans the other way.
+ */
+function redBlueBalance(image: PixelBuffer): number {
+  const { data } = image;
+  let balance = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i] > data[i + 2] + HUE_MARGIN) balance++;
+    else if (data[i + 2] > data[i] + HUE_MARGIN) balance--;
+  }
+  return data.length > 0 ? balance / (data.length / 4) : 0;
+}
+
+/**
+ * Guesses how a byte buffer was laid out: candidate strides come from row
+ * autocorrelation, then every stride/format/offset combination is decoded
+ * over a band of rows and ranked by smoothness. Red/blue twins score the
+ * same there, so a hue prior (see redBlueBalance) picks between them.
+ */
+export function analyzeRawLayout(bytes: Uint8Array, options: AnalyzeOptions = {}): LayoutAnalysis {
+  const formats = options.formats ?? DEFAULT_FORMATS;
+  const minStride = options.minStride ?? 64;
+  const maxStride = Math.min(options.maxStride ?? 32768, Math.floor(bytes.length / 4));
+  const maxCandidates = options.maxCandidates ?? 5;
+
+  if (maxStride < minStride) {
+    return { candidates: [], confidence: 0, channelOrderKnown: false };
+  }
+
+  // Difference between unrelated bytes, so scores read the same across buffers
+  const contrast = lagDifference(bytes, Math.floor(bytes.length / 3), sampleStep(bytes.length)) || 1;
+  const candidates: LayoutCandidate[] = [];
+  const balances = new Map<LayoutCandidate, number>();
+
+  // Every candidate is scored over the same bytes from the middle of the
+  // buffer, where headers and trailing garbage are least likely
+  const windowBytes = Math.min(bytes.length, SCORED_BYTES);
+  const windowStart = Math.floor((bytes.length - windowBytes) / 2);
+
+  for (const stride of strideCandidates(bytes, minStride, maxStride)) {
+    const startRow = Math.ceil(windowStart / stride);
+    const rows = Math.floor((windowStart + windowBytes) / stride) - startRow - 1;
+    if (rows < 2) continue;
+
+    for (const format of formats) {
+      const bytesPerPixel = rawFormatById.get(format)!.bytesPerPixel;
+      const width = Math.floor(stride / bytesPerPixel);
+      if (width < 2) continue;
+
+      // 3-byte pixels have no alpha lane to anchor on: shifting the start
+      // only rotates channels, which no smoothness measure can see
+      const offsets = format === 'rgb8' ? 1 : bytesPerPixel;
+      for (let offset = 0; offset < offsets; offset++) {
+        const layout: RawLayout = { width, height: rows, offset: offset + startRow * stride, stride, format, littleEndian: true, tiling: 'linear' };
+        const image = decodeRaw(bytes, layout);
+        const balance = colorChannels(format).length > 1 ? redBlueBalance(image) : 0;
+        const candidate: LayoutCandidate = {
+          layout: { ...layout, offset, height: Math.floor((bytes.length - offset) / stride) },
+          score: roughness(image, format) / contrast + ORDER_WEIGHT * Math.max(0, -balance),
+        };
+        candidates.push(candidate);
+        balances.set(candidate, balance);
+      }
+    }
+  }
+
+  candidates.sort((a, b) => a.score - b.score);
+  const best = candidates.slice(0, maxCandidates);
+
+  // Scores are relative to unrelated bytes, so a score near 1 means even the
+  // best interpretation looks like noise
+  const confidence = best.length > 0 && Number.isFinite(best[0].score)
+    ? Math.max(0, Math.min(1, 1 - best[0].score))
+    : 0;
+  const searchesOrder = formats.some(f => RED_FIRST.has(f)) && formats.some(f => BLUE_FIRST.has(f));
+  const channelOrderKnown = best.length > 0 && (
+    !searchesOrder ||
+    !(RED_FIRST.has(best[0].layout.format) || BLUE_FIRST.has(best[0].layout.format)) ||
+    Math.abs(balances.get(best[0])!) >= MIN_ORDER_BALANCE
+  );
+  return { candidates: best, confidence, channelOrderKnown };
+}
@@ -0,0 +1,29 @@
+import { normalizeParams } from '../glitches/params';
+import type { PixelBuffer } from '../glitches/pixel-buffer';
+import type { RecipeStep } from '../glitches/recipe';
+import { effectiveStride, encodeRaw } from './formats';
+import type { RawLayout } from './formats';
+import { createRawSidecar } from './sidecar';
+import type { RawSidecar } from './sidecar';
+
+export interface RawExport {
+  bytes: Uint8Array<ArrayBuffer>;
+  sidecar: RawSidecar;
+}
+
+export function packedRgba8Layout(width: number, height: number): RawLayout {
+  return { width, height, offset: 0, stride: 0, format: 'rgba8', littleEndian: true, tiling: 'linear' };
+}
+
+/** The memory layout a step's buggy producer wrote, or null if it has none. */
+export function stepRawLayout(step: RecipeStep, width: number, height: number): RawLayout | null {
+  if (!step.enabled || !step.glitch.rawLayout) return null;
+  return step.glitch.rawLayout(width, height, normalizeParams(step.glitch, step.params));
+}
+
+export function exportRaw(image: PixelBuffer, layout: RawLayout, recipe?: string): RawExport {
+  return {
+    bytes: encodeRaw(image, layout),
+    sidecar: createRawSidecar(layout, effectiveStride(layout), recipe),
+  };
+}
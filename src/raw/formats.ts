@@ -0,0 +1,380 @@
+import { createPixelBuffer } from '../glitches/pixel-buffer';
+import type { PixelBuffer } from '../glitches/pixel-buffer';
+import { tiledPixelCount, tiledPixelIndex } from './tiling';
+import type { RawTiling } from './tiling';
+
+export type RawFormatId =
+  | 'rgba8'
+  | 'bgra8'
+  | 'argb8'
+  | 'rgba8888'
+  | 'rgba16x2'
+  | 'rgb8'
+  | 'bgr8'
+  | 'r8'
+  | 'rgb565'
+  | 'rgba4444'
+  | 'rgb10a2'
+  | 'r16f'
+  | 'r32f'
+  | 'nv12'
+  | 'nv21'
+  | 'i420'
+  | 'yuy2'
+  | 'uyvy';
+
+export interface RawFormat {
+  id: RawFormatId;
+  label: string;
+  /**
+   * Bytes per pixel in the first (or only) plane. For YUY2/UYVY this is the
+   * average: two pixels share four bytes.
+   */
+  bytesPerPixel: number;
+  /** Planar 4:2:0 formats store chroma after the luma plane. */
+  planar: boolean;
+  /** Whether byte order matters, i.e. pixels are read as 16- or 32-bit words. */
+  wordSized: boolean;
+}
+
+export const RAW_FORMATS: readonly RawFormat[] = [
+  { id: 'rgba8', label: 'RGBA8', bytesPerPixel: 4, planar: false, wordSized: false },
+  { id: 'bgra8', label: 'BGRA8', bytesPerPixel: 4, planar: false, wordSized: false },
+  { id: 'argb8', label: 'ARGB8', bytesPerPixel: 4, planar: false, wordSized: false },
+  { id: 'rgba8888', label: 'RGBA8888 (32-bit word, R high)', bytesPerPixel: 4, planar: false, wordSized: true },
+  { id: 'rgba16x2', label: 'RGBA8 as two 16-bit words (RG, BA)', bytesPerPixel: 4, planar: false, wordSized: true },
+  { id: 'rgb8', label: 'RGB8', bytesPerPixel: 3, planar: false, wordSized: false },
+  { id: 'bgr8', label: 'BGR8', bytesPerPixel: 3, planar: false, wordSized: false },
+  { id: 'r8', label: 'R8 (grayscale)', bytesPerPixel: 1, planar: false, wordSized: false },
+  { id: 'rgb565', label: 'RGB565', bytesPerPixel: 2, planar: false, wordSized: true },
+  { id: 'rgba4444', label: 'RGBA4444', bytesPerPixel: 2, planar: false, wordSized: true },
+  { id: 'rgb10a2', label: 'RGB10A2', bytesPerPixel: 4, planar: false, wordSized: true },
+  { id: 'r16f', label: 'R16F', bytesPerPixel: 2, planar: false, wordSized: true },
+  { id: 'r32f', label: 'R32F', bytesPerPixel: 4, planar: false, wordSized: true },
+  { id: 'nv12', label: 'NV12 (Y + interleaved UV)', bytesPerPixel: 1, planar: true, wordSized: false },
+  { id: 'nv21', label: 'NV21 (Y + interleaved VU)', bytesPerPixel: 1, planar: true, wordSized: false },
+  { id: 'i420', label: 'I420 (Y + U + V planes)', bytesPerPixel: 1, planar: true, wordSized: false },
+  { id: 'yuy2', label: 'YUY2 (Y0 U Y1 V)', bytesPerPixel: 2, planar: false, wordSized: false },
+  { id: 'uyvy', label: 'UYVY (U Y0 V Y1)', bytesPerPixel: 2, planar: false, wordSized: false },
+];
+
+export const rawFormatById = new Map<RawFormatId, RawFormat>(
+  RAW_FORMATS.map(f => [f.id, f])
+);
+
+/**
+ * How to interpret a byte buffer as an image. `stride` is the distance in
+ * bytes between the starts of consecutive rows of the first plane; 0 means
+ * tightly packed. Tiling only applies to formats with whole-byte pixels;
+ * subsampled YUV is always read linearly.
+ */
+export interface RawLayout {
+  width: number;
+  height: number;
+  offset: number;
+  stride: number;
+  format: RawFormatId;
+  littleEndian: boolean;
+  tiling: RawTiling;
+}
+
+function isTiled(layout: Pick<RawLayout, 'format' | 'tiling'>): boolean {
+  const format = rawFormatById.get(layout.format)!;
+  return layout.tiling !== 'linear' && !format.planar && layout.format !== 'yuy2' && layout.format !== 'uyvy';
+}
+
+export function packedStride(format: RawFormatId, width: number): number {
+  return Math.ceil(width * rawFormatById.get(format)!.bytesPerPixel);
+}
+
+export function effectiveStride(layout: RawLayout): number {
+  return layout.stride > 0 ? layout.stride : packedStride(layout.format, layout.width);
+}
+
+/** Total bytes one frame occupies, including chroma planes. */
+export function frameByteLength(layout: RawLayout): number {
+  if (isTiled(layout)) {
+    return tiledPixelCount(layout.tiling, layout.width, layout.height) * rawFormatById.get(layout.format)!.bytesPerPixel;
+  }
+  const stride = effectiveStride(layout);
+  const lumaBytes = stride * layout.height;
+  const format = rawFormatById.get(layout.format)!;
+  // 4:2:0 chroma adds half a luma plane, whether interleaved or split
+  return format.planar ? lumaBytes + stride * Math.ceil(layout.height / 2) : lumaBytes;
+}
+
+/**
+ * The largest height whose frame still fits in `byteLength` bytes. Tiled
+ * layouts are treated as linear, which is exact for whole tiles.
+ */
+export function fitHeight(byteLength: number, layout: Omit<RawLayout, 'height'>): number {
+  const stride = effectiveStride({ ...layout, height: 0 });
+  const available = Math.max(0, byteLength - layout.offset);
+  const format = rawFormatById.get(layout.format)!;
+  const rowBytes = format.planar ? stride * 1.5 : stride;
+  return rowBytes > 0 ? Math.floor(available / rowBytes) : 0;
+}
+
+export function halfToFloat(half: number): number {
+  const sign = half & 0x8000 ? -1 : 1;
+  const exponent = (half >> 10) & 0x1f;
+  const mantissa = half & 0x3ff;
+
+  if (exponent === 0) {
+    return sign * Math.pow(2, -14) * (mantissa / 1024);
+  }
+  if (exponent === 0x1f) {
+    return mantissa ? NaN : sign * Infinity;
+  }
+  return sign * Math.pow(2, exponent - 15) * (1 + mantissa / 1024);
+}
+
+function toByte(value: number): number {
+  if (Number.isNaN(value)) return 0;
+  return Math.round(Math.max(0, Math.min(1, value)) * 255);
+}
+
+/** BT.601 limited-range YCbCr to RGB, the common default for camera and video dumps. */
+function yuvToRgb(y: number, u: number, v: number, out: Uint8ClampedArray, i: number): void {
+  const c = y - 16;
+  const d = u - 128;
+  const e = v - 128;
+  out[i] = (298 * c + 409 * e + 128) >> 8;
+  out[i + 1] = (298 * c - 100 * d - 208 * e + 128) >> 8;
+  out[i + 2] = (298 * c + 516 * d + 128) >> 8;
+  out[i + 3] = 255;
+}
+
+/**
+ * Decodes `bytes` into RGBA8 according to `layout`. Pixels that fall past the
+ * end of the buffer come out transparent black rather than throwing, so a
+ * wrong guess still shows something useful.
+ */
+export function decodeRaw(bytes: Uint8Array, layout: RawLayout): PixelBuffer {
+  const { width, height, offset, littleEndian } = layout;
+  const format = rawFormatById.get(layout.format);
+  if (!format) {
+    throw new Error(`Unknown raw format: ${layout.format}`);
+  }
+  if (!Number.isInteger(width) || !Number.isInteger(height) || width <= 0 || height <= 0) {
+    throw new Error(`Invalid raw dimensions: ${width}x${height}`);
+  }
+
+  const stride = effectiveStride(layout);
+  const output = createPixelBuffer(width, height);
+  const out = output.data;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const end = bytes.byteLength;
+
+  if (format.planar) {
+    decodePlanar(bytes, layout, stride, out);
+    return output;
+  }
+
+  const tiled = isTiled(layout);
+
+  for (let y = 0; y < height; y++) {
+    const rowStart = offset + y * stride;
+
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const p = tiled
+        ? offset + tiledPixelIndex(layout.tiling, x, y, width, height) * format.bytesPerPixel
+        : rowStart + Math.floor(x * format.bytesPerPixel);
+
+      // YUY2/UYVY address a two-pixel macropixel
+      const macro = rowStart + (x >> 1) * 4;
+      const needed = format.id === 'yuy2' || format.id === 'uyvy' ? macro + 4 : p + format.bytesPerPixel;
+      if (needed > end) continue;
+
+      switch (format.id) {
+        case 'rgba8':
+          out[i] = bytes[p]; out[i + 1] = bytes[p + 1]; out[i + 2] = bytes[p + 2]; out[i + 3] = bytes[p + 3];
+          break;
+        case 'bgra8':
+          out[i] = bytes[p + 2]; out[i + 1] = bytes[p + 1]; out[i + 2] = bytes[p]; out[i + 3] = bytes[p + 3];
+          break;
+        case 'argb8':
+          out[i] = bytes[p + 1]; out[i + 1] = bytes[p + 2]; out[i + 2] = bytes[p + 3]; out[i + 3] = bytes[p];
+          break;
+        case 'rgba8888': {
+          const v = view.getUint32(p, littleEndian);
+          out[i] = v >>> 24; out[i + 1] = (v >> 16) & 0xff; out[i + 2] = (v >> 8) & 0xff; out[i + 3] = v & 0xff;
+          break;
+        }
+        case 'rgba16x2': {
+          const rg = view.getUint16(p, littleEndian);
+          const ba = view.getUint16(p + 2, littleEndian);
+          out[i] = rg >> 8; out[i + 1] = rg & 0xff; out[i + 2] = ba >> 8; out[i + 3] = ba & 0xff;
+          break;
+        }
+        case 'rgb8':
+          out[i] = bytes[p]; out[i + 1] = bytes[p + 1]; out[i + 2] = bytes[p + 2]; out[i + 3] = 255;
+          break;
+        case 'bgr8':
+          out[i] = bytes[p + 2]; out[i + 1] = bytes[p + 1]; out[i + 2] = bytes[p]; out[i + 3] = 255;
+          break;
+        case 'r8':
+          out[i] = out[i + 1] = out[i + 2] = bytes[p]; out[i + 3] = 255;
+          break;
+        case 'rgb565': {
+          const v = view.getUint16(p, littleEndian);
+          out[i] = ((v >> 11) & 0x1f) * 255 / 31;
+          out[i + 1] = ((v >> 5) & 0x3f) * 255 / 63;
+          out[i + 2] = (v & 0x1f) * 255 / 31;
+          out[i + 3] = 255;
+          break;
+        }
+        case 'rgba4444': {
+          const v = view.getUint16(p, littleEndian);
+          out[i] = ((v >> 12) & 0xf) * 17;
+          out[i + 1] = ((v >> 8) & 0xf) * 17;
+          out[i + 2] = ((v >> 4) & 0xf) * 17;
+          out[i + 3] = (v & 0xf) * 17;
+          break;
+        }
+        case 'rgb10a2': {
+          // D3D/GL packing: R in the low bits, A in the top two
+          const v = view.getUint32(p, littleEndian);
+          out[i] = (v & 0x3ff) * 255 / 1023;
+          out[i + 1] = ((v >> 10) & 0x3ff) * 255 / 1023;
+          out[i + 2] = ((v >> 20) & 0x3ff) * 255 / 1023;
+          out[i + 3] = ((v >>> 30) & 0x3) * 85;
+          break;
+        }
+        case 'r16f':
+          out[i] = out[i + 1] = out[i + 2] = toByte(halfToFloat(view.getUint16(p, littleEndian)));
+          out[i + 3] = 255;
+          break;
+        case 'r32f':
+          out[i] = out[i + 1] = out[i + 2] = toByte(view.getFloat32(p, littleEndian));
+          out[i + 3] = 255;
+          break;
+        case 'yuy2':
+          yuvToRgb(bytes[macro + (x & 1) * 2], bytes[macro + 1], bytes[macro + 3], out, i);
+          break;
+        case 'uyvy':
+          yuvToRgb(bytes[macro + 1 + (x & 1) * 2], bytes[macro], bytes[macro + 2], out, i);
+          break;
+      }
+    }
+  }
+
+  return output;
+}
+
+function decodePlanar(bytes: Uint8Array, layout: RawLayout, stride: number, out: Uint8ClampedArray): void {
+  const { width, height, offset, format } = layout;
+  const chromaStart = offset + stride * height;
+  const chromaHeight = Math.ceil(height / 2);
+  // I420 splits chroma into two quarter-size planes with half the stride
+  const chromaStride = format === 'i420' ? Math.ceil(stride / 2) : stride;
+  const vPlaneStart = chromaStart + chromaStride * chromaHeight;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const yIdx = offset + y * stride + x;
+      const cx = x >> 1;
+      const cy = y >> 1;
+
+      let uIdx: number;
+      let vIdx: number;
+      if (format === 'i420') {
+        uIdx = chromaStart + cy * chromaStride + cx;
+        vIdx = vPlaneStart + cy * chromaStride + cx;
+      } else {
+        const pair = chromaStart + cy * chromaStride + cx * 2;
+        uIdx = format === 'nv12' ? pair : pair + 1;
+        vIdx = format === 'nv12' ? pair + 1 : pair;
+      }
+
+      if (yIdx >= bytes.length) continue;
+      const u = uIdx < bytes.length ? bytes[uIdx] : 128;
+      const v = vIdx < bytes.length ? bytes[vIdx] : 128;
+      yuvToRgb(bytes[yIdx], u, v, out, i);
+    }
+  }
+}
+
+const ENCODABLE_FORMATS: ReadonlySet<RawFormatId> = new Set<RawFormatId>([
+  'rgba8', 'bgra8', 'argb8', 'rgba8888', 'rgba16x2', 'rgb8', 'bgr8', 'r8', 'rgb565', 'rgba4444', 'rgb10a2',
+]);
+
+export function canEncodeRaw(format: RawFormatId): boolean {
+  return ENCODABLE_FORMATS.has(format);
+}
+
+/**
+ * Writes `image` into a byte buffer laid out as `layout` describes: the
+ * inverse of decodeRaw. Row padding and unused tile slots are zero.
+ * YUV and float formats are decode-only.
+ */
+export function encodeRaw(image: PixelBuffer, layout: RawLayout): Uint8Array<ArrayBuffer> {
+  const { offset, littleEndian } = layout;
+  const format = rawFormatById.get(layout.format);
+  if (!format || !canEncodeRaw(layout.format)) {
+    throw new Error(`Encoding to ${format?.label ?? layout.format} is not supported`);
+  }
+  if (layout.width !== image.width || layout.height !== image.height) {
+    throw new Error(`Layout is ${layout.width}x${layout.height} but image is ${image.width}x${image.height}`);
+  }
+
+  const { width, height, data } = image;
+  const stride = effectiveStride(layout);
+  const bytes = new Uint8Array(offset + frameByteLength(layout));
+  const view = new DataView(bytes.buffer);
+  const tiled = isTiled(layout);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const p = tiled
+        ? offset + tiledPixelIndex(layout.tiling, x, y, width, height) * format.bytesPerPixel
+        : offset + y * stride + x * format.bytesPerPixel;
+      const r = data[i], g = data[i + 1], b = data[i + 2], a = data[i + 3];
+
+      switch (format.id) {
+        case 'rgba8':
+          bytes[p] = r; bytes[p + 1] = g; bytes[p + 2] = b; bytes[p + 3] = a;
+          break;
+        case 'bgra8':
+          bytes[p] = b; bytes[p + 1] = g; bytes[p + 2] = r; bytes[p + 3] = a;
+          break;
+        case 'argb8':
+          bytes[p] = a; bytes[p + 1] = r; bytes[p + 2] = g; bytes[p + 3] = b;
+          break;
+        case 'rgba8888':
+          view.setUint32(p, ((r << 24) | (g << 16) | (b << 8) | a) >>> 0, littleEndian);
+          break;
+        case 'rgba16x2':
+          view.setUint16(p, (r << 8) | g, littleEndian);
+          view.setUint16(p + 2, (b << 8) | a, littleEndian);
+          break;
+        case 'rgb8':
+          bytes[p] = r; bytes[p + 1] = g; bytes[p + 2] = b;
+          break;
+        case 'bgr8':
+          bytes[p] = b; bytes[p + 1] = g; bytes[p + 2] = r;
+          break;
+        case 'r8':
+          bytes[p] = Math.round(0.299 * r + 0.587 * g + 0.114 * b);
+          break;
+        case 'rgb565':
+          view.setUint16(p, (Math.round(r * 31 / 255) << 11) | (Math.round(g * 63 / 255) << 5) | Math.round(b * 31 / 255), littleEndian);
+          break;
+        case 'rgba4444':
+          view.setUint16(p, (Math.round(r / 17) << 12) | (Math.round(g / 17) << 8) | (Math.round(b / 17) << 4) | Math.round(a / 17), littleEndian);
+          break;
+        case 'rgb10a2': {
+          const v = Math.round(r * 1023 / 255) | (Math.round(g * 1023 / 255) << 10) |
+            (Math.round(b * 1023 / 255) << 20) | (Math.round(a / 85) << 30);
+          view.setUint32(p, v >>> 0, littleEndian);
+          break;
+        }
+      }
+    }
+  }
+
+  return bytes;
+}
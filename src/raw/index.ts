@@ -0,0 +1,5 @@
+export * from './formats';
+export * from './tiling';
+export * from './sidecar';
+export * from './export';
+export * from './analyze';
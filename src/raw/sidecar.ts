@@ -0,0 +1,72 @@
+import { rawFormatById } from './formats';
+import type { RawFormatId, RawLayout } from './formats';
+import { RAW_TILINGS } from './tiling';
+import type { RawTiling } from './tiling';
+
+/**
+ * JSON written next to an exported .bin. It describes how the bytes are
+ * really laid out, so reading them correctly is the fix for the bug they
+ * reproduce.
+ */
+export interface RawSidecar {
+  version: 1;
+  width: number;
+  height: number;
+  offset: number;
+  /** Bytes per row of the first plane, always explicit (never 0). */
+  stride: number;
+  format: RawFormatId;
+  byteOrder: 'little' | 'big';
+  tiling: RawTiling;
+  /** Sandbox recipe of the glitch that produced the buffer, if any. */
+  recipe?: string;
+}
+
+export function createRawSidecar(layout: RawLayout, stride: number, recipe?: string): RawSidecar {
+  return {
+    version: 1,
+    width: layout.width,
+    height: layout.height,
+    offset: layout.offset,
+    stride,
+    format: layout.format,
+    byteOrder: layout.littleEndian ? 'little' : 'big',
+    tiling: layout.tiling,
+    ...(recipe ? { recipe } : {}),
+  };
+}
+
+function requireInteger(value: unknown, name: string, min: number): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < min) {
+    throw new Error(`Sidecar field "${name}" must be an integer >= ${min}`);
+  }
+  return value;
+}
+
+/** Parses sidecar JSON into a layout. Throws Error on anything malformed. */
+export function parseRawSidecar(json: string): RawLayout {
+  const sidecar = JSON.parse(json) as Partial<RawSidecar> | null;
+  if (!sidecar || typeof sidecar !== 'object' || sidecar.version !== 1) {
+    throw new Error('Not a raw buffer sidecar (expected version 1)');
+  }
+  if (!rawFormatById.has(sidecar.format as RawFormatId)) {
+    throw new Error(`Unknown raw format "${String(sidecar.format)}"`);
+  }
+  if (sidecar.byteOrder !== 'little' && sidecar.byteOrder !== 'big') {
+    throw new Error('Sidecar field "byteOrder" must be "little" or "big"');
+  }
+  const tiling = sidecar.tiling ?? 'linear';
+  if (!RAW_TILINGS.some(t => t.value === tiling)) {
+    throw new Error(`Unknown tiling "${String(tiling)}"`);
+  }
+
+  return {
+    width: requireInteger(sidecar.width, 'width', 1),
+    height: requireInteger(sidecar.height, 'height', 1),
+    offset: requireInteger(sidecar.offset ?? 0, 'offset', 0),
+    stride: requireInteger(sidecar.stride ?? 0, 'stride', 0),
+    format: sidecar.format as RawFormatId,
+    littleEndian: sidecar.byteOrder === 'little',
+    tiling,
+  };
+}
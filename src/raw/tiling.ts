@@ -0,0 +1,59 @@
+/**
+ * Pixel orderings for tiled/swizzled memory. `linear` is plain row-major
+ * with a row stride; the others place pixels by index and ignore stride.
+ */
+export type RawTiling = 'linear' | 'morton' | 'tiled-8x8' | 'tiled-4x4' | 'interleaved-rows';
+
+export const RAW_TILINGS: readonly { value: RawTiling; label: string }[] = [
+  { value: 'linear', label: 'Linear (row-major)' },
+  { value: 'morton', label: 'Morton (Z-order)' },
+  { value: 'tiled-8x8', label: 'Tiled 8x8' },
+  { value: 'tiled-4x4', label: 'Tiled 4x4' },
+  { value: 'interleaved-rows', label: 'Interleaved rows (even, then odd)' },
+];
+
+function splitBits(x: number): number {
+  x = (x | (x << 8)) & 0x00ff00ff;
+  x = (x | (x << 4)) & 0x0f0f0f0f;
+  x = (x | (x << 2)) & 0x33333333;
+  x = (x | (x << 1)) & 0x55555555;
+  return x;
+}
+
+/** Index of pixel (x, y) in memory order, counted in pixels. */
+export function tiledPixelIndex(tiling: RawTiling, x: number, y: number, width: number, height: number): number {
+  switch (tiling) {
+    case 'linear':
+      return y * width + x;
+    case 'morton':
+      return splitBits(x) | (splitBits(y) << 1);
+    case 'tiled-8x8':
+    case 'tiled-4x4': {
+      const size = tiling === 'tiled-8x8' ? 8 : 4;
+      const tilesPerRow = Math.ceil(width / size);
+      const tile = Math.floor(y / size) * tilesPerRow + Math.floor(x / size);
+      return tile * size * size + (y % size) * size + (x % size);
+    }
+    case 'interleaved-rows': {
+      const row = y % 2 === 0 ? y / 2 : Math.ceil(height / 2) + (y - 1) / 2;
+      return row * width + x;
+    }
+  }
+}
+
+/**
+ * Pixels of memory a tiled image occupies. Partial tiles and non power of
+ * two Morton extents leave holes, so this can exceed width * height.
+ */
+export function tiledPixelCount(tiling: RawTiling, width: number, height: number): number {
+  if (width <= 0 || height <= 0) return 0;
+  if (tiling === 'morton') {
+    // Morton order grows monotonically along each axis, so the far corner is last
+    return tiledPixelIndex(tiling, width - 1, height - 1, width, height) + 1;
+  }
+  if (tiling === 'tiled-8x8' || tiling === 'tiled-4x4') {
+    const size = tiling === 'tiled-8x8' ? 8 : 4;
+    return Math.ceil(width / size) * Math.ceil(height / size) * size * size;
+  }
+  return width * height;
+}
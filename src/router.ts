@@ -0,0 +1,73 @@
+export type View = 'gallery' | 'sandbox' | 'diagnose';
+
+export type Route =
+  | { view: 'gallery' }
+  | { view: 'sandbox'; recipe: string }
+  | { view: 'diagnose' };
+
+/**
+ * Parses `#gallery`, `#diagnose`, `#sandbox` and `#sandbox/<recipe>` hashes. Anything
+ * unrecognized falls back to the gallery.
+ */
+export function parseRoute(hash: string): Route {
+  const path = hash.startsWith('#') ? hash.slice(1) : hash;
+  const slash = path.indexOf('/');
+  const view = slash === -1 ? path : path.slice(0, slash);
+
+  if (view === 'sandbox') {
+    return { view: 'sandbox', recipe: slash === -1 ? '' : path.slice(slash + 1) };
+  }
+  if (view === 'diagnose') {
+    return { view: 'diagnose' };
+  }
+  return { view: 'gallery' };
+}
+
+export function formatRoute(route: Route): string {
+  if (route.view === 'sandbox') {
+    return route.recipe ? `#sandbox/${route.recipe}` : '#sandbox';
+  }
+  if (route.view === 'diagnose') {
+    return '#diagnose';
+  }
+  return '#gallery';
+}
+
+/**
+ * Keeps the URL hash in sync with app state. `onRoute` fires for navigation the
+ * app did not initiate itself: initial load, back/forward and edited URLs.
+ */
+export class Router {
+  private onRoute: (route: Route) => void;
+  private currentHash: string | null = null;
+
+  constructor(onRoute: (route: Route) => void) {
+    this.onRoute = onRoute;
+  }
+
+  public start(): void {
+    window.addEventListener('popstate', () => this.handleLocationChange());
+    window.addEventListener('hashchange', () => this.handleLocationChange());
+    this.handleLocationChange();
+  }
+
+  public navigate(route: Route, replace = false): void {
+    const hash = formatRoute(route);
+    if (hash === this.currentHash) return;
+
+    if (replace) {
+      history.replaceState(null, '', hash);
+    } else {
+      history.pushState(null, '', hash);
+    }
+    this.currentHash = window.location.hash;
+  }
+
+  private handleLocationChange(): void {
+    const hash = window.location.hash;
+    if (hash === this.currentHash) return;
+
+    this.currentHash = hash;
+    this.onRoute(parseRoute(hash));
+  }
+}
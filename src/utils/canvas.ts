@@ -1,3 +1,5 @@
+import type { PixelBuffer } from '../glitches';
+
 export function createCanvas(width: number, height: number): HTMLCanvasElement {
   const canvas = document.createElement('canvas');
   canvas.width = width;
@@ -20,6 +22,13 @@ export function imageToImageData(img: HTMLImageElement): ImageData {
   return ctx.getImageData(0, 0, canvas.width, canvas.height);
 }
 
+export function toImageData(buffer: PixelBuffer): ImageData {
+  if (buffer instanceof ImageData) {
+    return buffer;
+  }
+  return new ImageData(buffer.data, buffer.width, buffer.height);
+}
+
 export function imageDataToCanvas(imageData: ImageData): HTMLCanvasElement {
   const canvas = createCanvas(imageData.width, imageData.height);
   const ctx = getContext(canvas);
@@ -66,3 +75,17 @@ export function resizeImageData(
   ctx.drawImage(srcCanvas, 0, 0, newWidth, newHeight);
   return ctx.getImageData(0, 0, newWidth, newHeight);
 }
+
+/** Scales to exactly `width` x `height`, ignoring aspect ratio. */
+export function scaleImageData(imageData: ImageData, width: number, height: number): ImageData {
+  if (imageData.width === width && imageData.height === height) {
+    return imageData;
+  }
+
+  const srcCanvas = imageDataToCanvas(imageData);
+  const dstCanvas = createCanvas(width, height);
+  const ctx = getContext(dstCanvas);
+
+  ctx.drawImage(srcCanvas, 0, 0, width, height);
+  return ctx.getImageData(0, 0, width, height);
+}
@@ -1,8 +1,12 @@
 import { imageToImageData } from './canvas';
 
+export function isImageFile(file: File): boolean {
+  return file.type.startsWith('image/');
+}
+
 export function loadImageFromFile(file: File): Promise<HTMLImageElement> {
   return new Promise((resolve, reject) => {
-    if (!file.type.startsWith('image/')) {
+    if (!isImageFile(file)) {
       reject(new Error('File is not an image'));
       return;
     }
@@ -43,7 +47,9 @@ export async function loadImageDataFromURL(url: string): Promise<ImageData> {
 
 export function setupDropZone(
   element: HTMLElement,
-  onFile: (file: File) => void
+  onFile: (file: File) => void,
+  accept: (file: File) => boolean = isImageFile,
+  multiple = false
 ): () => void {
   const handleDragOver = (e: DragEvent) => {
     e.preventDefault();
@@ -62,10 +68,9 @@ export function setupDropZone(
     e.stopPropagation();
     element.classList.remove('drag-over');
 
-    const files = e.dataTransfer?.files;
-    if (files && files.length > 0) {
-      const file = files[0];
-      if (file.type.startsWith('image/')) {
+    const files = Array.from(e.dataTransfer?.files ?? []);
+    for (const file of multiple ? files : files.slice(0, 1)) {
+      if (accept(file)) {
         onFile(file);
       }
     }
@@ -83,16 +88,21 @@ export function setupDropZone(
   };
 }
 
-export function createFileInput(onFile: (file: File) => void): HTMLInputElement {
+export function createFileInput(
+  onFile: (file: File) => void,
+  accept = 'image/*',
+  multiple = false
+): HTMLInputElement {
   const input = document.createElement('input');
   input.type = 'file';
-  input.accept = 'image/*';
+  input.accept = accept;
+  input.multiple = multiple;
   input.style.display = 'none';
 
   input.addEventListener('change', () => {
-    const file = input.files?.[0];
-    if (file) {
-      onFile(file);
+    const files = Array.from(input.files ?? []);
+    if (files.length > 0) {
+      files.forEach(onFile);
       input.value = ''; // Reset for re-selection
     }
   });
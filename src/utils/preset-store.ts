@@ -0,0 +1,102 @@
+import { glitchById, normalizeParams } from '../glitches';
+import type { GlitchParams } from '../glitches';
+
+const STORAGE_KEY = 'glitchbook.presets';
+const EXPORT_VERSION = 1;
+
+export interface UserPreset {
+  glitchId: string;
+  name: string;
+  params: GlitchParams;
+}
+
+interface PresetExport {
+  version: number;
+  presets: UserPreset[];
+}
+
+/**
+ * Drops entries for unknown glitches and normalizes params, so stored or
+ * imported presets can never hand a glitch values it does not declare.
+ */
+function sanitize(presets: unknown): UserPreset[] {
+  if (!Array.isArray(presets)) return [];
+
+  const result: UserPreset[] = [];
+  for (const entry of presets) {
+    if (!entry || typeof entry !== 'object') continue;
+    const { glitchId, name, params } = entry as Partial<UserPreset>;
+    const glitch = typeof glitchId === 'string' ? glitchById.get(glitchId) : undefined;
+    if (!glitch || typeof name !== 'string' || !name.trim()) continue;
+
+    result.push({
+      glitchId: glitch.id,
+      name: name.trim(),
+      params: normalizeParams(glitch, params && typeof params === 'object' ? params : {}),
+    });
+  }
+  return result;
+}
+
+export function loadUserPresets(): UserPreset[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? sanitize(JSON.parse(stored)) : [];
+  } catch (error) {
+    console.warn('Ignoring unreadable saved presets:', error);
+    return [];
+  }
+}
+
+function storeUserPresets(presets: UserPreset[]): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+}
+
+export function getUserPresets(glitchId: string): UserPreset[] {
+  return loadUserPresets().filter(p => p.glitchId === glitchId);
+}
+
+/** Saves a preset, replacing any existing one with the same glitch and name. */
+export function saveUserPreset(preset: UserPreset): void {
+  const presets = loadUserPresets().filter(
+    p => !(p.glitchId === preset.glitchId && p.name === preset.name)
+  );
+  presets.push(...sanitize([preset]));
+  storeUserPresets(presets);
+}
+
+export function deleteUserPreset(glitchId: string, name: string): void {
+  storeUserPresets(loadUserPresets().filter(p => !(p.glitchId === glitchId && p.name === name)));
+}
+
+export function exportUserPresets(): string {
+  const data: PresetExport = { version: EXPORT_VERSION, presets: loadUserPresets() };
+  return JSON.stringify(data, null, 2);
+}
+
+/**
+ * Merges presets from an exported JSON file into local storage. Presets with
+ * the same glitch and name are overwritten. Returns how many were imported.
+ */
+export function importUserPresets(json: string): number {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error('Preset file is not valid JSON');
+  }
+
+  if (typeof parsed !== 'object' || parsed === null) {
+    throw new Error('Preset file is not a preset export');
+  }
+  const data = parsed as Partial<PresetExport>;
+  if (data.version !== EXPORT_VERSION) {
+    throw new Error(`Unsupported preset file version: ${data.version}`);
+  }
+
+  const imported = sanitize(data.presets);
+  for (const preset of imported) {
+    saveUserPreset(preset);
+  }
+  return imported.length;
+}
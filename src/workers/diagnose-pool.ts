@@ -0,0 +1,131 @@
+import { diagnoseGlitch, glitches } from '../glitches';
+import type { GlitchDefinition, GlitchParams, PixelBuffer } from '../glitches';
+import { toImageData } from '../utils/canvas';
+import { CancelledError } from './glitch-pool';
+import type { DiagnoseWorkerRequest, DiagnoseWorkerResponse } from './protocol';
+
+const MAX_WORKERS = 4;
+
+export interface DiagnosisResult {
+  glitch: GlitchDefinition;
+  params: GlitchParams;
+  /** Mean absolute RGB difference from the capture, 0 (identical) to 1. */
+  error: number;
+  /** The glitch applied to the reference with `params`. */
+  output: ImageData;
+}
+
+export type DiagnosisProgress = (done: number, total: number) => void;
+
+/**
+ * Runs the best-fit search for every glitch, one glitch per worker job, and
+ * resolves with the results ranked best first. Starting a new run or calling
+ * `cancel` rejects the pending one with CancelledError.
+ */
+export class DiagnosisRunner {
+  private workers: Worker[] = [];
+  private rejectRun: ((error: Error) => void) | null = null;
+
+  public run(reference: PixelBuffer, capture: PixelBuffer, onProgress: DiagnosisProgress): Promise<DiagnosisResult[]> {
+    this.cancel();
+    if (reference.width !== capture.width || reference.height !== capture.height) {
+      return Promise.reject(new Error('Reference and capture must be the same size'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.rejectRun = reject;
+      const results: DiagnosisResult[] = [];
+      const finish = (result: DiagnosisResult) => {
+        results.push(result);
+        onProgress(results.length, glitches.length);
+        if (results.length === glitches.length) {
+          this.stopWorkers();
+          this.rejectRun = null;
+          resolve(results.sort((a, b) => a.error - b.error));
+        }
+      };
+
+      if (typeof Worker === 'undefined') {
+        this.runInline(reference, capture, finish);
+      } else {
+        this.runInWorkers(reference, capture, finish, reject);
+      }
+    });
+  }
+
+  public cancel(): void {
+    this.stopWorkers();
+    this.rejectRun?.(new CancelledError());
+    this.rejectRun = null;
+  }
+
+  private runInWorkers(
+    reference: PixelBuffer,
+    capture: PixelBuffer,
+    finish: (result: DiagnosisResult) => void,
+    reject: (error: Error) => void
+  ): void {
+    const { width, height } = reference;
+    let next = 0;
+
+    const dispatch = (worker: Worker) => {
+      if (next >= glitches.length) return;
+      const id = next++;
+      const request: DiagnoseWorkerRequest = {
+        id,
+        glitchId: glitches[id].id,
+        width,
+        height,
+        reference: reference.data.slice().buffer,
+        capture: capture.data.slice().buffer,
+      };
+      worker.postMessage(request, [request.reference, request.capture]);
+    };
+
+    const size = Math.min(MAX_WORKERS, Math.max(1, (navigator.hardwareConcurrency || 2) - 1));
+    for (let i = 0; i < size; i++) {
+      const worker = new Worker(new URL('./diagnose.worker.ts', import.meta.url), { type: 'module' });
+      worker.onmessage = (e: MessageEvent<DiagnoseWorkerResponse>) => {
+        const response = e.data;
+        const glitch = glitches[response.id];
+        if ('error' in response) {
+          // One failing glitch shouldn't sink the whole ranking
+          console.error(`Diagnosis failed for ${glitch.id}:`, response.error);
+          finish({ glitch, params: {}, error: Infinity, output: new ImageData(width, height) });
+        } else {
+          const output = new ImageData(new Uint8ClampedArray(response.buffer), width, height);
+          finish({ glitch, params: response.params, error: response.score, output });
+        }
+        dispatch(worker);
+      };
+      worker.onerror = (e: ErrorEvent) => {
+        this.stopWorkers();
+        this.rejectRun = null;
+        reject(new Error(e.message));
+      };
+      this.workers.push(worker);
+      dispatch(worker);
+    }
+  }
+
+  /** Main-thread fallback; yields between glitches so progress can paint. */
+  private runInline(reference: PixelBuffer, capture: PixelBuffer, finish: (result: DiagnosisResult) => void): void {
+    const generation = this.rejectRun;
+    let index = 0;
+    const step = () => {
+      if (this.rejectRun !== generation || index >= glitches.length) return;
+      const glitch = glitches[index++];
+      const candidate = diagnoseGlitch(glitch, reference, capture);
+      finish({ ...candidate, output: toImageData(glitch.apply(reference, candidate.params)) });
+      setTimeout(step, 0);
+    };
+    setTimeout(step, 0);
+  }
+
+  private stopWorkers(): void {
+    for (const worker of this.workers) {
+      worker.terminate();
+    }
+    this.workers = [];
+  }
+}
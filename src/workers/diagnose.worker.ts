@@ -0,0 +1,33 @@
+import { glitchById, diagnoseGlitch } from '../glitches';
+import type { DiagnoseWorkerRequest, DiagnoseWorkerResponse } from './protocol';
+
+self.onmessage = (e: MessageEvent<DiagnoseWorkerRequest>) => {
+  const { id, glitchId, width, height } = e.data;
+
+  try {
+    const glitch = glitchById.get(glitchId);
+    if (!glitch) {
+      throw new Error(`Unknown glitch: ${glitchId}`);
+    }
+
+    const reference = { width, height, data: new Uint8ClampedArray(e.data.reference) };
+    const capture = { width, height, data: new Uint8ClampedArray(e.data.capture) };
+    const candidate = diagnoseGlitch(glitch, reference, capture);
+    // Send the best fit's output too, so the page can show it without re-running
+    const outBuffer = glitch.apply(reference, candidate.params).data.buffer as ArrayBuffer;
+
+    const response: DiagnoseWorkerResponse = {
+      id,
+      params: candidate.params,
+      score: candidate.error,
+      buffer: outBuffer,
+    };
+    self.postMessage(response, { transfer: [outBuffer] });
+  } catch (error) {
+    const response: DiagnoseWorkerResponse = {
+      id,
+      error: error instanceof Error ? error.message : String(error),
+    };
+    self.postMessage(response);
+  }
+};
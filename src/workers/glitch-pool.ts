@@ -0,0 +1,213 @@
+import { GlitchPipeline } from '../glitches';
+import type { PixelBuffer, RecipeStep } from '../glitches';
+import { toImageData } from '../utils/canvas';
+import type { GlitchWorkerRequest, GlitchWorkerResponse, RunMode, SerializedStep } from './protocol';
+
+const MAX_WORKERS = 4;
+/** A job still running after this long has hung its worker, which is replaced. */
+const JOB_TIME_LIMIT_MS = 30_000;
+
+/**
+ * Thrown (as a rejection) when a newer request on the same channel superseded
+ * this one. Callers should silently drop it.
+ */
+export class CancelledError extends Error {
+  constructor() {
+    super('Glitch request was superseded');
+    this.name = 'CancelledError';
+  }
+}
+
+export interface RunOptions {
+  /**
+   * Requests sharing a channel cancel each other: only the newest one resolves.
+   * Used for slider drags, where intermediate frames are worthless once stale.
+   */
+  channel?: string;
+  /** Stop after this step index, for previewing intermediate stages. */
+  untilIndex?: number;
+  /** Defaults to 'apply'. */
+  mode?: RunMode;
+}
+
+interface Job {
+  id: number;
+  channel: string | null;
+  steps: SerializedStep[];
+  mode: RunMode;
+  imageData: PixelBuffer;
+  resolve: (result: ImageData) => void;
+  reject: (error: Error) => void;
+}
+
+interface PoolWorker {
+  worker: Worker;
+  job: Job | null;
+  timer: ReturnType<typeof setTimeout> | null;
+}
+
+/**
+ * Runs glitch pipelines off the main thread. Pixel buffers are copied once into
+ * the request and transferred both ways, so the caller's ImageData stays intact.
+ */
+export class GlitchWorkerPool {
+  private workers: PoolWorker[] = [];
+  private queue: Job[] = [];
+  private latestByChannel = new Map<string, number>();
+  private nextId = 1;
+
+  constructor(size = Math.min(MAX_WORKERS, Math.max(1, (navigator.hardwareConcurrency || 2) - 1))) {
+    for (let i = 0; i < size; i++) {
+      this.workers.push(this.spawn());
+    }
+  }
+
+  public run(imageData: PixelBuffer, steps: readonly RecipeStep[], options: RunOptions = {}): Promise<ImageData> {
+    const last = Math.min(options.untilIndex ?? steps.length - 1, steps.length - 1);
+    const serialized: SerializedStep[] = steps.slice(0, last + 1).map(step => ({
+      glitchId: step.glitch.id,
+      params: { ...step.params },
+      enabled: step.enabled,
+    }));
+
+    const channel = options.channel ?? null;
+    const id = this.nextId++;
+
+    if (channel !== null) {
+      this.latestByChannel.set(channel, id);
+      // Queued work on this channel can never be shown, so drop it now.
+      // Running work finishes and its result is dropped in handleResponse.
+      this.queue = this.queue.filter(job => {
+        if (job.channel !== channel) return true;
+        job.reject(new CancelledError());
+        return false;
+      });
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ id, channel, steps: serialized, mode: options.mode ?? 'apply', imageData, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  public terminate(): void {
+    for (const entry of this.workers) {
+      if (entry.timer !== null) clearTimeout(entry.timer);
+      entry.worker.terminate();
+      entry.job?.reject(new CancelledError());
+    }
+    for (const job of this.queue) {
+      job.reject(new CancelledError());
+    }
+    this.workers = [];
+    this.queue = [];
+  }
+
+  private isStale(job: Job): boolean {
+    return job.channel !== null && this.latestByChannel.get(job.channel) !== job.id;
+  }
+
+  private spawn(): PoolWorker {
+    const worker = new Worker(new URL('./glitch.worker.ts', import.meta.url), { type: 'module' });
+    const entry: PoolWorker = { worker, job: null, timer: null };
+    worker.onmessage = (e: MessageEvent<GlitchWorkerResponse>) => this.handleResponse(entry, e.data);
+    worker.onerror = (e: ErrorEvent) => this.handleError(entry, new Error(e.message));
+    return entry;
+  }
+
+  private dispatch(): void {
+    for (const entry of this.workers) {
+      if (entry.job) continue;
+      const job = this.queue.shift();
+      if (!job) return;
+
+      entry.job = job;
+      entry.timer = setTimeout(() => this.handleTimeout(entry), JOB_TIME_LIMIT_MS);
+      const buffer = job.imageData.data.slice().buffer;
+      const request: GlitchWorkerRequest = {
+        id: job.id,
+        steps: job.steps,
+        width: job.imageData.width,
+        height: job.imageData.height,
+        buffer,
+        mode: job.mode,
+      };
+      entry.worker.postMessage(request, [buffer]);
+    }
+  }
+
+  private handleResponse(entry: PoolWorker, response: GlitchWorkerResponse): void {
+    const job = this.release(entry);
+
+    if (job && job.id === response.id) {
+      if (this.isStale(job)) {
+        job.reject(new CancelledError());
+      } else if ('error' in response) {
+        job.reject(new Error(response.error));
+      } else {
+        job.resolve(new ImageData(new Uint8ClampedArray(response.buffer), response.width, response.height));
+      }
+    }
+
+    this.dispatch();
+  }
+
+  private handleError(entry: PoolWorker, error: Error): void {
+    this.release(entry)?.reject(error);
+    this.dispatch();
+  }
+
+  private handleTimeout(entry: PoolWorker): void {
+    // The worker can't be interrupted, so replace it rather than wait on it
+    const job = this.release(entry);
+    entry.worker.terminate();
+    this.workers = this.workers.map(other => other === entry ? this.spawn() : other);
+    if (job) {
+      job.reject(this.isStale(job)
+        ? new CancelledError()
+        : new Error(`Glitch request took longer than ${JOB_TIME_LIMIT_MS / 1000}s`));
+    }
+    this.dispatch();
+  }
+
+  /** Frees the worker and returns the job it was running. */
+  private release(entry: PoolWorker): Job | null {
+    const job = entry.job;
+    if (entry.timer !== null) clearTimeout(entry.timer);
+    entry.job = null;
+    entry.timer = null;
+    return job;
+  }
+}
+
+/**
+ * Main-thread fallback with the same contract, for environments without
+ * module workers.
+ */
+class InlineGlitchRunner {
+  public run(imageData: PixelBuffer, steps: readonly RecipeStep[], options: RunOptions = {}): Promise<ImageData> {
+    return new Promise((resolve, reject) => {
+      try {
+        const pipeline = new GlitchPipeline();
+        pipeline.load(steps);
+        const output = options.mode === 'repair' ? pipeline.repair(imageData)
+          : options.mode === 'fix' ? pipeline.fix(imageData, options.untilIndex)
+          : pipeline.run(imageData, options.untilIndex);
+        resolve(toImageData(output));
+      } catch (error) {
+        reject(error);
+      }
+    });
+  }
+}
+
+export type GlitchRunner = Pick<GlitchWorkerPool, 'run'>;
+
+let sharedRunner: GlitchRunner | null = null;
+
+export function getGlitchRunner(): GlitchRunner {
+  if (!sharedRunner) {
+    sharedRunner = typeof Worker !== 'undefined' ? new GlitchWorkerPool() : new InlineGlitchRunner();
+  }
+  return sharedRunner;
+}
@@ -0,0 +1,37 @@
+import { glitchById, GlitchPipeline } from '../glitches';
+import type { GlitchWorkerRequest, GlitchWorkerResponse } from './protocol';
+
+self.onmessage = (e: MessageEvent<GlitchWorkerRequest>) => {
+  const { id, steps, width, height, buffer, mode } = e.data;
+
+  try {
+    const pipeline = new GlitchPipeline();
+    for (const step of steps) {
+      const glitch = glitchById.get(step.glitchId);
+      if (!glitch) {
+        throw new Error(`Unknown glitch: ${step.glitchId}`);
+      }
+      pipeline.add(glitch, step.params, step.enabled);
+    }
+
+    const input = { width, height, data: new Uint8ClampedArray(buffer) };
+    const output = mode === 'repair' ? pipeline.repair(input)
+      : mode === 'fix' ? pipeline.fix(input)
+      : pipeline.run(input);
+    const outBuffer = output.data.buffer as ArrayBuffer;
+
+    const response: GlitchWorkerResponse = {
+      id,
+      width: output.width,
+      height: output.height,
+      buffer: outBuffer,
+    };
+    self.postMessage(response, { transfer: [outBuffer] });
+  } catch (error) {
+    const response: GlitchWorkerResponse = {
+      id,
+      error: error instanceof Error ? error.message : String(error),
+    };
+    self.postMessage(response);
+  }
+};
@@ -0,0 +1,78 @@
+import { measureImages } from '../glitches';
+import type { ImageMetrics, PixelBuffer } from '../glitches';
+import { CancelledError } from './glitch-pool';
+import type { MetricsWorkerRequest, MetricsWorkerResponse } from './protocol';
+
+interface PendingMeasure {
+  id: number;
+  resolve: (metrics: ImageMetrics) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Measures results on one background worker; CIEDE2000 over a full preview
+ * takes long enough to stall slider drags on the main thread. Only the newest
+ * request resolves: starting another stops the worker and rejects the pending
+ * one with CancelledError.
+ */
+export class MetricsRunner {
+  private worker: Worker | null = null;
+  private pending: PendingMeasure | null = null;
+  private nextId = 1;
+
+  public measure(reference: PixelBuffer, processed: PixelBuffer): Promise<ImageMetrics> {
+    if (this.pending) {
+      // The worker is busy with a stale pair; stopping it beats waiting
+      this.worker?.terminate();
+      this.worker = null;
+      this.pending.reject(new CancelledError());
+      this.pending = null;
+    }
+
+    if (typeof Worker === 'undefined') {
+      return new Promise((resolve, reject) => {
+        try {
+          resolve(measureImages(reference, processed));
+        } catch (error) {
+          reject(error);
+        }
+      });
+    }
+
+    const worker = this.getWorker();
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending = { id, resolve, reject };
+      const request: MetricsWorkerRequest = {
+        id,
+        width: reference.width,
+        height: reference.height,
+        reference: reference.data.slice().buffer,
+        processed: processed.data.slice().buffer,
+      };
+      worker.postMessage(request, [request.reference, request.processed]);
+    });
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./metrics.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (e: MessageEvent<MetricsWorkerResponse>) => {
+        const response = e.data;
+        if (!this.pending || this.pending.id !== response.id) return;
+        const { resolve, reject } = this.pending;
+        this.pending = null;
+        if ('error' in response) {
+          reject(new Error(response.error));
+        } else {
+          resolve(response.metrics);
+        }
+      };
+      this.worker.onerror = (e: ErrorEvent) => {
+        this.pending?.reject(new Error(e.message));
+        this.pending = null;
+      };
+    }
+    return this.worker;
+  }
+}
@@ -0,0 +1,19 @@
+import { measureImages } from '../glitches';
+import type { MetricsWorkerRequest, MetricsWorkerResponse } from './protocol';
+
+self.onmessage = (e: MessageEvent<MetricsWorkerRequest>) => {
+  const { id, width, height } = e.data;
+
+  try {
+    const reference = { width, height, data: new Uint8ClampedArray(e.data.reference) };
+    const processed = { width, height, data: new Uint8ClampedArray(e.data.processed) };
+    const response: MetricsWorkerResponse = { id, metrics: measureImages(reference, processed) };
+    self.postMessage(response);
+  } catch (error) {
+    const response: MetricsWorkerResponse = {
+      id,
+      error: error instanceof Error ? error.message : String(error),
+    };
+    self.postMessage(response);
+  }
+};
@@ -0,0 +1,66 @@
+import type { GlitchParams, ImageMetrics, RoundTrip } from '../glitches';
+
+export interface SerializedStep {
+  glitchId: string;
+  params: GlitchParams;
+  enabled: boolean;
+}
+
+/**
+ * 'apply' runs the steps as written, 'fix' takes each step's fixed path and
+ * 'repair' undoes the steps, last first.
+ */
+export type RunMode = 'apply' | 'fix' | 'repair';
+
+export interface GlitchWorkerRequest {
+  id: number;
+  steps: SerializedStep[];
+  width: number;
+  height: number;
+  buffer: ArrayBuffer;
+  mode: RunMode;
+}
+
+export type GlitchWorkerResponse =
+  | { id: number; width: number; height: number; buffer: ArrayBuffer }
+  | { id: number; error: string };
+
+/** One glitch's parameter search against a reference/capture pair. */
+export interface DiagnoseWorkerRequest {
+  id: number;
+  glitchId: string;
+  width: number;
+  height: number;
+  reference: ArrayBuffer;
+  capture: ArrayBuffer;
+}
+
+export type DiagnoseWorkerResponse =
+  | { id: number; params: GlitchParams; score: number; buffer: ArrayBuffer }
+  | { id: number; error: string };
+
+/** Quality metrics of a result against the image it came from. */
+export interface MetricsWorkerRequest {
+  id: number;
+  width: number;
+  height: number;
+  reference: ArrayBuffer;
+  processed: ArrayBuffer;
+}
+
+export type MetricsWorkerResponse =
+  | { id: number; metrics: ImageMetrics }
+  | { id: number; error: string };
+
+/** Glitch-then-repair round trips of each step on its own, against one image. */
+export interface RepairWorkerRequest {
+  id: number;
+  steps: SerializedStep[];
+  width: number;
+  height: number;
+  buffer: ArrayBuffer;
+}
+
+export type RepairWorkerResponse =
+  | { id: number; results: RoundTrip[] }
+  | { id: number; error: string };
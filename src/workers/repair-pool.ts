@@ -0,0 +1,79 @@
+import { checkRoundTrip } from '../glitches';
+import type { PixelBuffer, RecipeStep, RoundTrip } from '../glitches';
+import { CancelledError } from './glitch-pool';
+import type { RepairWorkerRequest, RepairWorkerResponse } from './protocol';
+
+interface PendingCheck {
+  id: number;
+  resolve: (results: RoundTrip[]) => void;
+  reject: (error: Error) => void;
+}
+
+/**
+ * Checks how well each step repairs on one background worker; a round trip
+ * per step over the full image is too slow for the main thread. Only the
+ * newest request resolves: starting another stops the worker and rejects the
+ * pending one with CancelledError.
+ */
+export class RepairReportRunner {
+  private worker: Worker | null = null;
+  private pending: PendingCheck | null = null;
+  private nextId = 1;
+
+  /** One round trip per step, in order. */
+  public check(image: PixelBuffer, steps: readonly RecipeStep[]): Promise<RoundTrip[]> {
+    if (this.pending) {
+      // The worker is busy with a stale stack; stopping it beats waiting
+      this.worker?.terminate();
+      this.worker = null;
+      this.pending.reject(new CancelledError());
+      this.pending = null;
+    }
+
+    if (typeof Worker === 'undefined') {
+      return new Promise((resolve, reject) => {
+        try {
+          resolve(steps.map(step => checkRoundTrip(step.glitch, image, step.params)));
+        } catch (error) {
+          reject(error);
+        }
+      });
+    }
+
+    const worker = this.getWorker();
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending = { id, resolve, reject };
+      const request: RepairWorkerRequest = {
+        id,
+        steps: steps.map(step => ({ glitchId: step.glitch.id, params: { ...step.params }, enabled: step.enabled })),
+        width: image.width,
+        height: image.height,
+        buffer: image.data.slice().buffer,
+      };
+      worker.postMessage(request, [request.buffer]);
+    });
+  }
+
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(new URL('./repair.worker.ts', import.meta.url), { type: 'module' });
+      this.worker.onmessage = (e: MessageEvent<RepairWorkerResponse>) => {
+        const response = e.data;
+        if (!this.pending || this.pending.id !== response.id) return;
+        const { resolve, reject } = this.pending;
+        this.pending = null;
+        if ('error' in response) {
+          reject(new Error(response.error));
+        } else {
+          resolve(response.results);
+        }
+      };
+      this.worker.onerror = (e: ErrorEvent) => {
+        this.pending?.reject(new Error(e.message));
+        this.pending = null;
+      };
+    }
+    return this.worker;
+  }
+}
@@ -0,0 +1,25 @@
+import { checkRoundTrip, glitchById } from '../glitches';
+import type { RepairWorkerRequest, RepairWorkerResponse } from './protocol';
+
+self.onmessage = (e: MessageEvent<RepairWorkerRequest>) => {
+  const { id, steps, width, height, buffer } = e.data;
+
+  try {
+    const image = { width, height, data: new Uint8ClampedArray(buffer) };
+    const results = steps.map(step => {
+      const glitch = glitchById.get(step.glitchId);
+      if (!glitch) {
+        throw new Error(`Unknown glitch: ${step.glitchId}`);
+      }
+      return checkRoundTrip(glitch, image, step.params);
+    });
+    const response: RepairWorkerResponse = { id, results };
+    self.postMessage(response);
+  } catch (error) {
+    const response: RepairWorkerResponse = {
+      id,
+      error: error instanceof Error ? error.message : String(error),
+    };
+    self.postMessage(response);
+  }
+};
@@ -0,0 +1,228 @@
+import { describe, expect, it } from 'vitest';
+import { PNG } from 'pngjs';
+import { crc32, encodeApng, encodeGif, evenKeyframes, frameTimes, recipeAt, sampleTrack } from '../src/animation';
+import { createPixelBuffer, glitchById } from '../src/glitches';
+import type { PixelBuffer, RecipeStep } from '../src/glitches';
+import { createSyntheticInput } from './golden/harness';
+
+/** A frame of four flat quadrants, so a 255-color palette holds it exactly. */
+function quadrants(width: number, height: number, shift: number): PixelBuffer {
+  const image = createPixelBuffer(width, height);
+  const colors = [[255, 0, 0], [0, 255, 0], [0, 0, 255], [shift, shift, shift]];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const color = colors[(y < height / 2 ? 0 : 2) + (x < width / 2 ? 0 : 1)];
+      image.data.set([...color, 255], (y * width + x) * 4);
+    }
+  }
+  return image;
+}
+
+interface PngChunk {
+  type: string;
+  data: Buffer;
+}
+
+function readChunks(bytes: Uint8Array): PngChunk[] {
+  const buffer = Buffer.from(bytes);
+  const chunks: PngChunk[] = [];
+  for (let offset = 8; offset < buffer.length;) {
+    const length = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    const data = buffer.subarray(offset + 8, offset + 8 + length);
+    const crc = buffer.readUInt32BE(offset + 8 + length);
+    expect((crc32(buffer.subarray(offset + 4, offset + 8 + length)) ^ 0xffffffff) >>> 0, `${type} CRC`).toBe(crc);
+    chunks.push({ type, data });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+/** A still PNG holding only `chunks`' header and the given image data, for pngjs to decode. */
+function stillPng(chunks: PngChunk[], imageData: Buffer): PixelBuffer {
+  const chunk = (type: string, data: Buffer) => {
+    const body = Buffer.concat([Buffer.from(type, 'latin1'), data]);
+    const out = Buffer.alloc(12 + data.length);
+    out.writeUInt32BE(data.length, 0);
+    body.copy(out, 4);
+    out.writeUInt32BE((crc32(body) ^ 0xffffffff) >>> 0, 8 + data.length);
+    return out;
+  };
+  const png = PNG.sync.read(Buffer.concat([
+    Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', chunks.find(c => c.type === 'IHDR')!.data),
+    chunk('IDAT', imageData),
+    chunk('IEND', Buffer.alloc(0)),
+  ]));
+  return { width: png.width, height: png.height, data: new Uint8ClampedArray(png.data) };
+}
+
+/** Just enough of a GIF decoder to read back the frames encodeGif writes. */
+function decodeGif(bytes: Uint8Array): { delays: number[]; frames: PixelBuffer[] } {
+  const width = bytes[6] | bytes[7] << 8;
+  const height = bytes[8] | bytes[9] << 8;
+  const palette = bytes.subarray(13, 13 + 256 * 3);
+  const delays: number[] = [];
+  const frames: PixelBuffer[] = [];
+  let transparent = -1;
+  let offset = 13 + 256 * 3;
+
+  const readBlocks = () => {
+    const data: number[] = [];
+    while (bytes[offset] !== 0) {
+      data.push(...bytes.subarray(offset + 1, offset + 1 + bytes[offset]));
+      offset += 1 + bytes[offset];
+    }
+    offset++;
+    return data;
+  };
+
+  while (bytes[offset] !== 0x3b) {
+    if (bytes[offset] === 0x21) {
+      if (bytes[offset + 1] === 0xf9) {
+        delays.push(bytes[offset + 4] | bytes[offset + 5] << 8);
+        transparent = bytes[offset + 3] & 1 ? bytes[offset + 6] : -1;
+      }
+      offset += 2;
+      readBlocks();
+      continue;
+    }
+
+    expect(bytes[offset]).toBe(0x2c);
+    const minCodeSize = bytes[offset + 10];
+    offset += 11;
+    const data = readBlocks();
+
+    const clear = 1 << minCodeSize;
+    let table: number[][] = [];
+    const reset = () => {
+      table = Array.from({ length: clear + 2 }, (_, i) => [i]);
+    };
+    reset();
+    let codeSize = minCodeSize + 1;
+    let previous: number[] | null = null;
+    const indices: number[] = [];
+    for (let bit = 0; bit + codeSize <= data.length * 8;) {
+      let code = 0;
+      for (let b = 0; b < codeSize; b++, bit++) {
+        code |= (data[bit >> 3] >> (bit & 7) & 1) << b;
+      }
+      if (code === clear) {
+        reset();
+        codeSize = minCodeSize + 1;
+        previous = null;
+        continue;
+      }
+      if (code === clear + 1) break;
+      const entry: number[] = code < table.length ? table[code] : [...previous!, previous![0]];
+      indices.push(...entry);
+      if (previous) table.push([...previous, entry[0]]);
+      if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+      previous = entry;
+    }
+
+    const frame = createPixelBuffer(width, height);
+    indices.forEach((index, p) => {
+      if (index !== transparent) {
+        frame.data.set([...palette.subarray(index * 3, index * 3 + 3), 255], p * 4);
+      }
+    });
+    frames.push(frame);
+  }
+  return { delays, frames };
+}
+
+describe('keyframes', () => {
+  const track = { stepIndex: 0, param: 'strideError', keyframes: evenKeyframes([-20, 20, 0]) };
+
+  it('interpolates linearly and holds the end values', () => {
+    expect(sampleTrack(track, 0)).toBe(-20);
+    expect(sampleTrack(track, 0.25)).toBe(0);
+    expect(sampleTrack(track, 0.5)).toBe(20);
+    expect(sampleTrack(track, 0.75)).toBe(10);
+    expect(sampleTrack(track, 2)).toBe(0);
+    expect(() => sampleTrack({ ...track, keyframes: [] }, 0)).toThrow(/no keyframes/);
+  });
+
+  it('writes track values into a copy of the recipe', () => {
+    const recipe: RecipeStep[] = [
+      { glitch: glitchById.get('wrong-stride')!, enabled: true, params: { strideError: 4 } },
+      { glitch: glitchById.get('gamma')!, enabled: true, params: { gamma: 2.2 } },
+    ];
+    const gamma = { stepIndex: 1, param: 'gamma', keyframes: evenKeyframes([1, 3]) };
+    const frame = recipeAt(recipe, [track, gamma], 0.5);
+    expect(frame[0].params.strideError).toBe(20);
+    expect(frame[1].params.gamma).toBe(2);
+    expect(recipe[0].params.strideError).toBe(4);
+    expect(() => recipeAt(recipe, [{ ...track, stepIndex: 5 }], 0)).toThrow(/missing step 6/);
+  });
+
+  it('spaces frames evenly and ping-pongs without repeating the ends', () => {
+    expect(frameTimes(5)).toEqual([0, 0.25, 0.5, 0.75, 1]);
+    expect(frameTimes(3, true)).toEqual([0, 0.5, 1, 0.5]);
+    expect(frameTimes(1, true)).toEqual([0]);
+  });
+});
+
+describe('encodeGif', () => {
+  it('round-trips frames with few colors exactly, with delays in centiseconds', () => {
+    const frames = [quadrants(20, 10, 0), quadrants(20, 10, 128), quadrants(20, 10, 255)];
+    const bytes = encodeGif(frames, 80);
+    expect(String.fromCharCode(...bytes.subarray(0, 6))).toBe('GIF89a');
+    expect(Buffer.from(bytes).includes('NETSCAPE2.0')).toBe(true);
+
+    const decoded = decodeGif(bytes);
+    expect(decoded.delays).toEqual([8, 8, 8]);
+    expect(decoded.frames.map(f => [...f.data])).toEqual(frames.map(f => [...f.data]));
+  });
+
+  it('survives the LZW table filling up and keeps colors close on busy images', () => {
+    const image = createSyntheticInput(160, 160);
+    const decoded = decodeGif(encodeGif([image], 100)).frames[0];
+    let error = 0;
+    let opaque = 0;
+    for (let i = 0; i < image.data.length; i += 4) {
+      if (image.data[i + 3] < 128) continue;
+      error += Math.abs(image.data[i] - decoded.data[i]) + Math.abs(image.data[i + 1] - decoded.data[i + 1]);
+      opaque++;
+    }
+    expect(error / (opaque * 2)).toBeLessThan(6);
+  });
+
+  it('makes mostly transparent pixels fully transparent', () => {
+    const frame = quadrants(4, 4, 0);
+    frame.data[3] = 10;
+    const decoded = decodeGif(encodeGif([frame], 100)).frames[0];
+    expect([...decoded.data.subarray(0, 4)]).toEqual([0, 0, 0, 0]);
+    expect([...decoded.data.subarray(4, 8)]).toEqual([255, 0, 0, 255]);
+  });
+
+  it('rejects frames of different sizes', () => {
+    expect(() => encodeGif([quadrants(4, 4, 0), quadrants(8, 4, 0)], 100)).toThrow(/same size/);
+    expect(() => encodeGif([], 100)).toThrow(/at least one frame/);
+  });
+});
+
+describe('encodeApng', () => {
+  it('writes valid chunks and stores every frame losslessly', async () => {
+    const first = createSyntheticInput(33, 17);
+    const second = quadrants(33, 17, 77);
+    second.data[3] = 100;
+    const bytes = await encodeApng([first, second], 120);
+
+    const chunks = readChunks(bytes);
+    expect(chunks.map(c => c.type)).toEqual(['IHDR', 'acTL', 'fcTL', 'IDAT', 'fcTL', 'fdAT', 'IEND']);
+    expect(chunks[1].data.readUInt32BE(0)).toBe(2);
+
+    // Sequence numbers run across fcTL and fdAT; delay is 120/1000 s
+    const secondControl = chunks[4].data;
+    expect(chunks[2].data.readUInt32BE(0)).toBe(0);
+    expect(secondControl.readUInt32BE(0)).toBe(1);
+    expect(chunks[5].data.readUInt32BE(0)).toBe(2);
+    expect([secondControl.readUInt16BE(20), secondControl.readUInt16BE(22)]).toEqual([120, 1000]);
+
+    // Viewers without APNG support see the first frame
+    expect([...PNG.sync.read(Buffer.from(bytes)).data]).toEqual([...first.data]);
+    expect([...stillPng(chunks, chunks[5].data.subarray(4)).data]).toEqual([...second.data]);
+  });
+});
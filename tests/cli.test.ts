@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { parseArgs } from '../cli/args';
+import { formatRecipe, parseRecipe } from '../src/glitches';
+
+describe('CLI arguments', () => {
+  it('reads a recipe the way the Sandbox permalink does', () => {
+    const recipe = '!half-pixel?offset=0.25%2C-0.5&useFiltering=false/premultiplied-alpha?background=%23ffa500/wrong-stride?strideError=-7';
+    const { steps } = parseArgs(['--recipe', recipe, 'in.png']);
+
+    expect(steps).toEqual(parseRecipe(recipe));
+    expect(formatRecipe(steps)).toBe(recipe);
+  });
+
+  it('combines --glitch, --param and --recipe steps in order', () => {
+    const options = parseArgs(['-g', 'wrong-stride', '-p', 'strideError=8', '-r', 'bgr-swap', '-o', 'out', 'a.png', 'b.jpg']);
+
+    expect(formatRecipe(options.steps)).toBe('wrong-stride?strideError=8/bgr-swap');
+    expect(options.inputs).toEqual(['a.png', 'b.jpg']);
+    expect(options.outDir).toBe('out');
+  });
+
+  it('rejects unknown glitches and params that permalinks would skip', () => {
+    expect(() => parseArgs(['-r', 'no-such-glitch'])).toThrow('Unknown glitch "no-such-glitch"');
+    expect(() => parseArgs(['-r', 'wrong-stride?bogus=1'])).toThrow('Glitch "wrong-stride" has no param "bogus"');
+  });
+
+  it('rejects values a permalink would replace with the default', () => {
+    expect(() => parseArgs(['-r', 'wrong-stride?strideError=99']))
+      .toThrow('Invalid value "99" for wrong-stride.strideError');
+    expect(() => parseArgs(['-r', 'half-pixel?offset=0.5'])).toThrow('expected x,y');
+    expect(() => parseArgs(['-r', 'premultiplied-alpha?background=red'])).toThrow('expected a color as #rrggbb');
+    expect(() => parseArgs(['-g', 'row-padding', '-p', 'simulateBMP=yes'])).toThrow('expected true, false, 1 or 0');
+  });
+
+  it('rejects misplaced and incomplete options', () => {
+    expect(() => parseArgs(['-p', 'strideError=8'])).toThrow('must follow a --glitch');
+    expect(() => parseArgs(['-g', 'wrong-stride', '-p', 'strideError'])).toThrow('Expected name=value');
+    expect(() => parseArgs(['--recipe'])).toThrow('Missing value for --recipe');
+    expect(() => parseArgs(['--frobnicate'])).toThrow('Unknown option --frobnicate');
+  });
+});
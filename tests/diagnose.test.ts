@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { diagnose, diagnoseGlitch, getDefaultParams, glitchById, glitches, imageError, normalizeParams } from '../src/glitches';
+import type { GlitchParams, PixelBuffer } from '../src/glitches';
+
+/** Smooth gradients with distinct channels, so every glitch leaves a mark. */
+function makeReference(width = 48, height = 32): PixelBuffer {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      data[i] = x * 5;
+      data[i + 1] = y * 7;
+      data[i + 2] = 255 - x * 2 - y * 3;
+      data[i + 3] = 255;
+    }
+  }
+  return { width, height, data };
+}
+
+function plant(id: string, params: Partial<GlitchParams>, reference: PixelBuffer): PixelBuffer {
+  const glitch = glitchById.get(id)!;
+  return glitch.apply(reference, normalizeParams(glitch, { ...getDefaultParams(glitch), ...params }));
+}
+
+describe('imageError', () => {
+  it('is 0 for identical images and 1 for black against white', () => {
+    const black = { width: 2, height: 1, data: new Uint8ClampedArray([0, 0, 0, 255, 0, 0, 0, 255]) };
+    const white = { width: 2, height: 1, data: new Uint8ClampedArray([255, 255, 255, 0, 255, 255, 255, 0]) };
+    expect(imageError(black, black)).toBe(0);
+    expect(imageError(black, white)).toBe(1);
+  });
+
+  it('rejects images of different sizes', () => {
+    expect(() => imageError(makeReference(4, 4), makeReference(4, 5))).toThrow(/differ/);
+  });
+});
+
+describe('diagnoseGlitch', () => {
+  const reference = makeReference();
+
+  it('recovers an exact byte stride error', () => {
+    const capture = plant('wrong-stride', { strideError: -12 }, reference);
+    const result = diagnoseGlitch(glitchById.get('wrong-stride')!, reference, capture);
+    expect(result.params.strideError).toBe(-12);
+    expect(result.error).toBe(0);
+  });
+
+  it('recovers per-channel shifts', () => {
+    const capture = plant('channel-shift', { redShift: 3, blueShift: -2 }, reference);
+    const result = diagnoseGlitch(glitchById.get('channel-shift')!, reference, capture);
+    expect(result.error).toBe(0);
+  });
+});
+
+describe('diagnose', () => {
+  it('ranks the planted glitch first', () => {
+    const reference = makeReference();
+    const capture = plant('alignment', { offsetBytes: 3 }, reference);
+    const ranked = diagnose(glitches, reference, capture, { passes: 1 });
+
+    expect(ranked).toHaveLength(glitches.length);
+    expect(ranked[0].glitch.id).toBe('alignment');
+    expect(ranked[0].error).toBe(0);
+    expect(ranked[1].error).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,156 @@
+import { describe, expect, it } from 'vitest';
+import { getDefaultParams, glitchById, glitches, GlitchPipeline, imageError, normalizeParams } from '../src/glitches';
+import type { GlitchDefinition, GlitchParams, GlitchProducer, PixelBuffer } from '../src/glitches';
+import { createSyntheticInput } from './golden/harness';
+
+const image = createSyntheticInput(64, 64);
+
+/** 3-byte formats carry no alpha, so reading them correctly gives opaque pixels. */
+function readsRgb(glitch: GlitchDefinition, params: GlitchParams): boolean {
+  return glitch.id === 'rgb-as-rgba' || (glitch.id === 'row-padding' && params.simulateBMP === true);
+}
+
+/** Pixels whose alpha is not `expected`'s; `imageError` only compares RGB. */
+function alphaMismatches(expected: PixelBuffer, actual: PixelBuffer, opaque: boolean): number {
+  let count = 0;
+  for (let i = 3; i < actual.data.length; i += 4) {
+    if (actual.data[i] !== (opaque ? 255 : expected.data[i])) count++;
+  }
+  return count;
+}
+
+/** Defaults, presets and every select option, so each mode's fix is exercised. */
+function paramSets(glitch: GlitchDefinition): GlitchParams[] {
+  const defaults = getDefaultParams(glitch);
+  const sets = [defaults, ...(glitch.presets ?? []).map(preset => normalizeParams(glitch, preset.params))];
+  for (const param of glitch.params) {
+    if (param.type !== 'select') continue;
+    for (const option of param.options) {
+      sets.push({ ...defaults, [param.name]: option.value });
+    }
+  }
+  return sets;
+}
+
+describe('fix', () => {
+  const approximate = new Map([
+    // Higher quality is still block compression
+    ['compression', 0.02],
+    // The correct composite still blends translucent pixels with the background
+    ['premultiplied-alpha', 0.1],
+  ]);
+
+  it.each(glitches.filter(g => !approximate.has(g.id)).map(g => g.id))(
+    '%s restores the input exactly in every mode',
+    (id) => {
+      const glitch = glitchById.get(id)!;
+      let differsFromBug = false;
+      for (const params of paramSets(glitch)) {
+        const fixed = glitch.fix(image, params);
+        expect(imageError(image, fixed), JSON.stringify(params)).toBe(0);
+        expect(alphaMismatches(image, fixed, readsRgb(glitch, params)), JSON.stringify(params)).toBe(0);
+        differsFromBug ||= imageError(fixed, glitch.apply(image, params)) > 0;
+      }
+      // Otherwise the restore above would say nothing about the fixed path
+      expect(differsFromBug).toBe(true);
+    }
+  );
+
+  it.each([...approximate])('%s gets within %s of the input', (id, tolerance) => {
+    const glitch = glitchById.get(id)!;
+    for (const params of paramSets(glitch)) {
+      const error = imageError(image, glitch.fix(image, params));
+      expect(error).toBeLessThan(tolerance);
+      expect(error).toBeLessThan(imageError(image, glitch.apply(image, params)));
+    }
+  });
+
+  it('composites opaque pixels unchanged when alpha is handled correctly', () => {
+    const opaque = createSyntheticInput(16, 16);
+    for (let i = 3; i < opaque.data.length; i += 4) opaque.data[i] = 255;
+    const premultipliedAlpha = glitchById.get('premultiplied-alpha')!;
+    expect(imageError(opaque, premultipliedAlpha.fix(opaque, getDefaultParams(premultipliedAlpha)))).toBe(0);
+  });
+
+  it('takes every step of a pipeline down its fixed path', () => {
+    const pipeline = new GlitchPipeline();
+    pipeline.add(glitchById.get('wrong-stride')!, { strideError: 8 });
+    pipeline.add(glitchById.get('bgr-swap')!);
+    pipeline.add(glitchById.get('gamma')!);
+
+    expect(imageError(image, pipeline.run(image))).toBeGreaterThan(0.1);
+    expect(imageError(image, pipeline.fix(image))).toBe(0);
+  });
+});
+
+describe('producer', () => {
+  /** The glitch's producer, which every glitch in these tests has. */
+  function producerOf(id: string): GlitchProducer {
+    const producer = glitchById.get(id)!.producer;
+    if (!producer) throw new Error(`${id} has no producer`);
+    return producer;
+  }
+
+  /** Reads `bytes` as a 2x2 image, the way the glitch's fix would. */
+  function read(id: string, bytes: Uint8Array, params: GlitchParams): number[] {
+    const glitch = glitchById.get(id)!;
+    return Array.from(producerOf(id).read(bytes, 2, 2, normalizeParams(glitch, params)).data);
+  }
+
+  it.each(glitches.filter(g => g.producer).map(g => g.id))('%s reads back what it wrote in every mode', (id) => {
+    const glitch = glitchById.get(id)!;
+    const producer = producerOf(id);
+    for (const params of paramSets(glitch)) {
+      const bytes = producer.write(image, params);
+      const restored = producer.read(bytes, image.width, image.height, params);
+      expect(imageError(image, restored), JSON.stringify(params)).toBe(0);
+      expect(alphaMismatches(image, restored, readsRgb(glitch, params)), JSON.stringify(params)).toBe(0);
+    }
+  });
+
+  // Hand-built bytes, so an identity copy of the input can't pass
+  const pixels = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100, 110, 120, 130, 140, 150, 160];
+
+  it('steps over row padding', () => {
+    const pad = [0xee, 0xee];
+    const row0 = pixels.slice(0, 8);
+    const row1 = pixels.slice(8);
+    const padded = new Uint8Array([...row0, ...pad, ...row1, ...pad]);
+    expect(read('row-padding', padded, { paddingBytes: 2, simulateBMP: false })).toEqual(pixels);
+    expect(read('wrong-stride', padded, { strideError: 2 })).toEqual(pixels);
+
+    // BMP: 6 bytes of RGB per row, rounded up to 8
+    const bmp = new Uint8Array([10, 20, 30, 50, 60, 70, 0xee, 0xee, 90, 100, 110, 130, 140, 150, 0xee, 0xee]);
+    expect(read('row-padding', bmp, { simulateBMP: true }))
+      .toEqual([10, 20, 30, 255, 50, 60, 70, 255, 90, 100, 110, 255, 130, 140, 150, 255]);
+  });
+
+  it('copies each row from its own pitch', () => {
+    // pitchMultiplier 1.5: 12-byte rows holding 8 bytes of pixels
+    const pitched = new Uint8Array([...pixels.slice(0, 8), 1, 2, 3, 4, ...pixels.slice(8), 5, 6, 7, 8]);
+    expect(read('wrong-pitch', pitched, { pitchMultiplier: 1.5 })).toEqual(pixels);
+  });
+
+  it('scales 16-bit samples down by their high byte', () => {
+    const bytes = new Uint8Array(32);
+    const view = new DataView(bytes.buffer);
+    pixels.forEach((value, i) => view.setUint16(i * 2, value * 256 + 0xff, true));
+    expect(read('bit-depth', bytes, {})).toEqual(pixels);
+  });
+
+  it('guards NaN, Infinity and out-of-range floats', () => {
+    const floats = [NaN, Infinity, -Infinity, 1, -0.5, 2, 0.5, 1, ...Array(8).fill(0)];
+    const bytes = new Uint8Array(64);
+    const view = new DataView(bytes.buffer);
+    floats.forEach((value, i) => view.setFloat32(i * 4, value, true));
+    expect(read('float-precision', bytes, {}).slice(0, 8)).toEqual([0, 0, 0, 255, 0, 255, 128, 255]);
+  });
+
+  it('reads signed channels as signed and alpha as unsigned', () => {
+    const bytes = new Uint8Array(16);
+    const signed = new Int8Array(bytes.buffer);
+    signed.set([-128, 0, 127, -1]);
+    expect(read('signed-unsigned', bytes, { mode: 'normalize-to-signed' }).slice(0, 4)).toEqual([0, 128, 255, 255]);
+    expect(read('signed-unsigned', bytes, { mode: 'unsigned-as-signed' }).slice(0, 4)).toEqual([128, 0, 127, 255]);
+  });
+});
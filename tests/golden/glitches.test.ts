@@ -0,0 +1,54 @@
+import { existsSync } from 'node:fs';
+import { mkdir } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { describe, expect, it } from 'vitest';
+import { glitches } from '../../src/glitches';
+import { readImage, writePng } from '../../cli/image-io';
+import { compareImages, createSyntheticInput, goldenCases } from './harness';
+
+const GOLDEN_DIR = join(dirname(fileURLToPath(import.meta.url)), 'fixtures');
+const RESULTS_DIR = join(dirname(fileURLToPath(import.meta.url)), '../../test-results/golden');
+const UPDATE = process.env.UPDATE_GOLDENS === '1';
+
+// Non-square and not a multiple of 16, so aspect, tiling and block edge cases show up
+const INPUT_WIDTH = 40;
+const INPUT_HEIGHT = 28;
+
+// Allows for float rounding differences between JS engines
+const CHANNEL_TOLERANCE = 1;
+
+const input = createSyntheticInput(INPUT_WIDTH, INPUT_HEIGHT);
+
+describe.each(glitches.map(g => [g.id, g] as const))('%s', (_id, glitch) => {
+  it.each(goldenCases(glitch).map(c => [c.name, c] as const))('matches golden output: %s', async (_name, testCase) => {
+    const actual = glitch.apply(input, testCase.params);
+    const goldenPath = join(GOLDEN_DIR, glitch.id, `${testCase.name}.png`);
+
+    if (UPDATE) {
+      await mkdir(dirname(goldenPath), { recursive: true });
+      await writePng(goldenPath, actual);
+      return;
+    }
+
+    if (!existsSync(goldenPath)) {
+      throw new Error(`Missing golden ${goldenPath}. Run "npm run test:update-goldens" to create it.`);
+    }
+
+    const expected = await readImage(goldenPath);
+    const { mismatched, maxDelta, diff } = compareImages(actual, expected, CHANNEL_TOLERANCE);
+
+    if (mismatched > 0) {
+      const base = join(RESULTS_DIR, glitch.id, testCase.name);
+      await mkdir(dirname(base), { recursive: true });
+      await writePng(`${base}.actual.png`, actual);
+      await writePng(`${base}.expected.png`, expected);
+      await writePng(`${base}.diff.png`, diff);
+    }
+
+    expect(
+      mismatched,
+      `${mismatched} pixel(s) differ (max channel delta ${maxDelta}); see test-results/golden/${glitch.id}/${testCase.name}.diff.png`
+    ).toBe(0);
+  });
+});
@@ -0,0 +1,123 @@
+import { createPixelBuffer, getDefaultParams, paramValuesEqual } from '../../src/glitches';
+import type { GlitchDefinition, GlitchParams, ParamDefinition, ParamValue, PixelBuffer } from '../../src/glitches';
+
+export interface GoldenCase {
+  name: string;
+  params: GlitchParams;
+}
+
+export interface ImageComparison {
+  /** Pixels where any channel differs by more than the tolerance. */
+  mismatched: number;
+  maxDelta: number;
+  /** Greyscale copy of the expected image with mismatches painted red. */
+  diff: PixelBuffer;
+}
+
+/**
+ * Deterministic RGBA input that exercises what the glitches care about:
+ * smooth ramps for quantization and gamma, hard edges for sampling and
+ * stride shear, and an alpha ramp for premultiplication.
+ */
+export function createSyntheticInput(width: number, height: number): PixelBuffer {
+  const image = createPixelBuffer(width, height);
+  const { data } = image;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const checker = ((x >> 2) + (y >> 2)) % 2 === 0;
+
+      data[i] = Math.round((x / (width - 1)) * 255);
+      data[i + 1] = Math.round((y / (height - 1)) * 255);
+      data[i + 2] = checker ? 220 : 40;
+      data[i + 3] = y < height / 2 ? 255 : Math.round((x / (width - 1)) * 255);
+    }
+  }
+
+  return image;
+}
+
+function sampleRange(min: number, max: number, step: number): number[] {
+  const mid = min + Math.round((max - min) / 2 / step) * step;
+  // Round away float noise from the step arithmetic (e.g. 0.30000000000000004)
+  return [min, Number(mid.toFixed(6)), max];
+}
+
+function sampleParam(param: ParamDefinition): ParamValue[] {
+  switch (param.type) {
+    case 'range':
+    case 'integer':
+      return sampleRange(param.min, param.max, param.step ?? 1);
+    case 'boolean':
+      return [true, false];
+    case 'color':
+      return ['#000000', '#ffffff', '#ff8000'];
+    case 'vec2': {
+      const [min, mid, max] = sampleRange(param.min, param.max, param.step ?? 1);
+      return [[min, min], [mid, mid], [max, min]];
+    }
+    case 'select':
+      return param.options.map(o => o.value);
+  }
+}
+
+function slug(value: ParamValue): string {
+  return String(value).replace(/[^A-Za-z0-9.-]+/g, '_').replace(/^_|_$/g, '');
+}
+
+/**
+ * The defaults plus one case per sampled value of each param, varied one at a
+ * time. A full cartesian product would explode for glitches with four params.
+ */
+export function goldenCases(glitch: GlitchDefinition): GoldenCase[] {
+  const defaults = getDefaultParams(glitch);
+  const cases: GoldenCase[] = [{ name: 'default', params: defaults }];
+
+  for (const param of glitch.params) {
+    for (const value of sampleParam(param)) {
+      if (paramValuesEqual(value, param.default)) continue;
+      cases.push({
+        name: `${param.name}=${slug(value)}`,
+        params: { ...defaults, [param.name]: value },
+      });
+    }
+  }
+
+  return cases;
+}
+
+export function compareImages(actual: PixelBuffer, expected: PixelBuffer, tolerance: number): ImageComparison {
+  if (actual.width !== expected.width || actual.height !== expected.height) {
+    throw new Error(
+      `Size mismatch: got ${actual.width}x${actual.height}, expected ${expected.width}x${expected.height}`
+    );
+  }
+
+  const diff = createPixelBuffer(expected.width, expected.height);
+  let mismatched = 0;
+  let maxDelta = 0;
+
+  for (let i = 0; i < expected.data.length; i += 4) {
+    let delta = 0;
+    for (let c = 0; c < 4; c++) {
+      delta = Math.max(delta, Math.abs(actual.data[i + c] - expected.data[i + c]));
+    }
+    maxDelta = Math.max(maxDelta, delta);
+
+    if (delta > tolerance) {
+      mismatched++;
+      diff.data[i] = 255;
+      diff.data[i + 1] = 0;
+      diff.data[i + 2] = 0;
+    } else {
+      const grey = Math.round((expected.data[i] + expected.data[i + 1] + expected.data[i + 2]) / 3 * 0.4);
+      diff.data[i] = grey;
+      diff.data[i + 1] = grey;
+      diff.data[i + 2] = grey;
+    }
+    diff.data[i + 3] = 255;
+  }
+
+  return { mismatched, maxDelta, diff };
+}
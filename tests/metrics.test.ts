@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+import {
+  amplifyDifference,
+  ciede2000,
+  clonePixelBuffer,
+  diffHeatmap,
+  glitchById,
+  getDefaultParams,
+  measureImages,
+  psnr,
+  rgbToLab,
+  ssim,
+} from '../src/glitches';
+import { createSyntheticInput } from './golden/harness';
+
+const image = createSyntheticInput(64, 64);
+
+function brighten(amount: number) {
+  const copy = clonePixelBuffer(image);
+  for (let i = 0; i < copy.data.length; i += 4) {
+    copy.data[i] += amount;
+    copy.data[i + 1] += amount;
+    copy.data[i + 2] += amount;
+  }
+  return copy;
+}
+
+describe('metrics', () => {
+  it('reports identical images as a perfect match', () => {
+    const metrics = measureImages(image, clonePixelBuffer(image));
+    expect(metrics.psnr).toBe(Infinity);
+    expect(metrics.ssim).toBe(1);
+    expect(metrics.deltaE).toEqual({ mean: 0, max: 0 });
+    expect(metrics.channels.r).toEqual({ mean: 0, max: 0 });
+  });
+
+  it('computes PSNR from the RGB mean squared error', () => {
+    const a = { width: 1, height: 1, data: new Uint8ClampedArray([100, 100, 100, 255]) };
+    const b = { width: 1, height: 1, data: new Uint8ClampedArray([110, 90, 100, 255]) };
+    // MSE = (100 + 100 + 0) / 3
+    expect(psnr(a, b)).toBeCloseTo(10 * Math.log10(255 * 255 / (200 / 3)), 10);
+  });
+
+  it('reports per-channel errors separately', () => {
+    const shifted = clonePixelBuffer(image);
+    shifted.data[0] = shifted.data[0] > 127 ? shifted.data[0] - 40 : shifted.data[0] + 40;
+    const { channels } = measureImages(image, shifted);
+    expect(channels.r.max).toBe(40);
+    expect(channels.r.mean).toBeCloseTo(40 / (64 * 64), 10);
+    expect(channels.g.max).toBe(0);
+    expect(channels.a.max).toBe(0);
+  });
+
+  it('matches the CIEDE2000 reference pairs', () => {
+    // From Sharma, Wu and Dalal's test data
+    expect(ciede2000([50, 2.6772, -79.7751], [50, 0, -82.7485])).toBeCloseTo(2.0425, 4);
+    expect(ciede2000([50, 2.5, 0], [73, 25, -18])).toBeCloseTo(27.1492, 4);
+    expect(ciede2000([2.0776, 0.0795, -1.135], [0.9033, -0.0636, -0.5514])).toBeCloseTo(0.9082, 4);
+  });
+
+  it('converts sRGB white and black to the ends of CIELAB', () => {
+    const white = rgbToLab(255, 255, 255);
+    expect(white[0]).toBeCloseTo(100, 2);
+    expect(Math.abs(white[1])).toBeLessThan(0.01);
+    expect(Math.abs(white[2])).toBeLessThan(0.01);
+    expect(rgbToLab(0, 0, 0)).toEqual([0, 0, 0]);
+  });
+
+  it('ranks a subtle glitch closer than an obvious one', () => {
+    const halfPixel = glitchById.get('half-pixel')!;
+    const bgrSwap = glitchById.get('bgr-swap')!;
+    const subtle = measureImages(image, halfPixel.apply(image, getDefaultParams(halfPixel)));
+    const obvious = measureImages(image, bgrSwap.apply(image, getDefaultParams(bgrSwap)));
+    expect(subtle.psnr).toBeGreaterThan(obvious.psnr);
+    expect(subtle.deltaE.mean).toBeLessThan(obvious.deltaE.mean);
+    expect(ssim(image, brighten(2))).toBeGreaterThan(0.99);
+  });
+
+  it('draws identical pixels black in the heatmap and the largest difference brightest', () => {
+    const changed = clonePixelBuffer(image);
+    changed.data[0] = changed.data[0] > 127 ? 0 : 255;
+    const heatmap = diffHeatmap(image, changed);
+    expect([...heatmap.data.slice(0, 4)]).toEqual([252, 253, 191, 255]);
+    expect([...heatmap.data.slice(4, 8)]).toEqual([0, 0, 0, 255]);
+  });
+
+  it('amplifies signed differences around mid-grey', () => {
+    const amplified = amplifyDifference(image, brighten(2), 10);
+    const unchanged = amplifyDifference(image, image, 10);
+    expect(unchanged.data[0]).toBe(128);
+    // Channels already at 255 cannot brighten, so check one that could
+    const i = [...image.data].findIndex((v, index) => index % 4 === 0 && v < 250);
+    expect(amplified.data[i]).toBe(148);
+  });
+
+  it('rejects images of different sizes', () => {
+    expect(() => measureImages(image, createSyntheticInput(32, 32))).toThrow(/sizes differ/);
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatGridValue,
+  getDefaultParams,
+  glitches,
+  glitchById,
+  gridValues,
+  isParamVisible,
+  lintGlitchDefinition,
+  lintRegistry,
+  normalizeParams,
+  paramGrid,
+} from '../src/glitches';
+import type { GlitchDefinition } from '../src/glitches';
+
+describe('normalizeParams', () => {
+  const wrongStride = glitchById.get('wrong-stride')!;
+  const compression = glitchById.get('compression')!;
+  const swizzle = glitchById.get('swizzle')!;
+
+  it('keeps a legitimate zero instead of replacing it with the default', () => {
+    expect(normalizeParams(wrongStride, { strideError: 0 })).toEqual({ strideError: 0 });
+  });
+
+  it('fills missing params and drops unknown ones', () => {
+    expect(normalizeParams(wrongStride, { bogus: 3 })).toEqual({ strideError: 4 });
+  });
+
+  it('clamps and coerces ranges', () => {
+    expect(normalizeParams(wrongStride, { strideError: 99 }).strideError).toBe(20);
+    expect(normalizeParams(wrongStride, { strideError: '-7' }).strideError).toBe(-7);
+    expect(normalizeParams(wrongStride, { strideError: 'abc' }).strideError).toBe(4);
+  });
+
+  it('falls back to the default for unknown select options', () => {
+    expect(normalizeParams(compression, { blockSize: 3 }).blockSize).toBe(8);
+  });
+
+  it('matches select values by their string form', () => {
+    expect(normalizeParams(compression, { blockSize: '16' }).blockSize).toBe(16);
+  });
+
+  it('coerces boolean strings', () => {
+    expect(normalizeParams(swizzle, { inverse: 'true' }).inverse).toBe(true);
+    expect(normalizeParams(swizzle, { inverse: '0' }).inverse).toBe(false);
+  });
+
+  it('rounds integers', () => {
+    expect(normalizeParams(wrongStride, { strideError: 2.6 }).strideError).toBe(3);
+  });
+
+  it('parses and clamps vec2 components', () => {
+    const halfPixel = glitchById.get('half-pixel')!;
+    expect(normalizeParams(halfPixel, { offset: '0.25,-3' }).offset).toEqual([0.25, -1]);
+    expect(normalizeParams(halfPixel, { offset: 'oops' }).offset).toEqual([0.5, 0.5]);
+  });
+
+  it('accepts only #rrggbb colors', () => {
+    const premultiplied = glitchById.get('premultiplied-alpha')!;
+    expect(normalizeParams(premultiplied, { background: '#FF8000' }).background).toBe('#ff8000');
+    expect(normalizeParams(premultiplied, { background: 'red' }).background).toBe('#808080');
+  });
+});
+
+describe('isParamVisible', () => {
+  it('follows visibleWhen rules', () => {
+    const aspectRatio = glitchById.get('aspect-ratio')!;
+    const scaleX = aspectRatio.params.find(p => p.name === 'scaleX')!;
+    const mode = aspectRatio.params.find(p => p.name === 'mode')!;
+
+    expect(isParamVisible(scaleX, { mode: 'swap-width-height' })).toBe(false);
+    expect(isParamVisible(scaleX, { mode: 'wrong-aspect-scale' })).toBe(true);
+    expect(isParamVisible(mode, {})).toBe(true);
+  });
+});
+
+describe('paramGrid', () => {
+  const compression = glitchById.get('compression')!;
+  const swizzle = glitchById.get('swizzle')!;
+  const param = (glitch: GlitchDefinition, name: string) => glitch.params.find(p => p.name === name)!;
+
+  it('spaces numeric values evenly, by ratio on log sliders', () => {
+    expect(gridValues(param(compression, 'quality'), 4)).toEqual([1, 4, 7, 10]);
+    expect(gridValues(param(glitchById.get('wrong-pitch')!, 'pitchMultiplier'), 3)).toEqual([0.5, 1, 2]);
+    // Snapping to integer steps can collapse neighbours; each value appears once
+    expect(gridValues(param(compression, 'quality'), 20)).toHaveLength(10);
+  });
+
+  it('takes every option of a select and both states of a boolean', () => {
+    expect(gridValues(param(swizzle, 'pattern'), 3)).toEqual(['morton', 'tiled-8x8', 'tiled-4x4', 'interleaved-rows']);
+    expect(gridValues(param(swizzle, 'inverse'), 3)).toEqual([false, true]);
+    expect(formatGridValue(param(compression, 'blockSize'), 8)).toBe('8x8 (JPEG)');
+    expect(formatGridValue(param(swizzle, 'inverse'), true)).toBe('on');
+  });
+
+  it('crosses the row and column values over the base params', () => {
+    const grid = paramGrid(compression, 'blockSize', 'quality', 3, getDefaultParams(compression));
+    expect(grid.rows).toEqual([4, 8, 16]);
+    expect(grid.columns).toEqual([1, 6, 10]);
+    expect(grid.cells).toHaveLength(3);
+    expect(grid.cells[2][1]).toEqual({ ...getDefaultParams(compression), blockSize: 16, quality: 6 });
+  });
+
+  it('makes a single strip when one axis is left empty', () => {
+    const grid = paramGrid(swizzle, null, 'pattern', 5, getDefaultParams(swizzle));
+    expect(grid.rowParam).toBeNull();
+    expect(grid.cells).toHaveLength(1);
+    expect(grid.cells[0].map(cell => cell.pattern)).toEqual(grid.columns);
+    expect(() => paramGrid(swizzle, 'bogus', null, 3, {})).toThrow(/no param named bogus/);
+  });
+});
+
+describe('lintRegistry', () => {
+  it('finds no problems in the shipped glitches', () => {
+    expect(lintRegistry(glitches)).toEqual([]);
+  });
+
+  it('reports inconsistent definitions', () => {
+    const broken: GlitchDefinition = {
+      ...glitchById.get('compression')!,
+      params: [
+        { name: 'quality', type: 'range', min: 1, max: 10, default: 0, description: '' },
+        { name: 'blockSize', type: 'select', options: [{ value: 4, label: '4x4' }], default: 8, description: '' },
+      ],
+    };
+
+    expect(lintRegistry([broken, broken])).toEqual([
+      'compression.quality: default 0 is outside [1, 10]',
+      'compression.blockSize: default "8" is not one of its options',
+      'compression: duplicate glitch id',
+      'compression.quality: default 0 is outside [1, 10]',
+      'compression.blockSize: default "8" is not one of its options',
+    ]);
+  });
+
+  it('reports presets with duplicate names, unknown params or invalid values', () => {
+    const broken: GlitchDefinition = {
+      ...glitchById.get('compression')!,
+      presets: [
+        { name: 'Crunchy', params: { quality: 1 } },
+        { name: 'Crunchy', params: { quality: 2 } },
+        { name: 'Typo', params: { qualty: 5 } },
+        { name: 'Too high', params: { quality: 11 } },
+        { name: 'Fractional', params: { quality: 2.5 } },
+        { name: 'No such block', params: { blockSize: 3 } },
+      ],
+    };
+
+    expect(lintGlitchDefinition(broken)).toEqual([
+      'compression preset "Crunchy": duplicate preset name',
+      'compression preset "Typo": unknown param "qualty"',
+      'compression preset "Too high": invalid value 11 for "quality"',
+      'compression preset "Fractional": invalid value 2.5 for "quality"',
+      'compression preset "No such block": invalid value 3 for "blockSize"',
+    ]);
+  });
+});
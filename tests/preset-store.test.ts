@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  deleteUserPreset,
+  exportUserPresets,
+  getUserPresets,
+  importUserPresets,
+  loadUserPresets,
+  saveUserPreset,
+} from '../src/utils/preset-store';
+
+const STORAGE_KEY = 'glitchbook.presets';
+
+/** Just enough of the Storage API for the preset store. */
+function createStorage(): Pick<Storage, 'getItem' | 'setItem' | 'removeItem' | 'clear'> {
+  const items = new Map<string, string>();
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => items.set(key, String(value)),
+    removeItem: key => items.delete(key),
+    clear: () => items.clear(),
+  };
+}
+
+describe('preset store', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', createStorage());
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('drops stored presets for unknown glitches, blank names or non-objects', () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([
+      { glitchId: 'wrong-stride', name: 'Keep', params: { strideError: 8 } },
+      { glitchId: 'no-such-glitch', name: 'Unknown', params: {} },
+      { glitchId: 'wrong-stride', name: '   ', params: {} },
+      { glitchId: 'wrong-stride', params: {} },
+      null,
+      'wrong-stride',
+    ]));
+
+    expect(loadUserPresets()).toEqual([
+      { glitchId: 'wrong-stride', name: 'Keep', params: { strideError: 8 } },
+    ]);
+  });
+
+  it('trims names and normalizes params, including ones that are not objects', () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify([
+      { glitchId: 'wrong-stride', name: '  Wide  ', params: { strideError: 99, extra: true } },
+      { glitchId: 'wrong-stride', name: 'Broken', params: 'strideError=8' },
+      { glitchId: 'wrong-stride', name: 'Missing' },
+    ]));
+
+    expect(loadUserPresets()).toEqual([
+      { glitchId: 'wrong-stride', name: 'Wide', params: { strideError: 20 } },
+      { glitchId: 'wrong-stride', name: 'Broken', params: { strideError: 4 } },
+      { glitchId: 'wrong-stride', name: 'Missing', params: { strideError: 4 } },
+    ]);
+  });
+
+  it('ignores storage it cannot parse', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    localStorage.setItem(STORAGE_KEY, '{not json');
+    expect(loadUserPresets()).toEqual([]);
+  });
+
+  it('replaces a preset saved under the same glitch and name', () => {
+    saveUserPreset({ glitchId: 'wrong-stride', name: 'Mine', params: { strideError: 2 } });
+    saveUserPreset({ glitchId: 'compression', name: 'Mine', params: { quality: 1 } });
+    saveUserPreset({ glitchId: 'wrong-stride', name: 'Mine', params: { strideError: -6 } });
+
+    expect(getUserPresets('wrong-stride')).toEqual([
+      { glitchId: 'wrong-stride', name: 'Mine', params: { strideError: -6 } },
+    ]);
+    expect(getUserPresets('compression')).toHaveLength(1);
+
+    deleteUserPreset('wrong-stride', 'Mine');
+    expect(getUserPresets('wrong-stride')).toEqual([]);
+    expect(getUserPresets('compression')).toHaveLength(1);
+  });
+
+  it('imports what it exported', () => {
+    saveUserPreset({ glitchId: 'wrong-stride', name: 'Shear', params: { strideError: 12 } });
+    saveUserPreset({ glitchId: 'compression', name: 'Crunchy', params: { quality: 1, blockSize: 4 } });
+    const exported = exportUserPresets();
+    const saved = loadUserPresets();
+
+    localStorage.clear();
+    expect(importUserPresets(exported)).toBe(2);
+    expect(loadUserPresets()).toEqual(saved);
+  });
+
+  it('merges imports, overwriting presets with the same glitch and name', () => {
+    saveUserPreset({ glitchId: 'wrong-stride', name: 'Shear', params: { strideError: 12 } });
+    saveUserPreset({ glitchId: 'wrong-stride', name: 'Other', params: { strideError: 1 } });
+
+    const imported = importUserPresets(JSON.stringify({
+      version: 1,
+      presets: [
+        { glitchId: 'wrong-stride', name: 'Shear', params: { strideError: -3 } },
+        { glitchId: 'no-such-glitch', name: 'Dropped', params: {} },
+      ],
+    }));
+
+    expect(imported).toBe(1);
+    expect(getUserPresets('wrong-stride')).toEqual([
+      { glitchId: 'wrong-stride', name: 'Other', params: { strideError: 1 } },
+      { glitchId: 'wrong-stride', name: 'Shear', params: { strideError: -3 } },
+    ]);
+  });
+
+  it('rejects files that are not JSON or have another version', () => {
+    expect(() => importUserPresets('{not json')).toThrow('Preset file is not valid JSON');
+    expect(() => importUserPresets(JSON.stringify({ version: 2, presets: [] })))
+      .toThrow('Unsupported preset file version: 2');
+    expect(() => importUserPresets(JSON.stringify({ presets: [] })))
+      .toThrow('Unsupported preset file version: undefined');
+    expect(loadUserPresets()).toEqual([]);
+  });
+
+  it('rejects JSON that is not an object', () => {
+    for (const json of ['null', '42', '"presets"', 'true']) {
+      expect(() => importUserPresets(json), json).toThrow('Preset file is not a preset export');
+    }
+    expect(loadUserPresets()).toEqual([]);
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addressMapping,
+  createPixelBuffer,
+  getDefaultParams,
+  glitchById,
+  glitches,
+  GlitchPipeline,
+  normalizeParams,
+} from '../src/glitches';
+import type { GlitchDefinition, GlitchParams } from '../src/glitches';
+
+/**
+ * Random bytes, so a wrong offset can't land on an equal value by chance the
+ * way it can in smooth ramps. Odd sizes exercise partial tiles and wrapping.
+ */
+function createNoise(width: number, height: number): ReturnType<typeof createPixelBuffer> {
+  const image = createPixelBuffer(width, height);
+  let seed = 12345;
+  for (let i = 0; i < image.data.length; i++) {
+    seed = (seed * 1103515245 + 12345) >>> 0;
+    image.data[i] = seed >>> 24;
+  }
+  return image;
+}
+
+const image = createNoise(37, 29);
+
+/** Defaults, presets and every select option, at full intensity so nothing is blended. */
+function paramSets(glitch: GlitchDefinition): GlitchParams[] {
+  const defaults = getDefaultParams(glitch);
+  const sets = [defaults, ...(glitch.presets ?? []).map(preset => normalizeParams(glitch, preset.params))];
+  for (const param of glitch.params) {
+    if (param.type !== 'select') continue;
+    for (const option of param.options) {
+      sets.push({ ...defaults, [param.name]: option.value });
+    }
+  }
+  return sets.map(params => 'intensity' in params ? { ...params, intensity: 1 } : params);
+}
+
+describe('provenance', () => {
+  it.each(glitches.filter(g => g.provenance).map(g => g.id))('%s agrees with apply for every pixel', (id) => {
+    const glitch = glitchById.get(id)!;
+    const { width, height } = image;
+    for (const params of paramSets(glitch)) {
+      const output = glitch.apply(image, params);
+      for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+          const { sources } = glitch.provenance!(x, y, width, height, params);
+          sources.forEach((source, c) => {
+            if (source === null) return;
+            const at = `${JSON.stringify(params)} (${x}, ${y}) channel ${c}`;
+            expect(output.data[(y * width + x) * 4 + c], at).toBe(image.data[source]);
+          });
+        }
+      }
+    }
+  });
+
+  it.each(glitches.filter(g => g.readStride).map(g => g.id))('%s starts each row at its read stride', (id) => {
+    const glitch = glitchById.get(id)!;
+    const { width, height } = image;
+    for (const params of paramSets(glitch)) {
+      const read = glitch.readStride!(width, params);
+      if (!read) continue;
+      for (let y = 0; y < 4; y++) {
+        const [start] = glitch.provenance!(0, y, width, height, params).sources;
+        // The BMP read snaps to whole RGBA pixels, so compare pixel indices
+        expect(Math.floor(start! / 4), `${JSON.stringify(params)} row ${y}`).toBe(Math.floor(y * read.stride / 4));
+      }
+    }
+  });
+
+  it('fills the formula with the pixel\'s own numbers', () => {
+    const wrongStride = glitchById.get('wrong-stride')!;
+    const { sources, formula } = wrongStride.provenance!(7, 12, 600, 400, { strideError: 8 });
+    expect(formula).toBe('y * wrongStride + x * 4 = 12 * 2408 + 7 * 4 = 28924');
+    expect(sources).toEqual([28924, 28925, 28926, null]);
+  });
+
+  it('traces a pixel back through every step of a pipeline', () => {
+    const pipeline = new GlitchPipeline();
+    pipeline.add(glitchById.get('wrong-stride')!, { strideError: 8 });
+    pipeline.add(glitchById.get('bgr-swap')!);
+    pipeline.add(glitchById.get('flipped-axis')!);
+
+    const { width, height } = image;
+    const output = pipeline.run(image);
+    for (const [x, y] of [[0, 0], [5, 3], [36, 28], [20, 14]]) {
+      const trace = pipeline.trace(x, y, width, height)!;
+      expect(trace.steps.map(traced => traced.step.glitch.id)).toEqual(['wrong-stride', 'bgr-swap', 'flipped-axis']);
+      trace.sources.forEach((source, c) => {
+        if (source !== null) expect(output.data[(y * width + x) * 4 + c]).toBe(image.data[source]);
+      });
+    }
+  });
+
+  it('stops tracing at the previewed stage and skips disabled steps', () => {
+    const pipeline = new GlitchPipeline();
+    pipeline.add(glitchById.get('bgr-swap')!);
+    pipeline.add(glitchById.get('off-by-one')!, {}, false);
+    pipeline.add(glitchById.get('gamma')!);
+
+    const trace = pipeline.trace(0, 0, image.width, image.height, 1)!;
+    expect(trace.steps.map(traced => traced.step.glitch.id)).toEqual(['bgr-swap']);
+    expect(trace.sources).toEqual([2, 1, 0, 3]);
+  });
+
+  it('cannot trace through a step that computes new values', () => {
+    const pipeline = new GlitchPipeline();
+    pipeline.add(glitchById.get('bgr-swap')!);
+    pipeline.add(glitchById.get('gamma')!);
+    expect(pipeline.trace(0, 0, image.width, image.height)).toBeNull();
+  });
+
+  it('walks the read loop row by row, one pixel per iteration', () => {
+    const wrongStride = glitchById.get('wrong-stride')!;
+    const reads = [...addressMapping(wrongStride, 5, 3, { strideError: 4 })!];
+    expect(reads).toHaveLength(15);
+    expect(reads.map(read => [read.x, read.y]).slice(0, 6)).toEqual([[0, 0], [1, 0], [2, 0], [3, 0], [4, 0], [0, 1]]);
+    expect(reads[5]).toMatchObject({ index: 5, sources: [24, 25, 26, null] });
+  });
+
+  it('has no read loop for glitches that compute their pixels', () => {
+    const gamma = glitchById.get('gamma')!;
+    expect(addressMapping(gamma, 5, 3, getDefaultParams(gamma))).toBeNull();
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, expect, it } from 'vitest';
+import { glitchById } from '../src/glitches';
+import { createPixelBuffer } from '../src/glitches';
+import {
+  analyzeRawLayout,
+  decodeRaw,
+  encodeRaw,
+  exportRaw,
+  fitHeight,
+  frameByteLength,
+  halfToFloat,
+  parseRawSidecar,
+  stepRawLayout,
+} from '../src/raw';
+import type { RawLayout } from '../src/raw';
+import { createSyntheticInput } from './golden/harness';
+
+const layout = (overrides: Partial<RawLayout>): RawLayout => ({
+  width: 2,
+  height: 1,
+  offset: 0,
+  stride: 0,
+  format: 'rgba8',
+  littleEndian: true,
+  tiling: 'linear',
+  ...overrides,
+});
+
+const pixels = (bytes: number[], overrides: Partial<RawLayout>): number[] =>
+  Array.from(decodeRaw(new Uint8Array(bytes), layout(overrides)).data);
+
+describe('decodeRaw', () => {
+  it('swaps channels for BGRA8', () => {
+    expect(pixels([1, 2, 3, 4, 5, 6, 7, 8], { format: 'bgra8' })).toEqual([3, 2, 1, 4, 7, 6, 5, 8]);
+  });
+
+  it('honours offset and stride, skipping row padding', () => {
+    // 1 byte header, then two R8 rows of 2 pixels padded to 3 bytes
+    const bytes = [99, 10, 20, 0, 30, 40, 0];
+    const out = pixels(bytes, { format: 'r8', height: 2, offset: 1, stride: 3 });
+    expect(out.filter((_, i) => i % 4 === 0)).toEqual([10, 20, 30, 40]);
+  });
+
+  it('reads RGB565 words in the requested byte order', () => {
+    // 0xF800 is pure red
+    expect(pixels([0x00, 0xf8], { format: 'rgb565', width: 1 })).toEqual([255, 0, 0, 255]);
+    expect(pixels([0xf8, 0x00], { format: 'rgb565', width: 1, littleEndian: false })).toEqual([255, 0, 0, 255]);
+    expect(pixels([0xf8, 0x00], { format: 'rgb565', width: 1 })).toEqual([0, 28, 197, 255]);
+  });
+
+  it('shares chroma across a 2x2 block for NV12', () => {
+    // 2x2 luma at video white, then one neutral UV pair
+    const out = pixels([235, 235, 235, 235, 128, 128], { format: 'nv12', height: 2 });
+    expect(out).toEqual(Array(4).fill([255, 255, 255, 255]).flat());
+  });
+
+  it('leaves pixels past the end of the buffer transparent', () => {
+    expect(pixels([1, 2, 3, 4], {})).toEqual([1, 2, 3, 4, 0, 0, 0, 0]);
+  });
+});
+
+describe('raw layout helpers', () => {
+  it('counts chroma planes in the frame size', () => {
+    expect(frameByteLength(layout({ format: 'i420', width: 4, height: 4 }))).toBe(24);
+    expect(frameByteLength(layout({ format: 'rgb8', width: 4, height: 4, stride: 16 }))).toBe(64);
+  });
+
+  it('fits the height to the bytes after the offset', () => {
+    expect(fitHeight(1000, { width: 10, offset: 40, stride: 0, format: 'rgba8', littleEndian: true, tiling: 'linear' })).toBe(24);
+  });
+
+  it('decodes half floats', () => {
+    expect(halfToFloat(0x3c00)).toBe(1);
+    expect(halfToFloat(0x3800)).toBe(0.5);
+    expect(halfToFloat(0xc000)).toBe(-2);
+  });
+});
+
+describe('encodeRaw', () => {
+  const image = createSyntheticInput(10, 6);
+
+  it.each<Partial<RawLayout>>([
+    { format: 'rgba8', stride: 44 },
+    { format: 'bgra8', offset: 3 },
+    { format: 'rgba8888', littleEndian: true },
+    { format: 'rgba16x2', littleEndian: false },
+    { format: 'rgba8', tiling: 'morton' },
+    { format: 'argb8', tiling: 'tiled-4x4' },
+    { format: 'rgba8', tiling: 'interleaved-rows' },
+  ])('round-trips losslessly through decodeRaw (%o)', (overrides) => {
+    const target = layout({ width: 10, height: 6, ...overrides });
+    const decoded = decodeRaw(encodeRaw(image, target), target);
+    expect(Array.from(decoded.data)).toEqual(Array.from(image.data));
+  });
+
+  it('writes swapped words for the endianness glitch layout', () => {
+    const target = layout({ width: 1, format: 'rgba8888' });
+    const pixel = { width: 1, height: 1, data: new Uint8ClampedArray([1, 2, 3, 4]) };
+    expect(Array.from(encodeRaw(pixel, target))).toEqual([4, 3, 2, 1]);
+  });
+
+  it('rejects decode-only formats', () => {
+    expect(() => encodeRaw(image, layout({ width: 10, height: 6, format: 'nv12' }))).toThrow(/not supported/);
+  });
+});
+
+describe('raw export', () => {
+  it('pads BMP rows and describes them in the sidecar', () => {
+    const rowPadding = glitchById.get('row-padding')!;
+    const step = { glitch: rowPadding, params: { paddingBytes: 4, simulateBMP: true }, enabled: true };
+    const target = stepRawLayout(step, 5, 2)!;
+    const { bytes, sidecar } = exportRaw(createSyntheticInput(5, 2), target, 'row-padding?simulateBMP=true');
+
+    expect(sidecar).toMatchObject({ width: 5, height: 2, stride: 16, format: 'bgr8', byteOrder: 'little' });
+    expect(bytes.byteLength).toBe(32);
+    expect(parseRawSidecar(JSON.stringify(sidecar))).toEqual({ ...target, stride: 16 });
+  });
+
+  it('has no layout for disabled steps or layout-neutral params', () => {
+    const swizzle = glitchById.get('swizzle')!;
+    expect(stepRawLayout({ glitch: swizzle, params: { pattern: 'morton', inverse: false }, enabled: false }, 4, 4)).toBeNull();
+    expect(stepRawLayout({ glitch: swizzle, params: { pattern: 'morton', inverse: true }, enabled: true }, 4, 4)).toBeNull();
+  });
+
+  it('rejects malformed sidecars', () => {
+    expect(() => parseRawSidecar('{"version":1,"width":4,"height":4,"format":"rgb9","byteOrder":"little"}'))
+      .toThrow(/Unknown raw format/);
+    expect(() => parseRawSidecar('{"version":2}')).toThrow(/version 1/);
+  });
+});
+
+describe('analyzeRawLayout', () => {
+  // Smooth, photo-like content: the analyzer's heuristics assume natural images
+  const width = 96;
+  const height = 64;
+  const image = createPixelBuffer(width, height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const ring = Math.hypot(x - 40, y - 30);
+      image.data[i] = x * 2 + 40;
+      image.data[i + 1] = 128 + Math.round(100 * Math.cos(ring / 6));
+      image.data[i + 2] = x + y * 2;
+      image.data[i + 3] = 255;
+    }
+  }
+
+  it.each<Partial<RawLayout>>([
+    { format: 'rgba8', stride: 0 },
+    { format: 'rgba8', stride: 96 * 4 + 64 },
+    { format: 'rgb8', stride: 96 * 3 + 2 },
+    { format: 'rgba8', offset: 3, stride: 96 * 4 },
+    { format: 'bgra8', stride: 96 * 4 },
+    { format: 'bgr8', stride: 96 * 3 + 2 },
+  ])('recovers the stride, format and offset of %o', (overrides) => {
+    const truth = layout({ width, height, ...overrides });
+    const bytes = encodeRaw(image, truth);
+    const { candidates, confidence, channelOrderKnown } = analyzeRawLayout(bytes);
+
+    expect(candidates[0].layout).toMatchObject({
+      format: truth.format,
+      stride: overrides.stride || width * 4,
+      offset: truth.offset,
+    });
+    expect(confidence).toBeGreaterThan(0.5);
+    expect(channelOrderKnown).toBe(true);
+  });
+
+  it('reports the channel order as unknown when red and blue are balanced', () => {
+    // Red and blue mirror each other, so neither reading leans warm or cool
+    const mirrored = createPixelBuffer(width, height);
+    for (let i = 0; i < image.data.length; i += 4) {
+      mirrored.data.set([image.data[i], image.data[i + 1], 255 - image.data[i], 255], i);
+    }
+    const truth = layout({ width, height, format: 'rgba8', stride: width * 4 });
+    const { candidates, channelOrderKnown } = analyzeRawLayout(encodeRaw(mirrored, truth));
+
+    expect(candidates[0].layout).toMatchObject({ stride: width * 4, offset: 0 });
+    expect(['rgba8', 'bgra8']).toContain(candidates[0].layout.format);
+    expect(channelOrderKnown).toBe(false);
+  });
+
+  it('has little confidence in noise', () => {
+    // mulberry32: a plain LCG has lattice structure the analyzer would find
+    let seed = 1;
+    const noise = Uint8Array.from({ length: 64 * 1024 }, () => {
+      seed = (seed + 0x6d2b79f5) | 0;
+      let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+      t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+      return ((t ^ (t >>> 14)) >>> 0) & 0xff;
+    });
+    expect(analyzeRawLayout(noise).confidence).toBeLessThan(0.2);
+  });
+});
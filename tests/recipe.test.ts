@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  formatRecipe,
+  getDefaultParams,
+  glitchById,
+  parseParamValue,
+  parseRecipe,
+} from '../src/glitches';
+import type { ParamDefinition, RecipeStep } from '../src/glitches';
+
+function param(glitchId: string, name: string): ParamDefinition {
+  return glitchById.get(glitchId)!.params.find(p => p.name === name)!;
+}
+
+function step(glitchId: string, params = {}, enabled = true): RecipeStep {
+  const glitch = glitchById.get(glitchId)!;
+  return { glitch, params: { ...getDefaultParams(glitch), ...params }, enabled };
+}
+
+describe('parseParamValue', () => {
+  it('parses each param type from its text form', () => {
+    expect(parseParamValue(param('rgba-as-rgb', 'intensity'), '0.5')).toBe(0.5);
+    expect(parseParamValue(param('wrong-stride', 'strideError'), '-8')).toBe(-8);
+    expect(parseParamValue(param('row-padding', 'simulateBMP'), 'true')).toBe(true);
+    expect(parseParamValue(param('row-padding', 'simulateBMP'), '1')).toBe(true);
+    expect(parseParamValue(param('row-padding', 'simulateBMP'), 'no')).toBe(false);
+    expect(parseParamValue(param('premultiplied-alpha', 'background'), '#FFA500')).toBe('#ffa500');
+    expect(parseParamValue(param('half-pixel', 'offset'), '0.25,-1')).toEqual([0.25, -1]);
+    expect(parseParamValue(param('premultiplied-alpha', 'mode'), 'double-premultiply')).toBe('double-premultiply');
+  });
+
+  it('rejects text that is not a value of the type', () => {
+    expect(parseParamValue(param('rgba-as-rgb', 'intensity'), 'lots')).toBeUndefined();
+    expect(parseParamValue(param('wrong-stride', 'strideError'), '2.5')).toBeUndefined();
+    expect(parseParamValue(param('premultiplied-alpha', 'background'), 'orange')).toBeUndefined();
+    expect(parseParamValue(param('premultiplied-alpha', 'background'), '#fff')).toBeUndefined();
+    expect(parseParamValue(param('half-pixel', 'offset'), '0.5')).toBeUndefined();
+    expect(parseParamValue(param('half-pixel', 'offset'), '0.5,x')).toBeUndefined();
+    expect(parseParamValue(param('half-pixel', 'offset'), '1,2,3')).toBeUndefined();
+    expect(parseParamValue(param('premultiplied-alpha', 'mode'), 'no-such-mode')).toBeUndefined();
+  });
+
+  it('leaves range checks to normalizeParams', () => {
+    expect(parseParamValue(param('wrong-stride', 'strideError'), '99')).toBe(99);
+  });
+});
+
+describe('recipes', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('leaves default params out of the text', () => {
+    expect(formatRecipe([step('wrong-stride'), step('bgr-swap')])).toBe('wrong-stride/bgr-swap');
+  });
+
+  it('round-trips vec2, color, boolean and disabled steps', () => {
+    const steps = [
+      step('half-pixel', { offset: [0.25, -0.5], useFiltering: false }),
+      step('premultiplied-alpha', { background: '#ffa500', mode: 'double-premultiply' }, false),
+      step('wrong-stride', { strideError: -3 }),
+    ];
+    const text = formatRecipe(steps);
+
+    expect(text).toBe(
+      'half-pixel?offset=0.25%2C-0.5&useFiltering=false' +
+      '/!premultiplied-alpha?mode=double-premultiply&background=%23ffa500' +
+      '/wrong-stride?strideError=-3'
+    );
+    expect(parseRecipe(text)).toEqual(steps);
+  });
+
+  it('drops unknown glitches and warns about them', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(parseRecipe('no-such-glitch?x=1/bgr-swap/!also-unknown')).toEqual([step('bgr-swap')]);
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps defaults for malformed and unknown params', () => {
+    expect(parseRecipe('half-pixel?offset=left&bogus=1/premultiplied-alpha?background=red&mode=nope')).toEqual([
+      step('half-pixel'),
+      step('premultiplied-alpha'),
+    ]);
+  });
+
+  it('parses empty text and stray separators to no steps', () => {
+    expect(parseRecipe('')).toEqual([]);
+    expect(parseRecipe('//')).toEqual([]);
+    expect(parseRecipe('/bgr-swap/')).toEqual([step('bgr-swap')]);
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { checkRoundTrip, glitchById, glitches, GlitchPipeline, reportRoundTrip } from '../src/glitches';
+import { createSyntheticInput } from './golden/harness';
+
+const image = createSyntheticInput(64, 64);
+
+describe('repair', () => {
+  it.each(['bgr-swap', 'argb-order', 'endianness', 'flipped-axis', 'swizzle'])(
+    '%s round-trips exactly in every mode',
+    (id) => {
+      expect(reportRoundTrip(glitchById.get(id)!, image).reversibility).toBe('exact');
+    }
+  );
+
+  it('loses only the clamped edge columns when undoing a channel shift', () => {
+    const result = checkRoundTrip(glitchById.get('channel-shift')!, image, { redShift: 3, greenShift: 0, blueShift: 0 });
+    expect(result.reversibility).toBe('lossy');
+    // 3 columns on the right lose their red
+    expect(result.changedPixels).toBeCloseTo(3 / 64, 5);
+  });
+
+  it('is exact for wrapped off-by-one shifts only', () => {
+    const offByOne = glitchById.get('off-by-one')!;
+    expect(checkRoundTrip(offByOne, image, { xOffset: 2, yOffset: -1, wrapEdges: true }).reversibility).toBe('exact');
+    expect(checkRoundTrip(offByOne, image, { xOffset: 2, yOffset: -1, wrapEdges: false }).reversibility).toBe('lossy');
+  });
+
+  it('reports glitches without a repair as irreversible', () => {
+    const report = reportRoundTrip(glitchById.get('gamma')!, image);
+    expect(report.reversibility).toBe('irreversible');
+    expect(report.error).toBeGreaterThan(0);
+  });
+
+  it('only declares repairs that get most of the image back', () => {
+    for (const glitch of glitches.filter(g => g.repair)) {
+      expect(reportRoundTrip(glitch, image).changedPixels, glitch.id).toBeLessThan(0.2);
+    }
+  });
+});
+
+describe('GlitchPipeline.repair', () => {
+  it('undoes a stack last step first', () => {
+    const pipeline = new GlitchPipeline();
+    pipeline.add(glitchById.get('argb-order')!, { format: 'rotate-channels-left' });
+    pipeline.add(glitchById.get('flipped-axis')!, { flipMode: 'flip-horizontal' });
+    pipeline.add(glitchById.get('gamma')!, {}, false);
+
+    expect(pipeline.repair(pipeline.run(image)).data).toEqual(image.data);
+  });
+
+  it('refuses stacks with an irreversible step', () => {
+    const pipeline = new GlitchPipeline();
+    pipeline.add(glitchById.get('gamma')!);
+    expect(() => pipeline.repair(image)).toThrow(/cannot be repaired/);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { formatRecipe, getDefaultParams, glitchById, parseRecipe } from '../src/glitches';
+import type { RecipeStep } from '../src/glitches';
+import { formatRoute, parseRoute } from '../src/router';
+
+describe('routes', () => {
+  it('parses each view, with or without the leading #', () => {
+    expect(parseRoute('#gallery')).toEqual({ view: 'gallery' });
+    expect(parseRoute('diagnose')).toEqual({ view: 'diagnose' });
+    expect(parseRoute('#sandbox')).toEqual({ view: 'sandbox', recipe: '' });
+    expect(parseRoute('#sandbox/wrong-stride?strideError=8/bgr-swap'))
+      .toEqual({ view: 'sandbox', recipe: 'wrong-stride?strideError=8/bgr-swap' });
+  });
+
+  it('falls back to the gallery for empty and unknown hashes', () => {
+    expect(parseRoute('')).toEqual({ view: 'gallery' });
+    expect(parseRoute('#')).toEqual({ view: 'gallery' });
+    expect(parseRoute('#settings/whatever')).toEqual({ view: 'gallery' });
+  });
+
+  it('formats what it parses', () => {
+    for (const hash of ['#gallery', '#diagnose', '#sandbox', '#sandbox/half-pixel?offset=0.25%2C-0.5']) {
+      expect(formatRoute(parseRoute(hash))).toBe(hash);
+    }
+    expect(formatRoute({ view: 'sandbox', recipe: '' })).toBe('#sandbox');
+  });
+
+  it('carries a recipe through the URL hash', () => {
+    const premultipliedAlpha = glitchById.get('premultiplied-alpha')!;
+    const uvWrapping = glitchById.get('uv-wrapping')!;
+    const steps: RecipeStep[] = [
+      { glitch: premultipliedAlpha, params: { ...getDefaultParams(premultipliedAlpha), background: '#102030' }, enabled: true },
+      { glitch: uvWrapping, params: { ...getDefaultParams(uvWrapping), uvOffset: [0.5, 0] }, enabled: true },
+    ];
+    const route = parseRoute(formatRoute({ view: 'sandbox', recipe: formatRecipe(steps) }));
+
+    expect(route.view).toBe('sandbox');
+    expect(route.view === 'sandbox' && parseRecipe(route.recipe)).toEqual(steps);
+  });
+});
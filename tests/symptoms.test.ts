@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { glitches, matchSymptoms, nextSymptomQuestion, SYMPTOM_QUESTIONS } from '../src/glitches';
+import type { SymptomAnswers } from '../src/glitches';
+
+describe('symptom metadata', () => {
+  it('asks only about symptoms some glitch shows', () => {
+    for (const { symptom } of SYMPTOM_QUESTIONS) {
+      expect(glitches.some(g => g.symptoms.includes(symptom)), symptom).toBe(true);
+    }
+  });
+});
+
+describe('matchSymptoms', () => {
+  it('keeps everything when nothing is answered', () => {
+    expect(matchSymptoms(glitches, {})).toHaveLength(glitches.length);
+  });
+
+  it('requires "yes" symptoms and excludes "no" ones', () => {
+    const matches = matchSymptoms(glitches, { 'diagonal-shear': 'yes', 'stretched': 'no' });
+    expect(matches.length).toBeGreaterThan(0);
+    for (const glitch of matches) {
+      expect(glitch.symptoms).toContain('diagonal-shear');
+      expect(glitch.symptoms).not.toContain('stretched');
+    }
+  });
+
+  it('treats "unsure" as no constraint', () => {
+    expect(matchSymptoms(glitches, { 'flipped': 'unsure' })).toHaveLength(glitches.length);
+  });
+});
+
+describe('nextSymptomQuestion', () => {
+  it('stops once a single glitch is left', () => {
+    const answers: SymptomAnswers = { 'flipped': 'yes' };
+    const matches = matchSymptoms(glitches, answers);
+    expect(matches.map(g => g.id)).toEqual(['flipped-axis']);
+    expect(nextSymptomQuestion(matches, answers)).toBeNull();
+  });
+
+  it('never repeats a question and always narrows the candidates', () => {
+    const answers: SymptomAnswers = {};
+    let matches = matchSymptoms(glitches, answers);
+    for (let question = nextSymptomQuestion(matches, answers); question; question = nextSymptomQuestion(matches, answers)) {
+      expect(answers[question.symptom]).toBeUndefined();
+      answers[question.symptom] = 'no';
+      const next = matchSymptoms(glitches, answers);
+      expect(next.length).toBeLessThan(matches.length);
+      matches = next;
+    }
+  });
+
+  it('can single out every glitch by answering truthfully', () => {
+    for (const target of glitches) {
+      const answers: SymptomAnswers = {};
+      let matches = matchSymptoms(glitches, answers);
+      for (let question = nextSymptomQuestion(matches, answers); question; question = nextSymptomQuestion(matches, answers)) {
+        answers[question.symptom] = target.symptoms.includes(question.symptom) ? 'yes' : 'no';
+        matches = matchSymptoms(glitches, answers);
+      }
+      expect(matches).toContain(target);
+    }
+  });
+});
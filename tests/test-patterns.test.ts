@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { generateTestPattern, glitches, testPatternById, testPatterns } from '../src/glitches';
+import type { PixelBuffer } from '../src/glitches';
+
+const pixel = (image: PixelBuffer, x: number, y: number) =>
+  [...image.data.subarray((y * image.width + x) * 4, (y * image.width + x) * 4 + 4)];
+
+describe('test patterns', () => {
+  it('gives every glitch a recommended pattern that exists', () => {
+    for (const glitch of glitches) {
+      expect(testPatternById.has(glitch.testPattern), glitch.id).toBe(true);
+    }
+  });
+
+  it('draws every pattern at the requested size, including odd ones', () => {
+    for (const pattern of testPatterns) {
+      const image = generateTestPattern(pattern.id, 37, 23);
+      expect([image.width, image.height, image.data.length], pattern.id).toEqual([37, 23, 37 * 23 * 4]);
+    }
+  });
+
+  it('ramps from black to full intensity, optionally in steps', () => {
+    const smooth = generateTestPattern('ramps', 256, 100);
+    expect(pixel(smooth, 0, 0)).toEqual([0, 0, 0, 255]);
+    expect(pixel(smooth, 255, 0)).toEqual([255, 255, 255, 255]);
+    expect(pixel(smooth, 255, 30)).toEqual([255, 0, 0, 255]);
+    // The shadow ramp only climbs to 63
+    expect(pixel(smooth, 255, 99)).toEqual([63, 63, 63, 255]);
+
+    const stepped = generateTestPattern('ramps', 256, 100, { steps: 2 });
+    expect(new Set(Array.from({ length: 256 }, (_, x) => pixel(stepped, x, 0)[0]))).toEqual(new Set([0, 255]));
+  });
+
+  it('fades alpha across the checker', () => {
+    const image = generateTestPattern('alpha-checker', 64, 64, { checkSize: 8 });
+    expect(pixel(image, 0, 0)[3]).toBe(0);
+    // Column 63 is in the eighth, dark square of the first row
+    expect(pixel(image, 63, 0)).toEqual([128, 32, 32, 255]);
+    expect(pixel(image, 63, 8)).toEqual([255, 64, 64, 255]);
+  });
+
+  it('draws the bars at the chosen level', () => {
+    const image = generateTestPattern('color-bars', 70, 60);
+    expect(pixel(image, 0, 0)).toEqual([191, 191, 191, 255]);
+    expect(pixel(image, 65, 0)).toEqual([0, 0, 191, 255]);
+    expect(pixel(generateTestPattern('color-bars', 70, 60, { level: 100 }), 15, 0)).toEqual([255, 255, 0, 255]);
+  });
+
+  it('labels grid cells so misplaced ones can be read off', () => {
+    const image = generateTestPattern('uv-grid', 160, 160, { cells: 8 });
+    expect(pixel(image, 0, 0)).toEqual([255, 255, 255, 255]);
+    // Cells of 20 pixels get glyph pixels 2 across, starting 2 of them in; cell 1,0 is redder than 0,0
+    expect(pixel(image, 4, 4)).toEqual([0, 0, 0, 255]);
+    expect(pixel(image, 25, 17)[0]).toBeGreaterThan(pixel(image, 5, 17)[0]);
+    expect(pixel(image, 5, 17)[2]).not.toBe(pixel(image, 25, 17)[2]);
+  });
+
+  it('puts the zone plate centre at full brightness', () => {
+    const image = generateTestPattern('zone-plate', 65, 65);
+    expect(pixel(image, 32, 32)).toEqual([255, 255, 255, 255]);
+  });
+});